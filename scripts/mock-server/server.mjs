@@ -0,0 +1,610 @@
+// Local stand-in for the Hyperliquid API, driven by scenario fixtures
+//
+// Serves POST /info, POST /exchange and a WebSocket feed on /ws from a single
+// port, with no dependencies beyond Node itself. Every address sees the same
+// scripted account, so any connected wallet works.
+//
+// Usage: npm run mock -- [--scenario basic] [--port 3001]
+// Then pick "Custom..." in the network selector and enter http://localhost:3001
+
+import { createServer } from 'node:http'
+import { createHash } from 'node:crypto'
+import { readFileSync, readdirSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const SCENARIO_DIR = join(dirname(fileURLToPath(import.meta.url)), 'scenarios')
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+const BOOK_DEPTH = 10
+
+// Command line
+
+const getArg = (name, fallback) => {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 && process.argv[index + 1] != null ? process.argv[index + 1] : fallback
+}
+
+const port = Number(getArg('port', process.env.PORT ?? '3001'))
+const scenarioName = getArg('scenario', 'basic')
+
+const loadScenario = (name) => {
+  try {
+    return JSON.parse(readFileSync(join(SCENARIO_DIR, `${name}.json`), 'utf8'))
+  } catch (error) {
+    const available = readdirSync(SCENARIO_DIR).filter(file => file.endsWith('.json')).map(file => file.replace(/\.json$/, ''))
+    console.error(`Could not load scenario "${name}" (${error.message}). Available: ${available.join(', ')}`)
+    process.exit(1)
+  }
+}
+
+const scenario = loadScenario(scenarioName)
+const tickMs = scenario.tickMs ?? 1000
+
+// Helpers
+
+/**
+ * Seeded PRNG (mulberry32) so a scenario plays out the same way every run
+ */
+const createRandom = (seed) => {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Numbers go over the wire as decimal strings, like the real API
+const fmt = (value, decimals = 6) => String(Number(value.toFixed(decimals)))
+const fmtPx = (value) => String(Number(value.toPrecision(5)))
+
+const randomHash = () => `0x${Array.from({ length: 64 }, () => Math.floor(state.random() * 16).toString(16)).join('')}`
+
+// Scenario state
+
+let state
+
+const resetState = () => {
+  state = {
+    tick: 0,
+    random: createRandom(scenario.seed ?? 1),
+    cash: scenario.account?.cash ?? 10000,
+    spotCash: scenario.account?.spotCash ?? 0, // USDC held in spot
+    mids: Object.fromEntries(scenario.assets.map(asset => [asset.name, asset.mid])),
+    positions: new Map((scenario.account?.positions ?? []).map(position => [position.coin, {
+      szi: position.szi,
+      entryPx: position.entryPx,
+      leverage: position.leverage ?? 10,
+      leverageType: position.leverageType ?? 'cross'
+    }])),
+    fills: [],
+    nextTid: 1,
+    nextOid: 1,
+    refuseConnectionsUntil: 0,
+    silentUntilTick: undefined
+  }
+}
+
+const getAsset = (coin) => scenario.assets.find(asset => asset.name === coin)
+
+/**
+ * Trade against the account at the current mid, updating the position and cash
+ * @param side 'B' to buy, 'A' to sell
+ * @returns The fill, shaped like a userFills entry
+ */
+const executeFill = (coin, side, sz, { px = state.mids[coin], liquidation = false } = {}) => {
+  const position = state.positions.get(coin) ?? { szi: 0, entryPx: px, leverage: 10, leverageType: 'cross' }
+  const signedSz = side === 'B' ? sz : -sz
+  const startPosition = position.szi
+  // Round away float drift so a fully closed position is exactly 0
+  const newSzi = Number((startPosition + signedSz).toFixed(8))
+  
+  // Closing part of the position realizes PNL; adding to it moves the entry price
+  let closedPnl = 0
+  if (startPosition !== 0 && Math.sign(signedSz) !== Math.sign(startPosition)) {
+    const closedSz = Math.min(Math.abs(signedSz), Math.abs(startPosition))
+    closedPnl = closedSz * (px - position.entryPx) * Math.sign(startPosition)
+  }
+  if (newSzi !== 0 && Math.sign(newSzi) !== Math.sign(startPosition)) {
+    position.entryPx = px
+  } else if (Math.abs(newSzi) > Math.abs(startPosition)) {
+    position.entryPx = (position.entryPx * Math.abs(startPosition) + px * sz) / Math.abs(newSzi)
+  }
+  
+  const fee = sz * px * (scenario.account?.feeRate ?? 0.00035)
+  state.cash += closedPnl - fee
+  position.szi = newSzi
+  if (newSzi === 0) {
+    state.positions.delete(coin)
+  } else {
+    state.positions.set(coin, position)
+  }
+  
+  const direction = startPosition === 0 || Math.sign(signedSz) === Math.sign(startPosition)
+    ? (side === 'B' ? 'Open Long' : 'Open Short')
+    : (startPosition > 0 ? 'Close Long' : 'Close Short')
+  
+  const fill = {
+    coin,
+    px: fmtPx(px),
+    sz: fmt(sz, getAsset(coin)?.szDecimals ?? 4),
+    side,
+    time: Date.now(),
+    startPosition: fmt(startPosition),
+    dir: liquidation ? `Liquidated ${direction.replace('Close ', '')}` : direction,
+    closedPnl: fmt(closedPnl),
+    hash: randomHash(),
+    oid: state.nextOid++,
+    crossed: true,
+    fee: fmt(fee),
+    tid: state.nextTid++,
+    feeToken: 'USDC',
+    ...(liquidation ? { liquidation: { liquidatedUser: null, markPx: fmtPx(px), method: 'market' } } : {})
+  }
+  state.fills.unshift(fill)
+  return fill
+}
+
+// API payloads
+
+const buildClearinghouseState = () => {
+  let unrealizedPnl = 0
+  let totalNtlPos = 0
+  let totalMarginUsed = 0
+  let notional = 0
+  let maintenanceMargin = 0
+  
+  const positions = Array.from(state.positions.entries()).map(([coin, position]) => {
+    const mid = state.mids[coin]
+    const positionValue = Math.abs(position.szi) * mid
+    const pnl = position.szi * (mid - position.entryPx)
+    const marginUsed = positionValue / position.leverage
+    const maxLeverage = getAsset(coin)?.maxLeverage ?? 50
+    
+    unrealizedPnl += pnl
+    totalNtlPos += positionValue
+    totalMarginUsed += marginUsed
+    notional += position.szi * mid
+    maintenanceMargin += positionValue / (2 * maxLeverage)
+    
+    return { coin, position, mid, positionValue, pnl, marginUsed, maxLeverage }
+  })
+  
+  const accountValue = state.cash + unrealizedPnl
+  const marginSummary = {
+    accountValue: fmt(accountValue),
+    totalMarginUsed: fmt(totalMarginUsed),
+    totalNtlPos: fmt(totalNtlPos),
+    totalRawUsd: fmt(accountValue - notional)
+  }
+  
+  return {
+    assetPositions: positions.map(({ coin, position, mid, positionValue, pnl, marginUsed, maxLeverage }) => {
+      // Cross margin: liquidated once losses eat the equity above maintenance margin
+      const liquidationPx = mid - Math.sign(position.szi) * (accountValue - maintenanceMargin) / Math.abs(position.szi)
+      return {
+        type: 'oneWay',
+        position: {
+          coin,
+          szi: fmt(position.szi, getAsset(coin)?.szDecimals ?? 4),
+          entryPx: fmtPx(position.entryPx),
+          positionValue: fmt(positionValue),
+          unrealizedPnl: fmt(pnl),
+          returnOnEquity: fmt(pnl / (Math.abs(position.szi) * position.entryPx / position.leverage)),
+          liquidationPx: liquidationPx > 0 ? fmtPx(liquidationPx) : null,
+          marginUsed: fmt(marginUsed),
+          leverage: { type: position.leverageType, value: position.leverage },
+          cumFunding: { allTime: '0.0', sinceChange: '0.0', sinceOpen: '0.0' },
+          maxLeverage
+        }
+      }
+    }),
+    crossMarginSummary: marginSummary,
+    marginSummary,
+    crossMaintenanceMarginUsed: fmt(maintenanceMargin),
+    withdrawable: fmt(Math.max(0, accountValue - totalMarginUsed)),
+    time: Date.now()
+  }
+}
+
+const buildSpotState = () => ({
+  balances: state.spotCash > 0
+    ? [{ coin: 'USDC', token: 0, hold: '0.0', total: fmt(state.spotCash), entryNtl: '0.0' }]
+    : []
+})
+
+const buildBook = (coin) => {
+  const mid = state.mids[coin]
+  const step = mid * 0.0001
+  const level = (px) => ({ px: fmtPx(px), sz: fmt(0.5 + state.random() * 10, 4), n: 1 + Math.floor(state.random() * 5) })
+  return {
+    coin,
+    levels: [
+      Array.from({ length: BOOK_DEPTH }, (_, i) => level(mid - step * (i + 1))),
+      Array.from({ length: BOOK_DEPTH }, (_, i) => level(mid + step * (i + 1)))
+    ],
+    time: Date.now()
+  }
+}
+
+const buildMids = () => Object.fromEntries(Object.entries(state.mids).map(([coin, mid]) => [coin, fmtPx(mid)]))
+
+const buildMeta = () => ({
+  universe: scenario.assets.map(({ name, szDecimals, maxLeverage }) => ({ name, szDecimals, maxLeverage }))
+})
+
+const buildAssetCtxs = () => scenario.assets.map(asset => {
+  const mid = state.mids[asset.name]
+  return {
+    dayNtlVlm: '1000000.0',
+    funding: '0.0000125',
+    impactPxs: [fmtPx(mid * 0.9999), fmtPx(mid * 1.0001)],
+    markPx: fmtPx(mid),
+    midPx: fmtPx(mid),
+    openInterest: '1000.0',
+    oraclePx: fmtPx(mid),
+    premium: '0.0',
+    prevDayPx: fmtPx(asset.mid)
+  }
+})
+
+/**
+ * Answer an /info request body
+ * @returns The response, or undefined for unsupported request types
+ */
+const handleInfoRequest = (request) => {
+  switch (request.type) {
+    case 'allMids':
+      return buildMids()
+    case 'meta':
+      return buildMeta()
+    case 'metaAndAssetCtxs':
+      return [buildMeta(), buildAssetCtxs()]
+    case 'spotMeta':
+      return {
+        universe: [],
+        tokens: [{ name: 'USDC', szDecimals: 8, weiDecimals: 8, index: 0, tokenId: '0x6d1e7cde53ba9467b783cb7c530ce054', isCanonical: true, fullName: null }]
+      }
+    case 'clearinghouseState':
+      return buildClearinghouseState()
+    case 'spotClearinghouseState':
+      return buildSpotState()
+    case 'subAccounts':
+      return null
+    case 'userVaultEquities':
+    case 'extraAgents':
+      return []
+    case 'l2Book':
+      return buildBook(request.coin)
+    case 'userFills':
+    case 'userFillsByTime':
+      return state.fills
+    case 'openOrders':
+    case 'frontendOpenOrders':
+    case 'historicalOrders':
+    case 'userFunding':
+    case 'fundingHistory':
+    case 'candleSnapshot':
+      return []
+  }
+}
+
+// HTTP
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    // The app runs on another port, so every response needs CORS headers
+    'Access-Control-Allow-Origin': '*'
+  })
+  res.end(JSON.stringify(body))
+}
+
+const readBody = async (req) => {
+  const chunks = []
+  for await (const chunk of req) chunks.push(chunk)
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'))
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type'
+    })
+    res.end()
+    return
+  }
+  
+  let body
+  try {
+    body = req.method === 'POST' ? await readBody(req) : undefined
+  } catch {
+    sendJson(res, 400, 'Failed to deserialize the JSON body')
+    return
+  }
+  
+  if (req.url === '/info' && body != null) {
+    const response = handleInfoRequest(body)
+    if (response === undefined) {
+      sendJson(res, 422, `Unsupported info request type in mock server: ${body.type}`)
+      return
+    }
+    sendJson(res, 200, response)
+    return
+  }
+  
+  if (req.url === '/exchange' && body != null) {
+    sendJson(res, 200, { status: 'err', response: 'Exchange actions are not supported by the mock server' })
+    return
+  }
+  
+  sendJson(res, 404, 'Not found')
+})
+
+// WebSocket (RFC 6455, text frames only, which is all the app sends)
+
+const clients = new Set()
+
+const sendFrame = (client, opcode, payload = Buffer.alloc(0)) => {
+  let header
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length])
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4)
+    header.writeUInt8(0x80 | opcode, 0)
+    header.writeUInt8(126, 1)
+    header.writeUInt16BE(payload.length, 2)
+  } else {
+    header = Buffer.alloc(10)
+    header.writeUInt8(0x80 | opcode, 0)
+    header.writeUInt8(127, 1)
+    header.writeBigUInt64BE(BigInt(payload.length), 2)
+  }
+  client.socket.write(Buffer.concat([header, payload]))
+}
+
+const send = (client, channel, data) => {
+  sendFrame(client, 0x1, Buffer.from(JSON.stringify({ channel, data }), 'utf8'))
+}
+
+const closeClient = (client, code, reason) => {
+  const payload = Buffer.alloc(2 + Buffer.byteLength(reason))
+  payload.writeUInt16BE(code, 0)
+  payload.write(reason, 2)
+  sendFrame(client, 0x8, payload)
+  client.socket.end()
+  clients.delete(client)
+}
+
+/**
+ * Parse every complete frame in the client's buffer. Client frames are always masked.
+ */
+const readFrames = (client) => {
+  while (client.buffer.length >= 2) {
+    const opcode = client.buffer[0] & 0x0f
+    let length = client.buffer[1] & 0x7f
+    let offset = 2
+    if (length === 126) {
+      if (client.buffer.length < 4) return
+      length = client.buffer.readUInt16BE(2)
+      offset = 4
+    } else if (length === 127) {
+      if (client.buffer.length < 10) return
+      length = Number(client.buffer.readBigUInt64BE(2))
+      offset = 10
+    }
+    if (client.buffer.length < offset + 4 + length) return
+    
+    const mask = client.buffer.subarray(offset, offset + 4)
+    const payload = Buffer.from(client.buffer.subarray(offset + 4, offset + 4 + length))
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4]
+    client.buffer = client.buffer.subarray(offset + 4 + length)
+    
+    switch (opcode) {
+      case 0x1:
+        handleClientMessage(client, payload.toString('utf8'))
+        break
+      case 0x8:
+        closeClient(client, 1000, '')
+        return
+      case 0x9:
+        sendFrame(client, 0xa, payload)
+        break
+    }
+  }
+}
+
+const getSubscriptionKey = (subscription) => JSON.stringify(Object.entries(subscription).sort(([a], [b]) => a.localeCompare(b)))
+
+const handleClientMessage = (client, text) => {
+  let message
+  try {
+    message = JSON.parse(text)
+  } catch {
+    send(client, 'error', `Invalid JSON: ${text}`)
+    return
+  }
+  
+  switch (message.method) {
+    case 'ping':
+      send(client, 'pong')
+      return
+    
+    case 'subscribe':
+    case 'unsubscribe': {
+      const key = getSubscriptionKey(message.subscription)
+      if (message.method === 'subscribe') {
+        client.subscriptions.set(key, message.subscription)
+      } else {
+        client.subscriptions.delete(key)
+      }
+      send(client, 'subscriptionResponse', { method: message.method, subscription: message.subscription })
+      
+      // Snapshots right away, like the real feed
+      if (message.method === 'subscribe') pushSubscription(client, message.subscription, true)
+      return
+    }
+    
+    case 'post': {
+      const { type, payload } = message.request ?? {}
+      if (type === 'info') {
+        const data = handleInfoRequest(payload)
+        send(client, 'post', data === undefined
+          ? { id: message.id, response: { type: 'error', payload: `Unsupported info request type in mock server: ${payload?.type}` } }
+          : { id: message.id, response: { type: 'info', payload: { type: payload.type, data } } })
+      } else {
+        send(client, 'post', {
+          id: message.id,
+          response: { type: 'action', payload: { status: 'err', response: 'Exchange actions are not supported by the mock server' } }
+        })
+      }
+      return
+    }
+    
+    default:
+      send(client, 'error', `Unknown method: ${text}`)
+  }
+}
+
+/**
+ * Push the current data for one subscription
+ */
+const pushSubscription = (client, subscription, isSnapshot = false) => {
+  switch (subscription.type) {
+    case 'allMids':
+      send(client, 'allMids', { mids: buildMids() })
+      break
+    case 'webData2':
+      send(client, 'webData2', { user: subscription.user, clearinghouseState: buildClearinghouseState(), spotState: buildSpotState() })
+      break
+    case 'l2Book':
+      if (state.mids[subscription.coin] != null) send(client, 'l2Book', buildBook(subscription.coin))
+      break
+    case 'userFills':
+      if (isSnapshot) send(client, 'userFills', { isSnapshot: true, user: subscription.user, fills: state.fills })
+      break
+  }
+}
+
+const broadcast = (type, channel, data, matches = () => true) => {
+  clients.forEach(client => {
+    client.subscriptions.forEach(subscription => {
+      if (subscription.type === type && matches(subscription)) send(client, channel, typeof data === 'function' ? data(subscription) : data)
+    })
+  })
+}
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key']
+  if (req.url !== '/ws' || key == null || Date.now() < state.refuseConnectionsUntil) {
+    socket.destroy()
+    return
+  }
+  
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64')
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'))
+  
+  const client = { socket, subscriptions: new Map(), buffer: Buffer.alloc(0) }
+  clients.add(client)
+  console.log(`WebSocket client connected (${clients.size} total)`)
+  
+  socket.on('data', chunk => {
+    client.buffer = Buffer.concat([client.buffer, chunk])
+    readFrames(client)
+  })
+  socket.on('close', () => clients.delete(client))
+  socket.on('error', () => clients.delete(client))
+})
+
+// Scenario clock
+
+const runEvent = (event) => {
+  console.log(`[tick ${state.tick}] ${event.type}${event.coin != null ? ` ${event.coin}` : ''}`)
+  
+  switch (event.type) {
+    case 'price':
+      state.mids[event.coin] = event.px
+      break
+    
+    case 'fill': {
+      const fill = executeFill(event.coin, event.side, event.sz, { px: event.px })
+      broadcast('userFills', 'userFills', subscription => ({ user: subscription.user, fills: [fill] }))
+      broadcast('trades', 'trades', [{
+        coin: fill.coin, side: fill.side, px: fill.px, sz: fill.sz, hash: fill.hash, time: fill.time, tid: fill.tid
+      }], subscription => subscription.coin === fill.coin)
+      break
+    }
+    
+    case 'liquidation': {
+      const position = state.positions.get(event.coin)
+      if (position == null) break
+      const fill = executeFill(event.coin, position.szi > 0 ? 'A' : 'B', Math.abs(position.szi), { px: event.px, liquidation: true })
+      broadcast('userFills', 'userFills', subscription => ({ user: subscription.user, fills: [fill] }))
+      broadcast('notification', 'notification', { notification: `Liquidated ${event.coin} position at ${fill.px}` })
+      break
+    }
+    
+    case 'notification':
+      broadcast('notification', 'notification', { notification: event.message })
+      break
+    
+    case 'disconnect':
+      // Drop every socket; with downFor set, refuse reconnects for that many seconds
+      state.refuseConnectionsUntil = Date.now() + (event.downFor ?? 0) * 1000
+      Array.from(clients).forEach(client => closeClient(client, 1012, 'Mock server restart'))
+      break
+    
+    case 'silence':
+      // Stop pushing data without closing, to exercise stale feed detection
+      state.silentUntilTick = state.tick + Math.round((event.duration ?? 60) * 1000 / tickMs)
+      break
+    
+    default:
+      console.warn(`Unknown scenario event type: ${event.type}`)
+  }
+}
+
+const tick = () => {
+  state.tick++
+  
+  // Random walk, with an optional per-coin drift per tick
+  const { volatility = 0.001, drift = {} } = scenario.priceWalk ?? {}
+  Object.keys(state.mids).forEach(coin => {
+    state.mids[coin] *= 1 + (state.random() * 2 - 1) * volatility + (drift[coin] ?? 0)
+  })
+  
+  ;(scenario.events ?? [])
+    .filter(event => Math.round(event.at * 1000 / tickMs) === state.tick)
+    .forEach(runEvent)
+  
+  if (state.silentUntilTick == null || state.tick >= state.silentUntilTick) {
+    state.silentUntilTick = undefined
+    clients.forEach(client => {
+      client.subscriptions.forEach(subscription => pushSubscription(client, subscription))
+    })
+  }
+  
+  if (scenario.loopAfter != null && state.tick * tickMs >= scenario.loopAfter * 1000) {
+    console.log('Scenario finished, starting over')
+    resetState()
+  }
+}
+
+resetState()
+setInterval(tick, tickMs)
+
+server.listen(port, () => {
+  console.log(`Mock Hyperliquid API running scenario "${scenarioName}" on http://localhost:${port}`)
+  if (scenario.description != null) console.log(scenario.description)
+})
@@ -0,0 +1,75 @@
+import { spawn, type ChildProcess } from 'node:child_process'
+import { fileURLToPath } from 'node:url'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import {
+  asExchangeResponse,
+  asFetchedClearinghouseState,
+  asFetchedMetaAndAssetCtxs,
+  asFetchedSpotClearinghouseState,
+  asFetchedSpotMeta
+} from '@/types/hyperliquidTypes'
+
+const SERVER_PATH = fileURLToPath(new URL('./server.mjs', import.meta.url))
+const PORT = 39000 + Math.floor(Math.random() * 1000)
+const BASE_URL = `http://localhost:${PORT}`
+
+const post = async (path: string, body: unknown): Promise<unknown> => {
+  const response = await fetch(`${BASE_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  })
+  return response.json()
+}
+
+describe('mock server, basic scenario', () => {
+  let server: ChildProcess
+  
+  beforeAll(async () => {
+    server = spawn(process.execPath, [SERVER_PATH, '--scenario', 'basic', '--port', String(PORT)])
+    
+    // Ready once it prints its address
+    await new Promise<void>((resolve, reject) => {
+      server.stdout?.on('data', (data: Buffer) => {
+        if (data.toString().includes(BASE_URL)) resolve()
+      })
+      server.on('exit', code => reject(new Error(`Mock server exited with code ${code}`)))
+    })
+  })
+  
+  afterAll(() => {
+    server.kill()
+  })
+  
+  it('serves mids for every scenario asset', async () => {
+    const mids = await post('/info', { type: 'allMids' }) as Record<string, string>
+    expect(Object.keys(mids).sort()).toEqual(['BTC', 'ETH', 'HYPE', 'SOL'])
+    expect(Number(mids.BTC)).toBeGreaterThan(0)
+  })
+  
+  it('serves metadata the app can parse', async () => {
+    const [meta, assetCtxs] = asFetchedMetaAndAssetCtxs(await post('/info', { type: 'metaAndAssetCtxs' }))
+    expect(meta.universe.map(asset => asset.name)).toEqual(['BTC', 'ETH', 'SOL', 'HYPE'])
+    expect(assetCtxs).toHaveLength(4)
+    
+    const spotMeta = asFetchedSpotMeta(await post('/info', { type: 'spotMeta' }))
+    expect(spotMeta.tokens.map(token => token.name)).toEqual(['USDC'])
+  })
+  
+  it('serves the scenario account', async () => {
+    const user = '0x0000000000000000000000000000000000000001'
+    const state = asFetchedClearinghouseState(await post('/info', { type: 'clearinghouseState', user }))
+    expect(state.assetPositions.map(({ position }) => [position.coin, Number(position.szi)])).toEqual([
+      ['BTC', 0.15],
+      ['ETH', -2.5]
+    ])
+    
+    const spotState = asFetchedSpotClearinghouseState(await post('/info', { type: 'spotClearinghouseState', user }))
+    expect(spotState.balances.find(balance => balance.coin === 'USDC')?.total).toBe('1500')
+  })
+  
+  it('rejects exchange actions', async () => {
+    const response = asExchangeResponse(await post('/exchange', { action: { type: 'order' } }))
+    expect(response.status).toBe('err')
+  })
+})
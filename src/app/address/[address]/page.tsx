@@ -0,0 +1,57 @@
+"use client"
+
+import { useState } from "react"
+import { useParams } from "next/navigation"
+import AppShell from "@/components/AppShell"
+import MainView from "@/components/MainView"
+import WatchBanner from "@/components/WatchBanner"
+import { AccountViewProvider } from "@/context/AccountViewContext"
+import { useAsyncEffect } from "@/hooks/useAsyncEffect"
+import { resolveAddressInput } from "@/services/addressBook"
+import { Loader, Message } from "@/components/ui"
+
+/**
+ * The full dashboard for any address or ENS name, read-only
+ */
+export default function WatchAddressPage() {
+  const params = useParams<{ address: string }>()
+  const input = decodeURIComponent(params.address)
+  const [address, setAddress] = useState<string>()
+  const [error, setError] = useState<string>()
+  
+  useAsyncEffect(
+    async () => {
+      setAddress(undefined)
+      setError(undefined)
+      try {
+        setAddress(await resolveAddressInput(input))
+      } catch (error) {
+        setError(error instanceof Error ? error.message : 'Invalid address')
+      }
+    },
+    [input],
+    'watch-address-resolve'
+  )
+  
+  if (address == null) {
+    return (
+      <AppShell>
+        {error != null ? (
+          <Message variant="error">{error}</Message>
+        ) : (
+          <Loader label={`Resolving ${input}...`} />
+        )}
+      </AppShell>
+    )
+  }
+  
+  // The provider wraps the shell so the header's account switcher follows the watched address
+  return (
+    <AccountViewProvider watchAddress={address}>
+      <AppShell>
+        <WatchBanner address={address} />
+        <MainView />
+      </AppShell>
+    </AccountViewProvider>
+  )
+}
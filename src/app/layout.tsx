@@ -2,6 +2,8 @@ import type { Metadata } from "next"
 import { Geist, Geist_Mono } from "next/font/google"
 import "./globals.css"
 import { WalletProvider } from "@/context/WalletContext"
+import { NetworkProvider } from "@/context/NetworkContext"
+import { AccountViewProvider } from "@/context/AccountViewContext"
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -28,9 +30,13 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <WalletProvider>
-          {children}
-        </WalletProvider>
+        <NetworkProvider>
+          <WalletProvider>
+            <AccountViewProvider>
+              {children}
+            </AccountViewProvider>
+          </WalletProvider>
+        </NetworkProvider>
       </body>
     </html>
   )
@@ -0,0 +1,95 @@
+"use client"
+
+import { Suspense, useState } from "react"
+import Link from "next/link"
+import { useSearchParams } from "next/navigation"
+import AppShell from "@/components/AppShell"
+import PortfolioView, { PortfolioAccount } from "@/components/PortfolioView"
+import VaultDetails from "@/components/VaultDetails"
+import { useAsyncEffect } from "@/hooks/useAsyncEffect"
+import { findAddressBookEntry, resolveAddressInput } from "@/services/addressBook"
+import { fetchLinkedAccounts, LinkedVault } from "@/services/hyperliquidService"
+import { Card, Loader, Message } from "@/components/ui"
+
+/**
+ * Resolve the addresses in ?addresses=, labelled from the address book. With
+ * ?master=, its sub-accounts are labelled by name and its vault stakes listed.
+ */
+function Portfolio() {
+  const searchParams = useSearchParams()
+  const inputs = searchParams.get("addresses") ?? ""
+  const master = searchParams.get("master")
+  const [accounts, setAccounts] = useState<PortfolioAccount[]>()
+  const [vaults, setVaults] = useState<LinkedVault[]>([])
+  const [error, setError] = useState<string>()
+  
+  useAsyncEffect(
+    async () => {
+      setAccounts(undefined)
+      setVaults([])
+      setError(undefined)
+      try {
+        const addresses = await Promise.all(
+          inputs.split(",").filter(input => input.trim() !== "").map(resolveAddressInput)
+        )
+        const linkedAccounts = master != null ? await fetchLinkedAccounts(master) : undefined
+        
+        const getLabel = (address: string): string => {
+          const subAccount = linkedAccounts?.subAccounts.find(({ subAccountUser }) => subAccountUser.toLowerCase() === address.toLowerCase())
+          if (subAccount != null) return subAccount.name
+          if (address.toLowerCase() === master?.toLowerCase()) return "Master"
+          return findAddressBookEntry(address)?.label ?? `${address.slice(0, 6)}...${address.slice(-4)}`
+        }
+        
+        setAccounts(Array.from(new Set(addresses)).map(address => ({ address, label: getLabel(address) })))
+        setVaults(linkedAccounts?.vaults ?? [])
+      } catch (error) {
+        setError(error instanceof Error ? error.message : "Invalid address")
+      }
+    },
+    [inputs, master],
+    "portfolio-resolve"
+  )
+  
+  if (error != null) return <Message variant="error">{error}</Message>
+  if (accounts == null) return <Loader label="Resolving addresses..." />
+  
+  if (accounts.length === 0) {
+    return (
+      <Message variant="info">
+        No accounts selected. Pick some from the <Link href="/" className="underline">address book</Link>.
+      </Message>
+    )
+  }
+  
+  return (
+    <div className="space-y-6">
+      <PortfolioView accounts={accounts} />
+      
+      {master != null && vaults.length > 0 && (
+        <Card>
+          <Card.Header>Vault Holdings</Card.Header>
+          <div className="space-y-8">
+            {vaults.map(({ vaultAddress }) => (
+              <VaultDetails key={vaultAddress} vaultAddress={vaultAddress} user={master} />
+            ))}
+          </div>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Combined, read-only view of several addresses
+ */
+export default function PortfolioPage() {
+  return (
+    <AppShell>
+      {/* Search params are only known in the browser */}
+      <Suspense fallback={<Loader />}>
+        <Portfolio />
+      </Suspense>
+    </AppShell>
+  )
+}
@@ -0,0 +1,15 @@
+"use client"
+
+import AppShell from "@/components/AppShell"
+import AgentWalletSettings from "@/components/AgentWalletSettings"
+
+/**
+ * Account settings for the connected wallet
+ */
+export default function SettingsPage() {
+  return (
+    <AppShell>
+      <AgentWalletSettings />
+    </AppShell>
+  )
+}
@@ -2,15 +2,29 @@
 
 import React, { useEffect, useState } from 'react'
 import type { AccountState } from '../types/hyperliquidTypes'
-import { Panel } from '@/components/ui'
+import { Panel, Table } from '@/components/ui'
+import { add, compare, sum } from '@/utils/decimal'
 import { formatFiat, formatNumber, formatPercent } from '@/utils/formatters'
+import { getCrossAccountMetrics } from '@/utils/portfolio'
+import type { AccountStateEntry } from '@/utils/portfolio'
 import { useWallet } from '@/context/WalletContext'
 
+export interface AccountBreakdownEntry extends AccountStateEntry {
+  label: string
+}
+
 interface AccountSummaryProps {
   accountState: AccountState
+  breakdown?: AccountBreakdownEntry[] // Accounts combined into accountState, listed under the totals
+  spotValue?: string // USD value of spot balances, added to the perp account value for total equity
 }
 
-const AccountSummaryComponent = ({ accountState }: AccountSummaryProps) => {
+// Total unrealized PnL of an account's positions
+const getUnrealizedPnl = (accountState: AccountState): string => {
+  return sum(accountState.assetPositions.map(position => position.position.unrealizedPnl))
+}
+
+const AccountSummaryComponent = ({ accountState, breakdown, spotValue }: AccountSummaryProps) => {
   const { hideInfo } = useWallet()
   
   // Create state for all the values we need to display
@@ -20,7 +34,7 @@ const AccountSummaryComponent = ({ accountState }: AccountSummaryProps) => {
   const [maintenanceMargin, setMaintenanceMargin] = useState('0')
   const [crossMarginRatio, setCrossMarginRatio] = useState(0)
   const [crossAccountLeverage, setCrossAccountLeverage] = useState(0)
-  const [totalUnrealizedPnl, setTotalUnrealizedPnl] = useState(0)
+  const [totalUnrealizedPnl, setTotalUnrealizedPnl] = useState('0')
   
   // Update all values when accountState changes
   useEffect(() => {
@@ -43,23 +57,14 @@ const AccountSummaryComponent = ({ accountState }: AccountSummaryProps) => {
     // This fixes the issue where CrossMarginRatio becomes 0 after initial value
     const newMaintenanceMargin = accountState.crossMaintenanceMarginUsed ?? maintenanceMargin ?? '0'
     
-    // Calculate cross margin ratio (maintenance margin / portfolio value) according to Hyperliquid
-    const accountValueNum = parseFloat(newAccountValue)
-    const maintenanceMarginNum = parseFloat(newMaintenanceMargin)
-    const newCrossMarginRatio = accountValueNum > 0 ? (maintenanceMarginNum / accountValueNum) * 100 : 0
-    
-    // Calculate cross account leverage (total notional position / account value)
-    const totalNtlPosNum = parseFloat(newTotalNtlPos)
-    const newCrossAccountLeverage = accountValueNum > 0 ? totalNtlPosNum / accountValueNum : 0
+    // Cross margin ratio (maintenance margin / account value) and leverage (total notional / account value)
+    const {
+      marginRatio: newCrossMarginRatio,
+      leverage: newCrossAccountLeverage
+    } = getCrossAccountMetrics(newAccountValue, newMaintenanceMargin, newTotalNtlPos)
     
     // Calculate total unrealized PNL
-    let newTotalUnrealizedPnl = 0
-    if (accountState.assetPositions != null && accountState.assetPositions.length > 0) {
-      newTotalUnrealizedPnl = accountState.assetPositions.reduce((total, position) => {
-        const pnl = parseFloat(position.position.unrealizedPnl ?? '0')
-        return total + pnl
-      }, 0)
-    }
+    const newTotalUnrealizedPnl = getUnrealizedPnl(accountState)
     
     // Update all state values
     setAccountValue(newAccountValue)
@@ -87,52 +92,118 @@ const AccountSummaryComponent = ({ accountState }: AccountSummaryProps) => {
   // Component is now using React.memo and useEffect to update when accountState changes
   
   return (
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-      {/* First row */}
-      <Panel variant="blue">
-        <Panel.Label>Account Value</Panel.Label>
-        <Panel.Value>
-          {formatFiat(accountValue, true, undefined, false, true, hideInfo)}
-        </Panel.Value>
-      </Panel>
-      
-      <Panel variant="green">
-        <Panel.Label>Withdrawable</Panel.Label>
-        <Panel.Value>
-          {formatFiat(withdrawable, true, undefined, false, true, hideInfo)}
-        </Panel.Value>
-      </Panel>
-      
-      <Panel variant="purple">
-        <Panel.Label>Total Unrealized PNL</Panel.Label>
-        <Panel.Value positive={totalUnrealizedPnl >= 0} negative={totalUnrealizedPnl < 0}>
-          {formatFiat(totalUnrealizedPnl, true, undefined, false, true, hideInfo)}
-        </Panel.Value>
-      </Panel>
-
-      {/* Second row */}
-      <Panel variant="yellow">
-        <Panel.Label>Cross Account Leverage</Panel.Label>
-        <Panel.Value>
-          {/* Leverage is not sensitive information */}
-          {`${formatNumber(crossAccountLeverage, 2)}x`}
-        </Panel.Value>
-      </Panel>
-      
-      <Panel variant="orange">
-        <Panel.Label>Cross Margin Ratio</Panel.Label>
-        <Panel.Value>
-          {formatPercent(crossMarginRatio)}
-        </Panel.Value>
-      </Panel>
+    <>
+      <div className={`grid grid-cols-1 ${spotValue != null ? 'md:grid-cols-4' : 'md:grid-cols-3'} gap-4`}>
+        {/* First row */}
+        {/* Perp and spot together, once the spot balances are known */}
+        {spotValue != null && (
+          <Panel variant="blue">
+            <Panel.Label>Total Equity</Panel.Label>
+            <Panel.Value>
+              {formatFiat(add(accountValue, spotValue), true, undefined, false, true, hideInfo)}
+            </Panel.Value>
+          </Panel>
+        )}
+        
+        <Panel variant="blue">
+          <Panel.Label>{spotValue != null ? 'Perp Account Value' : 'Account Value'}</Panel.Label>
+          <Panel.Value>
+            {formatFiat(accountValue, true, undefined, false, true, hideInfo)}
+          </Panel.Value>
+        </Panel>
+        
+        {spotValue != null && (
+          <Panel variant="gray">
+            <Panel.Label>Spot Value</Panel.Label>
+            <Panel.Value>
+              {formatFiat(spotValue, true, undefined, false, true, hideInfo)}
+            </Panel.Value>
+          </Panel>
+        )}
+        
+        <Panel variant="green">
+          <Panel.Label>Withdrawable</Panel.Label>
+          <Panel.Value>
+            {formatFiat(withdrawable, true, undefined, false, true, hideInfo)}
+          </Panel.Value>
+        </Panel>
+        
+        <Panel variant="purple">
+          <Panel.Label>Total Unrealized PNL</Panel.Label>
+          <Panel.Value positive={compare(totalUnrealizedPnl, 0) >= 0} negative={compare(totalUnrealizedPnl, 0) < 0}>
+            {formatFiat(totalUnrealizedPnl, true, undefined, false, true, hideInfo)}
+          </Panel.Value>
+        </Panel>
+        
+        {/* Second row */}
+        <Panel variant="yellow">
+          <Panel.Label>Cross Account Leverage</Panel.Label>
+          <Panel.Value>
+            {/* Leverage is not sensitive information */}
+            {`${formatNumber(crossAccountLeverage, 2)}x`}
+          </Panel.Value>
+        </Panel>
+        
+        <Panel variant="orange">
+          <Panel.Label>Cross Margin Ratio</Panel.Label>
+          <Panel.Value>
+            {formatPercent(crossMarginRatio)}
+          </Panel.Value>
+        </Panel>
+        
+        <Panel variant="gray">
+          <Panel.Label>Total Notional Position</Panel.Label>
+          <Panel.Value>
+            {formatFiat(totalNtlPos, true, undefined, false, true, hideInfo)}
+          </Panel.Value>
+        </Panel>
+      </div>
       
-      <Panel variant="gray">
-        <Panel.Label>Total Notional Position</Panel.Label>
-        <Panel.Value>
-          {formatFiat(totalNtlPos, true, undefined, false, true, hideInfo)}
-        </Panel.Value>
-      </Panel>
-    </div>
+      {breakdown != null && breakdown.length > 0 && (
+        <div className="mt-6">
+          <Table>
+            <Table.Header>
+              <tr>
+                <Table.HeaderCell>ACCOUNT</Table.HeaderCell>
+                <Table.HeaderCell>VALUE</Table.HeaderCell>
+                <Table.HeaderCell>PNL</Table.HeaderCell>
+                <Table.HeaderCell>NOTIONAL</Table.HeaderCell>
+                <Table.HeaderCell>POSITIONS</Table.HeaderCell>
+              </tr>
+            </Table.Header>
+            <Table.Body>
+              {breakdown.map((entry, index) => {
+                const pnl = getUnrealizedPnl(entry.accountState)
+                return (
+                  <Table.Row key={entry.address} isEven={index % 2 === 0}>
+                    <Table.Cell>
+                      <span className="font-medium mr-2">{entry.label}</span>
+                      {!hideInfo && (
+                        <span className="font-mono text-xs text-gray-500">
+                          {entry.address.slice(0, 6)}...{entry.address.slice(-4)}
+                        </span>
+                      )}
+                    </Table.Cell>
+                    <Table.Cell secondary>
+                      {formatFiat(entry.accountState.crossMarginSummary?.accountValue ?? '0', true, undefined, false, true, hideInfo)}
+                    </Table.Cell>
+                    <Table.Cell secondary positive={compare(pnl, 0) >= 0} negative={compare(pnl, 0) < 0}>
+                      {formatFiat(pnl, true, undefined, false, true, hideInfo)}
+                    </Table.Cell>
+                    <Table.Cell secondary>
+                      {formatFiat(entry.accountState.crossMarginSummary?.totalNtlPos ?? '0', true, undefined, false, true, hideInfo)}
+                    </Table.Cell>
+                    <Table.Cell secondary>
+                      {entry.accountState.assetPositions.length}
+                    </Table.Cell>
+                  </Table.Row>
+                )
+              })}
+            </Table.Body>
+          </Table>
+        </div>
+      )}
+    </>
   )
 }
 
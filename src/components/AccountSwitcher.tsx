@@ -0,0 +1,65 @@
+"use client"
+
+import { useRouter } from 'next/navigation'
+import { useAccountView } from '@/context/AccountViewContext'
+
+/**
+ * Switch between the master account, its sub-accounts and the vaults it has
+ * deposited in, or open them all together in the portfolio view
+ */
+export default function AccountSwitcher() {
+  const router = useRouter()
+  const { masterAddress, activeAccount, setActiveAccount, linkedAccounts } = useAccountView()
+  const { subAccounts, vaults } = linkedAccounts
+  
+  // Nothing to switch between
+  if (masterAddress == null || (subAccounts.length === 0 && vaults.length === 0)) return null
+  
+  const value = activeAccount.kind === 'master' ? 'master' : `${activeAccount.kind}:${activeAccount.address}`
+  
+  const handleChange = (selected: string) => {
+    if (selected === 'all') {
+      // Vaults aren't owned outright, so the portfolio lists the user's equity in them separately
+      const addresses = [masterAddress, ...subAccounts.map(({ subAccountUser }) => subAccountUser)]
+      router.push(`/portfolio?addresses=${addresses.join(',')}&master=${masterAddress}`)
+      return
+    }
+    
+    const [kind, address] = selected.split(':')
+    const subAccount = subAccounts.find(({ subAccountUser }) => subAccountUser === address)
+    const vault = vaults.find(({ vaultAddress }) => vaultAddress === address)
+    if (kind === 'subAccount' && subAccount != null) {
+      setActiveAccount({ kind: 'subAccount', address, name: subAccount.name })
+    } else if (kind === 'vault' && vault != null) {
+      setActiveAccount({ kind: 'vault', address, name: vault.name, leader: vault.leader })
+    } else {
+      setActiveAccount({ kind: 'master' })
+    }
+  }
+  
+  return (
+    <select
+      value={value}
+      onChange={e => handleChange(e.target.value)}
+      className="text-xs text-gray-700 bg-white border border-gray-300 rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+      aria-label="Select account"
+    >
+      <option value="master">Master</option>
+      {subAccounts.length > 0 && (
+        <optgroup label="Sub-accounts">
+          {subAccounts.map(({ name, subAccountUser }) => (
+            <option key={subAccountUser} value={`subAccount:${subAccountUser}`}>{name}</option>
+          ))}
+        </optgroup>
+      )}
+      {vaults.length > 0 && (
+        <optgroup label="Vaults">
+          {vaults.map(({ name, vaultAddress }) => (
+            <option key={vaultAddress} value={`vault:${vaultAddress}`}>{name}</option>
+          ))}
+        </optgroup>
+      )}
+      <option value="all">All accounts...</option>
+    </select>
+  )
+}
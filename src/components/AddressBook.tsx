@@ -0,0 +1,168 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import {
+  AddressBookEntry,
+  getAddressBook,
+  removeAddress,
+  resolveAddressInput,
+  saveAddress,
+  subscribeToAddressBook
+} from '@/services/addressBook'
+import { Card } from '@/components/ui'
+import { theme, cx } from '@/styles/theme'
+
+const inputClassName = 'text-sm border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-blue-500'
+
+/**
+ * Watch any address read-only, and keep labelled addresses to come back to
+ */
+export default function AddressBook() {
+  const router = useRouter()
+  const [entries, setEntries] = useState<AddressBookEntry[]>([])
+  const [input, setInput] = useState('')
+  const [label, setLabel] = useState('')
+  const [isResolving, setIsResolving] = useState(false)
+  const [error, setError] = useState<string>()
+  const [selected, setSelected] = useState<string[]>([]) // Addresses to combine in the portfolio view
+  
+  useEffect(() => {
+    setEntries(getAddressBook())
+    return subscribeToAddressBook(newEntries => {
+      setEntries(newEntries)
+      setSelected(prev => prev.filter(address => newEntries.some(entry => entry.address === address)))
+    })
+  }, [])
+  
+  const toggleSelected = (address: string) => {
+    setSelected(prev => prev.includes(address) ? prev.filter(a => a !== address) : [...prev, address])
+  }
+  
+  /**
+   * Resolve the input, then either watch it or save it
+   */
+  const handleSubmit = async (action: 'watch' | 'save') => {
+    setError(undefined)
+    setIsResolving(true)
+    try {
+      const address = await resolveAddressInput(input)
+      if (action === 'save') {
+        saveAddress(address, label === '' ? input.trim() : label)
+        setInput('')
+        setLabel('')
+      } else {
+        router.push(`/address/${address}`)
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Invalid address')
+    } finally {
+      setIsResolving(false)
+    }
+  }
+  
+  return (
+    <Card>
+      <Card.Header>Watch an Address</Card.Header>
+      <p className={cx(theme.text.body.small, 'mb-4')}>
+        Follow any account read-only, no wallet needed. Trading is disabled while watching.
+      </p>
+      
+      <form
+        className="flex flex-col sm:flex-row gap-2"
+        onSubmit={e => {
+          e.preventDefault()
+          handleSubmit('watch').catch(() => {})
+        }}
+      >
+        <input
+          type="text"
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          placeholder="0x... or name.eth"
+          aria-label="Address or ENS name"
+          className={cx(inputClassName, 'flex-1 font-mono')}
+        />
+        <input
+          type="text"
+          value={label}
+          onChange={e => setLabel(e.target.value)}
+          placeholder="Label (optional)"
+          aria-label="Label"
+          className={cx(inputClassName, 'sm:w-48')}
+        />
+        <button
+          type="submit"
+          disabled={isResolving || input.trim() === ''}
+          className={cx(theme.buttons.base, theme.buttons.primary)}
+        >
+          {isResolving ? 'Resolving...' : 'Watch'}
+        </button>
+        <button
+          type="button"
+          disabled={isResolving || input.trim() === ''}
+          onClick={() => { handleSubmit('save').catch(() => {}) }}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          Save
+        </button>
+      </form>
+      
+      {error != null && (
+        <p className="text-sm text-red-600 mt-2">{error}</p>
+      )}
+      
+      {entries.length > 0 && (
+        <ul className="mt-4 divide-y divide-gray-200">
+          {entries.map(entry => (
+            <li key={entry.address} className="flex items-center justify-between py-2">
+              <div className="flex items-center min-w-0">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(entry.address)}
+                  onChange={() => toggleSelected(entry.address)}
+                  aria-label={`Include ${entry.label} in portfolio`}
+                  className="h-4 w-4 mr-3 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                />
+                <Link href={`/address/${entry.address}`} className="min-w-0 hover:text-blue-600">
+                  <span className="font-medium mr-3">{entry.label}</span>
+                  <span className="font-mono text-sm text-gray-500">
+                    {entry.address.slice(0, 6)}...{entry.address.slice(-4)}
+                  </span>
+                </Link>
+              </div>
+              <button
+                onClick={() => removeAddress(entry.address)}
+                className="text-sm text-gray-500 hover:text-red-600"
+                aria-label={`Remove ${entry.label}`}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      
+      {entries.length > 1 && (
+        <div className="flex items-center justify-end gap-3 mt-2">
+          <span className={theme.text.body.small}>
+            {selected.length} selected
+          </span>
+          {selected.length > 0 ? (
+            <Link
+              href={`/portfolio?addresses=${selected.join(',')}`}
+              className={cx(theme.buttons.base, theme.buttons.primary)}
+            >
+              View portfolio
+            </Link>
+          ) : (
+            <button disabled className={cx(theme.buttons.base, theme.buttons.primary)}>
+              View portfolio
+            </button>
+          )}
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,272 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { useNetwork } from '@/context/NetworkContext'
+import { useWallet } from '@/context/WalletContext'
+import { useAsyncEffect } from '@/hooks/useAsyncEffect'
+import {
+  AgentRecord,
+  approveNewAgent,
+  forgetAgent,
+  getAgentRecord,
+  getUnlockedAgent,
+  isAgentExpired,
+  lockAgent,
+  MAX_AGENT_VALID_DAYS,
+  revokeAgent,
+  subscribeToAgentWallets,
+  unlockAgent
+} from '@/services/agentWallet'
+import { fetchExtraAgents } from '@/services/hyperliquidInfoClient'
+import type { ExtraAgent } from '../types/hyperliquidTypes'
+import { Card, Message } from '@/components/ui'
+import { theme, cx } from '@/styles/theme'
+
+const inputClassName = 'text-sm border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-blue-500'
+const secondaryButtonClassName = 'px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50'
+
+const formatExpiry = (validUntil: number | undefined): string => {
+  if (validUntil == null) return 'Never expires'
+  const date = new Date(validUntil).toLocaleString()
+  return validUntil <= Date.now() ? `Expired ${date}` : `Valid until ${date}`
+}
+
+/**
+ * Approve an agent key for the connected wallet to sign its orders, and
+ * unlock, rotate or revoke it
+ */
+export default function AgentWalletSettings() {
+  const { account, provider } = useWallet()
+  const { network } = useNetwork()
+  const [record, setRecord] = useState<AgentRecord>()
+  const [isUnlocked, setIsUnlocked] = useState(false)
+  const [exchangeAgents, setExchangeAgents] = useState<ExtraAgent[]>()
+  const [name, setName] = useState('hyper-hyper')
+  const [validDays, setValidDays] = useState('30')
+  const [unlockPassphrase, setUnlockPassphrase] = useState('')
+  const [passphrase, setPassphrase] = useState('') // For a new agent
+  const [confirmPassphrase, setConfirmPassphrase] = useState('')
+  const [pendingAction, setPendingAction] = useState<string>()
+  const [result, setResult] = useState<{ variant: 'success' | 'error', text: string }>()
+  
+  // Agents are stored per network
+  useEffect(() => {
+    const update = () => {
+      setRecord(account != null ? getAgentRecord(account) : undefined)
+      setIsUnlocked(account != null && getUnlockedAgent(account) != null)
+    }
+    update()
+    return subscribeToAgentWallets(update)
+  }, [account, network])
+  
+  // What the exchange has approved, which may include agents created elsewhere
+  useAsyncEffect(
+    async () => {
+      setExchangeAgents(undefined)
+      if (account == null) return
+      
+      try {
+        setExchangeAgents(await fetchExtraAgents(account))
+      } catch (error) {
+        console.error('Error fetching agent wallets:', error)
+      }
+    },
+    [account, network, record],
+    'agent-wallets'
+  )
+  
+  /**
+   * Run an agent action, showing its progress and outcome
+   */
+  const run = async (label: string, action: () => Promise<string>) => {
+    setResult(undefined)
+    setPendingAction(label)
+    try {
+      setResult({ variant: 'success', text: await action() })
+      setUnlockPassphrase('')
+      setPassphrase('')
+      setConfirmPassphrase('')
+    } catch (error) {
+      console.error(`Error during agent action ${label}:`, error)
+      setResult({ variant: 'error', text: error instanceof Error ? error.message : 'Agent action failed' })
+    } finally {
+      setPendingAction(undefined)
+    }
+  }
+  
+  if (account == null || provider == null) {
+    return (
+      <Card>
+        <Card.Header>Agent Wallet</Card.Header>
+        <Message variant="info">Connect a wallet to set up an agent wallet.</Message>
+      </Card>
+    )
+  }
+  
+  const handleApprove = () => run('approve', async () => {
+    if (passphrase !== confirmPassphrase) throw new Error('Passphrases don\'t match')
+    const days = validDays.trim() !== '' ? Number(validDays) : undefined
+    if (days != null && !Number.isFinite(days)) throw new Error('Enter a number of days')
+    
+    const agent = await approveNewAgent(provider.getSigner(), { name, passphrase, validDays: days })
+    return `Approved agent ${agent.agentAddress}. Orders are now signed by the agent.`
+  })
+  
+  const handleUnlock = () => run('unlock', async () => {
+    await unlockAgent(account, unlockPassphrase)
+    return 'Agent unlocked for this session'
+  })
+  
+  const handleRevoke = () => run('revoke', async () => {
+    await revokeAgent(provider.getSigner())
+    return 'Agent revoked'
+  })
+  
+  const isBusy = pendingAction != null
+  const isExpired = record != null && isAgentExpired(record)
+  
+  return (
+    <Card>
+      <Card.Header>Agent Wallet</Card.Header>
+      <p className={cx(theme.text.body.small, 'mb-4')}>
+        An agent is a key kept in this browser, encrypted under your passphrase, that signs orders for
+        your account. Trading needs an unlocked agent, as wallets refuse to sign orders. Approving one
+        takes a single wallet signature. Agents can trade but can&apos;t withdraw or transfer funds.
+      </p>
+      
+      {record != null && (
+        <div className="mb-6 p-4 rounded-md border border-gray-200 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="min-w-0">
+              <div className="text-sm font-medium text-gray-900">{record.name}</div>
+              <div className="text-xs font-mono text-gray-500 truncate">{record.agentAddress}</div>
+            </div>
+            <span className={cx('text-xs font-medium px-2 py-1 rounded-full', isExpired ? 'bg-red-50 text-red-700' : isUnlocked ? 'bg-green-50 text-green-700' : 'bg-gray-100 text-gray-700')}>
+              {isExpired ? 'Expired' : isUnlocked ? 'Unlocked' : 'Locked'}
+            </span>
+          </div>
+          <div className={theme.text.body.small}>{formatExpiry(record.validUntil)}</div>
+          
+          <div className="flex flex-wrap gap-2">
+            {!isExpired && (isUnlocked ? (
+              <button type="button" onClick={() => lockAgent(account)} className={secondaryButtonClassName}>
+                Lock
+              </button>
+            ) : (
+              <form
+                className="flex gap-2"
+                onSubmit={e => {
+                  e.preventDefault()
+                  handleUnlock().catch(() => {})
+                }}
+              >
+                <input
+                  type="password"
+                  value={unlockPassphrase}
+                  onChange={e => setUnlockPassphrase(e.target.value)}
+                  placeholder="Passphrase"
+                  aria-label="Passphrase"
+                  className={inputClassName}
+                />
+                <button type="submit" disabled={isBusy || unlockPassphrase === ''} className={cx(theme.buttons.base, theme.buttons.primary)}>
+                  {pendingAction === 'unlock' ? 'Unlocking...' : 'Unlock'}
+                </button>
+              </form>
+            ))}
+            <button
+              type="button"
+              disabled={isBusy}
+              onClick={() => { handleRevoke().catch(() => {}) }}
+              className={cx(theme.buttons.base, theme.buttons.danger, 'disabled:opacity-50')}
+            >
+              {pendingAction === 'revoke' ? 'Revoking...' : 'Revoke'}
+            </button>
+            {isExpired && (
+              <button type="button" onClick={() => forgetAgent(account)} className={secondaryButtonClassName}>
+                Forget
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+      
+      <form
+        className="space-y-3"
+        onSubmit={e => {
+          e.preventDefault()
+          handleApprove().catch(() => {})
+        }}
+      >
+        <h3 className="text-sm font-medium text-gray-900">
+          {record != null ? 'Rotate: approve a new key to replace this one' : 'Approve a new agent'}
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="Agent name"
+            aria-label="Agent name"
+            className={inputClassName}
+          />
+          <input
+            type="number"
+            min={1}
+            max={MAX_AGENT_VALID_DAYS}
+            value={validDays}
+            onChange={e => setValidDays(e.target.value)}
+            placeholder={`Valid for days (max ${MAX_AGENT_VALID_DAYS})`}
+            aria-label="Valid for days"
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            placeholder="New passphrase"
+            aria-label="New passphrase"
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            value={confirmPassphrase}
+            onChange={e => setConfirmPassphrase(e.target.value)}
+            placeholder="Confirm passphrase"
+            aria-label="Confirm passphrase"
+            className={inputClassName}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isBusy || name.trim() === '' || passphrase === ''}
+          className={cx(theme.buttons.base, theme.buttons.primary)}
+        >
+          {pendingAction === 'approve' ? 'Approving...' : record != null ? 'Rotate Key' : 'Approve Agent'}
+        </button>
+      </form>
+      
+      {result != null && (
+        <div className="mt-4">
+          <Message variant={result.variant}>{result.text}</Message>
+        </div>
+      )}
+      
+      {exchangeAgents != null && exchangeAgents.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Approved on the exchange</h3>
+          <ul className="divide-y divide-gray-200">
+            {exchangeAgents.map(agent => (
+              <li key={agent.address} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                <div className="min-w-0">
+                  <div className="text-sm text-gray-900">{agent.name !== '' ? agent.name : 'Unnamed'}</div>
+                  <div className="text-xs font-mono text-gray-500 truncate">{agent.address}</div>
+                </div>
+                <span className={theme.text.body.small}>{formatExpiry(agent.validUntil)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,101 @@
+"use client"
+
+import { ReactNode } from "react"
+import Image from "next/image"
+import Link from "next/link"
+import dynamic from "next/dynamic"
+import WalletConnect from "@/components/WalletConnect"
+import NetworkSelector from "@/components/NetworkSelector"
+import AccountSwitcher from "@/components/AccountSwitcher"
+
+// Use dynamic import for components that need browser APIs to avoid SSR issues
+const WebSocketStatusIndicator = dynamic(
+  () => import("@/components/WebSocketStatusIndicator"),
+  { ssr: false }
+)
+
+const DevToolbar = dynamic(
+  () => import("@/components/DevToolbar"),
+  { ssr: false }
+)
+
+interface AppShellProps {
+  children: ReactNode
+}
+
+/**
+ * Header, footer and dev tools shared by every page
+ */
+export default function AppShell({ children }: AppShellProps) {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
+          <div className="flex items-center">
+            <Link href="/" className="flex items-center">
+              <Image
+                src="/hyperliquid-logo.svg"
+                alt="Hyperliquid Logo"
+                width={40}
+                height={40}
+                className="mr-3"
+                priority
+              />
+              <h1 className="text-xl font-bold text-gray-900">Hyper Hyperliquid</h1>
+            </Link>
+            <div className="ml-4 pl-4 border-l border-gray-200">
+              <WebSocketStatusIndicator />
+            </div>
+            <div className="ml-4 pl-4 border-l border-gray-200">
+              <NetworkSelector />
+            </div>
+          </div>
+          <div className="flex items-center space-x-4">
+            <Link href="/settings" className="text-sm font-medium text-gray-600 hover:text-gray-900">
+              Settings
+            </Link>
+            <AccountSwitcher />
+            <WalletConnect />
+          </div>
+        </div>
+      </header>
+      
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {children}
+      </main>
+      
+      {process.env.NODE_ENV !== "production" && <DevToolbar />}
+      
+      {/* Footer */}
+      <footer className="bg-white shadow-sm mt-8 py-6">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="text-gray-500 text-sm mb-4 md:mb-0">
+              &copy; {new Date().getFullYear()} Hyper Hyperliquid
+            </div>
+            <div className="flex space-x-6">
+              <a 
+                href="https://hyperliquid.xyz" 
+                target="_blank" 
+                rel="noopener noreferrer"
+                className="text-gray-500 hover:text-gray-700 text-sm"
+              >
+                Hyper Hyperliquid
+              </a>
+              <a 
+                href="https://hyperliquid.gitbook.io/hyperliquid-docs/" 
+                target="_blank" 
+                rel="noopener noreferrer"
+                className="text-gray-500 hover:text-gray-700 text-sm"
+              >
+                Documentation
+              </a>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  )
+}
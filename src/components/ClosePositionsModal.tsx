@@ -0,0 +1,204 @@
+"use client"
+
+import { useState } from 'react'
+import type { Position } from '../types/hyperliquidTypes'
+import { Message, Table } from '@/components/ui'
+import { Modal } from '@/components/ui/Modal'
+import { useAccountView } from '@/context/AccountViewContext'
+import { useWallet } from '@/context/WalletContext'
+import { useAssetRegistry } from '@/hooks/useAssetRegistry'
+import {
+  createOrderWire,
+  describeOrderStatus,
+  getCloseOrder,
+  getRealizedPnl,
+  OrderParams,
+  placeOrders
+} from '@/services/hyperliquidOrders'
+import { theme, cx } from '@/styles/theme'
+import { compare, isZero, sum } from '@/utils/decimal'
+import { formatFiat, formatNumber } from '@/utils/formatters'
+
+const PERCENT_PRESETS = ['25', '50', '75', '100']
+
+const toggleClassName = (isActive: boolean) =>
+  cx('flex-1 px-3 py-2 text-sm font-medium rounded-md border', isActive ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50')
+
+interface ClosePositionsModalProps {
+  positions: Position[] // One position from its row, or every position for close all
+  midPrices: Record<string, string>
+  initialIsMarket: boolean
+  onClose: () => void
+}
+
+/**
+ * Confirm closing all or part of one or more positions, at market or with a
+ * limit at the mid, showing the PnL each would realize. Every close goes out
+ * in one order action.
+ */
+export default function ClosePositionsModal({ positions, midPrices, initialIsMarket, onClose }: ClosePositionsModalProps) {
+  const registry = useAssetRegistry()
+  const { hideInfo } = useWallet()
+  const { signer, signingVaultAddress } = useAccountView()
+  const [isMarket, setIsMarket] = useState(initialIsMarket)
+  const [percent, setPercent] = useState('100')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string>()
+  
+  const isCloseAll = positions.length > 1
+  const title = isCloseAll
+    ? 'Close All Positions'
+    : `Close ${registry?.getDisplayName(positions[0].coin) ?? positions[0].coin} ${compare(positions[0].szi, 0) > 0 ? 'Long' : 'Short'}`
+  
+  // One close order per position that has a mid price to close at
+  let inputError: string | undefined
+  const closes: Array<{ position: Position, order: OrderParams, pnl: string }> = []
+  if (registry != null) {
+    try {
+      if (compare(percent, 0) <= 0 || compare(percent, 100) > 0) inputError = 'Enter a percentage between 0 and 100'
+      positions.forEach(position => {
+        const midPrice = registry.getMidPrice(position.coin, midPrices)
+        if (inputError != null || midPrice == null) return
+        
+        const order = getCloseOrder(registry, position, percent, isMarket, midPrice)
+        if (isZero(order.size)) return
+        // Market closes are estimated at the mid; they fill a little worse by the spread and depth
+        closes.push({ position, order, pnl: getRealizedPnl(position, order.size, isMarket ? midPrice : order.price) })
+      })
+    } catch {
+      inputError = 'Enter a valid number'
+    }
+  }
+  const totalPnl = sum(closes.map(({ pnl }) => pnl))
+  
+  const handleConfirm = async () => {
+    if (registry == null || signer == null || closes.length === 0) return
+    
+    setError(undefined)
+    setIsSubmitting(true)
+    try {
+      const statuses = await placeOrders(signer, closes.map(({ order }) => createOrderWire(registry, order)), signingVaultAddress)
+      const errors = statuses.flatMap((status, index) => typeof status === 'object' && 'error' in status
+        ? [`${registry.getDisplayName(closes[index].position.coin)}: ${describeOrderStatus(status)}`]
+        : [])
+      
+      if (errors.length > 0) {
+        setError(errors.join('; '))
+      } else {
+        onClose()
+      }
+    } catch (error) {
+      console.error('Error closing positions:', error)
+      setError(error instanceof Error ? error.message : 'Failed to close positions')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+  
+  return (
+    <Modal isOpen onClose={onClose} title={title} size="lg">
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <span className={theme.text.body.small}>Execution</span>
+            <div className="flex gap-2 mt-1">
+              <button type="button" onClick={() => setIsMarket(true)} className={toggleClassName(isMarket)}>
+                Market
+              </button>
+              <button type="button" onClick={() => setIsMarket(false)} className={toggleClassName(!isMarket)}>
+                Limit at Mid
+              </button>
+            </div>
+          </div>
+          
+          <div>
+            <span className={theme.text.body.small}>Amount to close (%)</span>
+            <div className="flex gap-2 mt-1">
+              {PERCENT_PRESETS.map(preset => (
+                <button key={preset} type="button" onClick={() => setPercent(preset)} className={toggleClassName(percent === preset)}>
+                  {preset}%
+                </button>
+              ))}
+              <input
+                value={percent}
+                onChange={e => setPercent(e.target.value)}
+                inputMode="decimal"
+                aria-label="Percent to close"
+                className="w-20 text-sm border border-gray-300 rounded-md px-2 py-2 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+        </div>
+        
+        {inputError != null ? (
+          <p className="text-sm text-red-600">{inputError}</p>
+        ) : (
+          <Table>
+            <Table.Header>
+              <tr>
+                <Table.HeaderCell>COIN</Table.HeaderCell>
+                <Table.HeaderCell>CLOSE SIZE</Table.HeaderCell>
+                <Table.HeaderCell>{isMarket ? 'EST. PRICE' : 'LIMIT PRICE'}</Table.HeaderCell>
+                <Table.HeaderCell>EST. REALIZED PNL</Table.HeaderCell>
+              </tr>
+            </Table.Header>
+            <Table.Body>
+              {closes.map(({ position, order, pnl }, index) => {
+                const exitPrice = isMarket ? registry?.getMidPrice(position.coin, midPrices) ?? order.price : order.price
+                return (
+                  <Table.Row key={position.coin} isEven={index % 2 === 0}>
+                    <Table.Cell>{registry?.getDisplayName(position.coin) ?? position.coin}</Table.Cell>
+                    <Table.Cell secondary>
+                      {formatNumber(order.size, registry?.get(position.coin)?.szDecimals ?? 4, 0, undefined, true)}
+                    </Table.Cell>
+                    <Table.Cell secondary>
+                      {formatFiat(exitPrice, true, registry?.getPriceDecimals(position.coin, exitPrice), true)}
+                    </Table.Cell>
+                    <Table.Cell secondary positive={compare(pnl, 0) >= 0} negative={compare(pnl, 0) < 0}>
+                      {formatFiat(pnl, true, undefined, false, true, hideInfo)}
+                    </Table.Cell>
+                  </Table.Row>
+                )
+              })}
+            </Table.Body>
+          </Table>
+        )}
+        
+        {inputError == null && (
+          <p className={theme.text.body.small}>
+            {isMarket
+              ? 'Market closes fill immediately, at most 1% through the mid. PnL is estimated at the mid, before fees.'
+              : 'Limit closes rest at the mid until filled. PnL is before fees.'}
+            {isCloseAll && ` Total: ${hideInfo ? '••••••' : formatFiat(totalPnl, true, undefined, false, true)}.`}
+          </p>
+        )}
+        
+        {closes.length < positions.length && inputError == null && (
+          <Message variant="warning">
+            Some positions are left out: they have no mid price yet, or the amount rounds to zero.
+          </Message>
+        )}
+        
+        {error != null && <Message variant="error">{error}</Message>}
+        
+        <div className="flex justify-end space-x-2 pt-4 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            disabled={signer == null || closes.length === 0 || isSubmitting}
+            onClick={() => { handleConfirm().catch(() => {}) }}
+            className={cx(theme.buttons.base, theme.buttons.danger, 'disabled:opacity-50 disabled:cursor-not-allowed')}
+          >
+            {isSubmitting ? 'Signing...' : isCloseAll ? `Close ${closes.length} Positions` : 'Close Position'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
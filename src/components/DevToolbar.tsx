@@ -0,0 +1,129 @@
+"use client"
+
+import { ChangeEvent, useEffect, useRef, useState } from 'react'
+import { hyperliquidSocketService } from '@/services/hyperliquidSocketService'
+import { downloadRecording, parseRecording } from '@/services/hyperliquidSessionRecorder'
+
+// How often to refresh the recorded frame count
+const POLL_INTERVAL = 1000 // ms
+
+const REPLAY_SPEEDS = [1, 2, 5, 10, 50]
+
+const buttonClassName = "px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
+
+/**
+ * Development-only toolbar for recording the live WebSocket session and
+ * replaying a recording in its place
+ */
+export default function DevToolbar() {
+  const [recording, setRecording] = useState(hyperliquidSocketService.getRecordingState())
+  const [isReplaying, setIsReplaying] = useState(hyperliquidSocketService.isReplaying())
+  const [replaySpeed, setReplaySpeed] = useState(1)
+  const [error, setError] = useState<string>()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  
+  // The recorder can stop on its own when full, so poll rather than only tracking clicks
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setRecording(hyperliquidSocketService.getRecordingState())
+    }, POLL_INTERVAL)
+    
+    return () => {
+      clearInterval(interval)
+    }
+  }, [])
+  
+  const handleToggleRecording = () => {
+    if (recording.isRecording) {
+      hyperliquidSocketService.stopRecording()
+    } else {
+      hyperliquidSocketService.startRecording()
+    }
+    setRecording(hyperliquidSocketService.getRecordingState())
+  }
+  
+  // The recording lives next to the socket, in the worker
+  const handleDownload = async () => {
+    try {
+      downloadRecording(await hyperliquidSocketService.exportRecording())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not export recording')
+    }
+  }
+  
+  const handleLoadRecording = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Allow picking the same file again
+    e.target.value = ''
+    if (file == null) return
+    
+    try {
+      hyperliquidSocketService.startReplay(parseRecording(await file.text()), replaySpeed)
+      setIsReplaying(true)
+      setError(undefined)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load recording')
+    }
+  }
+  
+  const handleStopReplay = () => {
+    hyperliquidSocketService.stopReplay()
+    setIsReplaying(false)
+  }
+  
+  return (
+    <div className="fixed bottom-4 right-4 z-40 bg-white border border-gray-300 rounded-lg shadow-lg px-3 py-2 text-xs text-gray-700">
+      <div className="flex items-center space-x-2">
+        <span className="font-semibold uppercase tracking-wider text-gray-500">Dev</span>
+        
+        <button onClick={handleToggleRecording} className={buttonClassName} disabled={isReplaying}>
+          {recording.isRecording ? 'Stop recording' : 'Record'}
+        </button>
+        {(recording.isRecording || recording.frameCount > 0) && (
+          <span className={recording.isRecording ? 'text-red-600' : 'text-gray-500'}>
+            {recording.frameCount} frames
+          </span>
+        )}
+        <button
+          onClick={handleDownload}
+          className={buttonClassName}
+          disabled={recording.frameCount === 0}
+        >
+          Download
+        </button>
+        
+        <span className="pl-2 border-l border-gray-200">Replay</span>
+        <select
+          value={replaySpeed}
+          onChange={e => setReplaySpeed(Number(e.target.value))}
+          disabled={isReplaying}
+          className="text-xs bg-white border border-gray-300 rounded-md px-1 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          aria-label="Replay speed"
+        >
+          {REPLAY_SPEEDS.map(speed => (
+            <option key={speed} value={speed}>{speed}x</option>
+          ))}
+        </select>
+        {isReplaying ? (
+          <button onClick={handleStopReplay} className={buttonClassName}>
+            Back to live
+          </button>
+        ) : (
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClassName}>
+            Load...
+          </button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".jsonl,application/jsonl"
+          onChange={handleLoadRecording}
+          className="hidden"
+        />
+      </div>
+      {error != null && (
+        <p className="mt-1 text-red-600">{error}</p>
+      )}
+    </div>
+  )
+}
@@ -1,16 +1,24 @@
 "use client"
 
-import { useState } from 'react'
-import { useWallet } from '@/context/WalletContext'
+import { useEffect, useState } from 'react'
+import { useAccountView } from '@/context/AccountViewContext'
+import { useNetwork } from '@/context/NetworkContext'
 import { PositionProvider } from '@/context/PositionContext'
-import { subscribeToUserState, subscribeToMidPrices } from '@/services/hyperliquidService'
+import { subscribeToUserState, subscribeToMidPrices, onWebSocketStatusChange, streamOpenOrders, WebSocketStatus } from '@/services/hyperliquidService'
 import AccountSummary from '@/components/AccountSummary'
 import PositionsTable from '@/components/PositionsTable'
 import ChartView from '@/components/ChartView'
+import VaultDetails from '@/components/VaultDetails'
+import SpotBalancesTable from '@/components/SpotBalancesTable'
+import OrderTicket from '@/components/OrderTicket'
+import OpenOrdersTable from '@/components/OpenOrdersTable'
+import ScaleOrderBuilder from '@/components/ScaleOrderBuilder'
 import { useAsyncEffect } from '@/hooks/useAsyncEffect'
-import type { AccountState, AssetPosition } from '../types/hyperliquidTypes'
+import { useAssetRegistry } from '@/hooks/useAssetRegistry'
+import type { AccountState, AssetPosition, FrontendOpenOrder } from '../types/hyperliquidTypes'
 import { Card, Loader, Message } from '@/components/ui'
 import { formatFiat, formatNumber } from '@/utils/formatters'
+import { getSpotPriceCoins, getSpotValue } from '@/utils/portfolio'
 
 // Define type for column order to be shared with PositionsTable
 export type ColumnConfig = {
@@ -21,63 +29,43 @@ export type ColumnConfig = {
 }
 
 export default function MainView() {
-  const { account } = useWallet()
+  // The connected wallet, the watched address in watch mode, or one of their sub-accounts or vaults
+  const { address: account, masterAddress, activeAccount } = useAccountView()
+  const { network } = useNetwork()
+  const registry = useAssetRegistry()
   const [accountState, setAccountState] = useState<AccountState>()
+  const [openOrders, setOpenOrders] = useState<FrontendOpenOrder[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string>()
   const [midPrices, setMidPrices] = useState<Record<string, string>>({})
   const [hasMidPrices, setHasMidPrices] = useState(false)
+  const [connectionStatus, setConnectionStatus] = useState<WebSocketStatus>('disconnected')
   
   // Store column ordering to persist across renders
   const [columnOrder, setColumnOrder] = useState<string[]>([])
+  const [orderColumnOrder, setOrderColumnOrder] = useState<string[]>([])
 
+  // Track the socket so positions aren't presented as live while it's down
+  useEffect(() => {
+    return onWebSocketStatusChange(setConnectionStatus)
+  }, [])
+  
   useAsyncEffect(
     async () => {
       if (account == null) return
       
-      console.log('MainView: Account changed, initializing data')
+      console.log('MainView: Account or network changed, initializing data')
       setIsLoading(true)
       setError(undefined)
       
+      // Drop data from the previous account or network
+      setAccountState(undefined)
+      setMidPrices({})
+      setHasMidPrices(false)
+      
       // Track cleanup functions
       const cleanupFunctions: Array<() => void> = []
       
-      // Subscribe to mark prices
-      try {
-        const unsubscribeMidPrices = await subscribeToMidPrices((prices) => {
-          // Check if we have real price data
-          if (Object.keys(prices).length > 0) {
-            // Get BTC price at component update time
-            const btcPrice = prices['BTC'] || 'unavailable'
-            
-            console.log({
-              event: 'mid_prices_component_update',
-              timestamp: new Date().toISOString(),
-              btc_price: btcPrice
-            })
-            
-            // Create a fresh object to ensure React detects the state change
-            const freshPrices = Object.assign({}, prices)
-            
-            // Update the UI state with the new prices
-            setMidPrices(freshPrices)
-            
-            // Increment the key to force PositionsTable to completely re-render
-            // setMidPricesKey(prev => prev + 1)
-            
-            // Set flag indicating we have mid prices
-            setHasMidPrices(true)
-          }
-        })
-        cleanupFunctions.push(unsubscribeMidPrices)
-      } catch (error) {
-        console.log({
-          event: 'mid_prices_subscription_error',
-          timestamp: new Date().toISOString(),
-          error: error instanceof Error ? error.message : 'Unknown error'
-        })
-      }
-      
       try {
         // Use explicit typing for the callback parameter
         const unsubscribe = await subscribeToUserState(account, (newAccountState?: AccountState) => {
@@ -103,23 +91,14 @@ export default function MainView() {
           })
           
           setAccountState((prevAccountState?: AccountState) => {
-            // If we have no positions in the update but have positions in the current state,
-            // keep the current positions and only update the account values
-            if (newAccountState.assetPositions.length === 0 && prevAccountState?.assetPositions != null && prevAccountState.assetPositions.length > 0) {
-              console.log('Update returned empty positions, preserving current positions')
-              return {
-                ...newAccountState,
-                assetPositions: prevAccountState.assetPositions
-              }
-            }
-            
-            // If we have positions in the update, or if we have no current positions,
-            // check if anything has changed before updating
+            // The update is already merged with the previous state, so an empty
+            // position list means every position closed. Check if anything has changed before updating
             const positionsChanged = JSON.stringify(newAccountState.assetPositions) !== JSON.stringify(prevAccountState?.assetPositions)
             const valuesChanged = 
               newAccountState.crossMarginSummary?.accountValue !== prevAccountState?.crossMarginSummary?.accountValue ||
               newAccountState.withdrawable !== prevAccountState?.withdrawable ||
-              newAccountState.crossMarginSummary?.leverage !== prevAccountState?.crossMarginSummary?.leverage
+              newAccountState.crossMarginSummary?.leverage !== prevAccountState?.crossMarginSummary?.leverage ||
+              JSON.stringify(newAccountState.spotBalances) !== JSON.stringify(prevAccountState?.spotBalances)
             
             // Log what changed
             if (positionsChanged) {
@@ -242,16 +221,95 @@ export default function MainView() {
         setIsLoading(false)
       }
     }, 
-    [account], 
+    [account, network], 
     'hyperliquid-user-state'
   )
+  
+  // Resting orders, for the open orders table and the TP/SL levels attached to positions
+  useAsyncEffect(
+    async () => {
+      setOpenOrders([])
+      if (account == null) return
+      
+      try {
+        return await streamOpenOrders(account, setOpenOrders)
+      } catch (error) {
+        console.error('Error fetching open orders:', error)
+      }
+    },
+    [account, network],
+    'open-orders'
+  )
+  
+  // Only prices for open positions and spot balances are shown, so only those are streamed
+  const spotBalances = accountState?.spotBalances
+  const pricedCoins = Array.from(new Set([
+    ...(accountState?.assetPositions.map(({ position }) => position.coin) ?? []),
+    ...(spotBalances != null && registry != null ? getSpotPriceCoins(spotBalances, registry) : [])
+  ])).sort().join(',')
+  
+  useAsyncEffect(
+    async () => {
+      if (account == null) return
+      
+      // Nothing to price
+      if (pricedCoins === '') {
+        setHasMidPrices(true)
+        return
+      }
+      
+      try {
+        const unsubscribeMidPrices = await subscribeToMidPrices((prices) => {
+          // Check if we have real price data
+          if (Object.keys(prices).length > 0) {
+            console.log({
+              event: 'mid_prices_component_update',
+              timestamp: new Date().toISOString(),
+              coin_count: Object.keys(prices).length
+            })
+            
+            // Create a fresh object to ensure React detects the state change
+            setMidPrices(Object.assign({}, prices))
+            
+            // Set flag indicating we have mid prices
+            setHasMidPrices(true)
+          }
+        }, pricedCoins.split(','))
+        
+        return unsubscribeMidPrices
+      } catch (error) {
+        console.log({
+          event: 'mid_prices_subscription_error',
+          timestamp: new Date().toISOString(),
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+    },
+    [account, network, pricedCoins],
+    'hyperliquid-mid-prices'
+  )
 
   return (
     <PositionProvider>
       <div className="space-y-6">
+        {/* Vault Card - Only show when viewing a vault */}
+        {activeAccount.kind === 'vault' && masterAddress != null && (
+          <Card>
+            <Card.Header>Vault</Card.Header>
+            <VaultDetails vaultAddress={activeAccount.address} user={masterAddress} />
+          </Card>
+        )}
+        
         {/* Account Overview Card */}
         <Card>
-          <Card.Header>Account Overview</Card.Header>
+          <Card.Header>
+            Account Overview
+            {activeAccount.kind !== 'master' && (
+              <span className="ml-3 text-base font-normal text-gray-500">
+                {activeAccount.kind === 'vault' ? 'Vault' : 'Sub-account'}: {activeAccount.name}
+              </span>
+            )}
+          </Card.Header>
           
           {isLoading && (
             <Loader label="Loading account data..." />
@@ -264,16 +322,35 @@ export default function MainView() {
           )}
           
           {accountState != null && isLoading === false && (
-            <AccountSummary accountState={accountState} />
+            <AccountSummary
+              accountState={accountState}
+              spotValue={spotBalances != null && registry != null ? getSpotValue(spotBalances, registry, midPrices) : undefined}
+            />
           )}
           
           {account == null && (
             <Message variant="warning">
-              <p>Please connect your wallet to view your account data.</p>
+              <p>Please connect your wallet or watch an address to view account data.</p>
             </Message>
           )}
         </Card>
         
+        {/* Order Ticket Card - Disabled with the reason when the account can't be signed for */}
+        {account != null && (
+          <Card>
+            <Card.Header>Place Order</Card.Header>
+            <OrderTicket accountState={accountState} />
+          </Card>
+        )}
+        
+        {/* Scale Order Card - A ladder of limit orders sent as one action */}
+        {account != null && (
+          <Card>
+            <Card.Header>Scale Order</Card.Header>
+            <ScaleOrderBuilder accountState={accountState} />
+          </Card>
+        )}
+        
         {/* Chart Card - Only show if account state is loaded */}
         {accountState != null && isLoading === false && (
           <Card>
@@ -288,10 +365,16 @@ export default function MainView() {
         {accountState != null && isLoading === false && (
           <Card>
             <Card.Header>Positions</Card.Header>
+            {connectionStatus !== 'connected' && (
+              <Message variant="warning">
+                Live connection lost. Positions may be out of date until it reconnects.
+              </Message>
+            )}
             {hasMidPrices ? (
               <PositionsTable 
                 positions={accountState.assetPositions} 
                 midPrices={midPrices}
+                openOrders={openOrders}
                 columnOrder={columnOrder}
                 onColumnOrderChange={(newOrder) => {
                   console.log({
@@ -312,6 +395,26 @@ export default function MainView() {
             )}
           </Card>
         )}
+        
+        {/* Open Orders Card - Only show if account state is loaded */}
+        {accountState != null && isLoading === false && (
+          <Card>
+            <Card.Header>Open Orders</Card.Header>
+            <OpenOrdersTable
+              orders={openOrders}
+              columnOrder={orderColumnOrder}
+              onColumnOrderChange={setOrderColumnOrder}
+            />
+          </Card>
+        )}
+        
+        {/* Spot Balances Card - Only show once the spot state has loaded */}
+        {spotBalances != null && isLoading === false && (
+          <Card>
+            <Card.Header>Spot Balances</Card.Header>
+            <SpotBalancesTable balances={spotBalances} midPrices={midPrices} />
+          </Card>
+        )}
       </div>
     </PositionProvider>
   )
@@ -0,0 +1,97 @@
+"use client"
+
+import { useState } from 'react'
+import { useNetwork } from '@/context/NetworkContext'
+import { NETWORKS, NetworkId, createCustomNetwork } from '@/services/hyperliquidNetwork'
+import { Modal } from '@/components/ui/Modal'
+import { theme, cx } from '@/styles/theme'
+
+// Badge colors make a non-mainnet session hard to miss
+const badgeStyles: Record<NetworkId, string> = {
+  mainnet: 'bg-green-100 text-green-800',
+  testnet: 'bg-yellow-100 text-yellow-800',
+  custom: 'bg-purple-100 text-purple-800'
+}
+
+export default function NetworkSelector() {
+  const { network, setNetwork } = useNetwork()
+  const [isCustomModalOpen, setIsCustomModalOpen] = useState(false)
+  const [customUrl, setCustomUrl] = useState('http://localhost:3001')
+  const [customUrlError, setCustomUrlError] = useState<string>()
+  
+  const handleChange = (id: NetworkId) => {
+    if (id === 'custom') {
+      setCustomUrlError(undefined)
+      setIsCustomModalOpen(true)
+      return
+    }
+    setNetwork(NETWORKS[id])
+  }
+  
+  const handleApplyCustomUrl = () => {
+    try {
+      setNetwork(createCustomNetwork(customUrl))
+      setIsCustomModalOpen(false)
+    } catch (error) {
+      setCustomUrlError(error instanceof Error ? error.message : 'Invalid URL')
+    }
+  }
+  
+  return (
+    <div className={theme.layout.flex.rowGap}>
+      <span
+        className={cx('px-2 py-0.5 rounded-full text-xs font-semibold uppercase tracking-wider', badgeStyles[network.id])}
+        title={network.baseUrl}
+      >
+        {network.label}
+      </span>
+      
+      <select
+        value={network.id}
+        onChange={e => handleChange(e.target.value as NetworkId)}
+        className="text-xs text-gray-700 bg-white border border-gray-300 rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        aria-label="Select network"
+      >
+        <option value="mainnet">{NETWORKS.mainnet.label}</option>
+        <option value="testnet">{NETWORKS.testnet.label}</option>
+        <option value="custom">Custom...</option>
+      </select>
+      
+      <Modal
+        isOpen={isCustomModalOpen}
+        onClose={() => setIsCustomModalOpen(false)}
+        title="Custom Network"
+        size="sm"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Base URL of an API serving <code>/info</code>, <code>/exchange</code> and <code>/ws</code>, e.g. a local mock server.
+          </p>
+          <input
+            type="url"
+            value={customUrl}
+            onChange={e => setCustomUrl(e.target.value)}
+            className="w-full text-sm border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          {customUrlError != null && (
+            <p className="text-sm text-red-600">{customUrlError}</p>
+          )}
+          <div className="flex justify-end space-x-2 pt-4 border-t border-gray-200">
+            <button
+              onClick={() => setIsCustomModalOpen(false)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleApplyCustomUrl}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Connect
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  )
+}
@@ -0,0 +1,401 @@
+"use client"
+
+import React, { useState } from 'react'
+import type { CancelWire, FrontendOpenOrder } from '../types/hyperliquidTypes'
+import { Message, Panel, SortableColumnHeader, Table } from '@/components/ui'
+import { Modal } from '@/components/ui/Modal'
+import { useAccountView } from '@/context/AccountViewContext'
+import { useAssetRegistry } from '@/hooks/useAssetRegistry'
+import { SortableColumn, useSortableColumns } from '@/hooks/useSortableColumns'
+import {
+  cancelOrders,
+  createModifiedOrderWire,
+  describeOrderStatus,
+  getOrderError,
+  modifyOrders
+} from '@/services/hyperliquidOrders'
+import { theme, cx } from '@/styles/theme'
+import { compare, sub } from '@/utils/decimal'
+import { formatFiat, formatNumber } from '@/utils/formatters'
+import { DndContext, closestCenter } from '@dnd-kit/core'
+import { SortableContext, horizontalListSortingStrategy } from '@dnd-kit/sortable'
+
+type ColumnConfig = SortableColumn<FrontendOpenOrder>
+
+// Price and size of the order being modified in place
+interface OrderEdit {
+  oid: number
+  price: string
+  size: string
+}
+
+interface OpenOrdersTableProps {
+  orders: FrontendOpenOrder[]
+  columnOrder?: string[] // Column IDs in their current order
+  onColumnOrderChange?: (columnOrder: string[]) => void
+}
+
+const inputClassName = 'w-24 text-sm border border-gray-300 rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500'
+const actionButtonClassName = 'px-2 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50'
+const cancelButtonClassName = 'px-2 py-1 text-xs font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50'
+
+// Market triggers have a limit price the user never chose, so only the trigger shows
+const isMarketTrigger = (order: FrontendOpenOrder): boolean => order.isTrigger && order.orderType.endsWith('Market')
+
+// Position TP/SL orders close whatever the position is when they trigger, so have no size of their own
+const hasFixedSize = (order: FrontendOpenOrder): boolean => order.isPositionTpsl
+
+// The price a modify changes: the limit price, or the trigger price of a trigger order
+const getEditablePrice = (order: FrontendOpenOrder): string => order.isTrigger ? order.triggerPx : order.limitPx
+
+/**
+ * Resting orders, kept current by order updates, with cancel, cancel all and
+ * in-place price and size modification when the account can sign
+ */
+export default function OpenOrdersTable({ orders, columnOrder = [], onColumnOrderChange }: OpenOrdersTableProps) {
+  const registry = useAssetRegistry()
+  const { signer, canSign, signingVaultAddress } = useAccountView()
+  const [selectedCoin, setSelectedCoin] = useState<string>() // Undefined for every coin
+  const [edit, setEdit] = useState<OrderEdit | null>(null)
+  const [isConfirmingCancelAll, setIsConfirmingCancelAll] = useState(false)
+  const [pendingAction, setPendingAction] = useState<string>()
+  const [error, setError] = useState<string>()
+  
+  const columns = React.useMemo<ColumnConfig[]>(() => {
+    const formatPrice = (coin: string, price: string) => formatFiat(price, true, registry?.getPriceDecimals(coin, price), true)
+    const formatSize = (coin: string, size: string) => formatNumber(size, registry?.get(coin)?.szDecimals ?? 4, 0, undefined, true)
+    
+    return [
+      {
+        id: 'time',
+        label: 'TIME',
+        getValue: (order) => order.timestamp,
+        renderCell: (order) => <>{new Date(order.timestamp).toLocaleString()}</>
+      },
+      {
+        id: 'coin',
+        label: 'COIN',
+        getValue: (order) => registry?.getDisplayName(order.coin) ?? order.coin,
+        renderCell: (order) => <>{registry?.getDisplayName(order.coin) ?? order.coin}</>
+      },
+      {
+        id: 'side',
+        label: 'SIDE',
+        getValue: (order) => order.side,
+        renderCell: (order) => (
+          <span className={order.side === 'B' ? 'text-green-600' : 'text-red-600'}>
+            {order.side === 'B' ? 'Buy' : 'Sell'}
+          </span>
+        )
+      },
+      {
+        id: 'type',
+        label: 'TYPE',
+        getValue: (order) => order.orderType,
+        renderCell: (order) => (
+          <>
+            {order.orderType}
+            {order.tif === 'Alo' && ' · Post Only'}
+            {order.reduceOnly && !order.isTrigger && ' · Reduce Only'}
+          </>
+        )
+      },
+      {
+        id: 'price',
+        label: 'PRICE',
+        getValue: (order) => isMarketTrigger(order) ? 0 : parseFloat(order.limitPx),
+        renderCell: (order) => <>{isMarketTrigger(order) ? 'Market' : formatPrice(order.coin, order.limitPx)}</>
+      },
+      {
+        id: 'size',
+        label: 'SIZE',
+        getValue: (order) => parseFloat(order.sz),
+        renderCell: (order) => <>{hasFixedSize(order) ? 'Position' : formatSize(order.coin, order.sz)}</>
+      },
+      {
+        id: 'filled',
+        label: 'FILLED',
+        getValue: (order) => parseFloat(sub(order.origSz, order.sz)),
+        renderCell: (order) => <>{hasFixedSize(order) ? '-' : formatSize(order.coin, sub(order.origSz, order.sz))}</>
+      },
+      {
+        id: 'trigger',
+        label: 'TRIGGER',
+        getValue: (order) => order.isTrigger ? parseFloat(order.triggerPx) : 0,
+        // e.g. 'Price above 65000'
+        renderCell: (order) => <>{order.isTrigger ? order.triggerCondition : '-'}</>
+      }
+    ]
+  }, [registry])
+  
+  const {
+    orderedColumns,
+    sortColumnId,
+    sortDirection,
+    handleSort,
+    sensors,
+    handleDragStart,
+    handleDragEnd,
+    sortRows
+  } = useSortableColumns(columns, columnOrder, onColumnOrderChange)
+  
+  const coins = Array.from(new Set(orders.map(order => order.coin))).sort()
+  // Back to every coin once the selected coin has no orders left
+  const coinFilter = selectedCoin != null && coins.includes(selectedCoin) ? selectedCoin : undefined
+  const displayedOrders = coinFilter != null ? orders.filter(order => order.coin === coinFilter) : orders
+  
+  /**
+   * Run a cancel or modify, showing any orders the exchange rejected
+   */
+  const run = async (label: string, action: () => Promise<string[]>) => {
+    setError(undefined)
+    setPendingAction(label)
+    try {
+      const errors = await action()
+      if (errors.length > 0) setError(errors.join('; '))
+      return errors.length === 0
+    } catch (error) {
+      console.error(`Error during order action ${label}:`, error)
+      setError(error instanceof Error ? error.message : 'Order action failed')
+      return false
+    } finally {
+      setPendingAction(undefined)
+    }
+  }
+  
+  const handleCancel = (label: string, cancelled: FrontendOpenOrder[]) => run(label, async () => {
+    if (registry == null || signer == null) return []
+    
+    const cancels: CancelWire[] = cancelled.flatMap(order => {
+      const assetId = registry.get(order.coin)?.assetId
+      return assetId != null ? [{ a: assetId, o: order.oid }] : []
+    })
+    if (cancels.length === 0) return []
+    
+    const statuses = await cancelOrders(signer, cancels, signingVaultAddress)
+    return statuses.flatMap(status => typeof status === 'object' ? [status.error] : [])
+  })
+  
+  const handleCancelAll = async () => {
+    await handleCancel('cancel-all', displayedOrders)
+    setIsConfirmingCancelAll(false)
+  }
+  
+  // Why the edited price and size can't be sent, if they can't
+  const getEditError = (order: FrontendOpenOrder, { price, size }: OrderEdit): string | undefined => {
+    if (registry == null) return
+    if (!order.isTrigger) {
+      return getOrderError(registry, {
+        coin: order.coin,
+        isBuy: order.side === 'B',
+        price,
+        size,
+        reduceOnly: order.reduceOnly,
+        tif: 'Gtc'
+      })
+    }
+    
+    try {
+      if (compare(price, 0) <= 0) return 'Trigger price must be greater than zero'
+      if (compare(size, 0) <= 0 && !hasFixedSize(order)) return 'Size must be greater than zero'
+    } catch {
+      return 'Enter a valid number'
+    }
+    if (compare(registry.roundPrice(order.coin, price), price) !== 0) {
+      return `Trigger price must be a multiple of ${registry.getTickSize(order.coin, price)} with at most 5 significant figures`
+    }
+  }
+  
+  const handleModify = (order: FrontendOpenOrder, orderEdit: OrderEdit) => run(`modify-${order.oid}`, async () => {
+    if (registry == null || signer == null) return []
+    
+    const wire = createModifiedOrderWire(registry, order, orderEdit.price, orderEdit.size)
+    const statuses = await modifyOrders(signer, [{ oid: order.oid, order: wire }], signingVaultAddress)
+    return statuses.filter(status => typeof status === 'object' && 'error' in status).map(describeOrderStatus)
+  })
+  
+  if (orders.length === 0) {
+    return (
+      <Panel variant="gray">
+        <p>No open orders</p>
+      </Panel>
+    )
+  }
+  
+  const editedOrder = edit != null ? orders.find(order => order.oid === edit.oid) : undefined
+  const editError = editedOrder != null && edit != null ? getEditError(editedOrder, edit) : undefined
+  const isBusy = pendingAction != null
+  
+  // The price and size cells become inputs while their order is being modified
+  const renderCell = (column: ColumnConfig, order: FrontendOpenOrder): React.ReactNode => {
+    if (edit == null || edit.oid !== order.oid) return column.renderCell(order)
+    
+    // Trigger orders modify their trigger price, shown in the trigger column
+    if (column.id === (order.isTrigger ? 'trigger' : 'price')) {
+      return (
+        <input
+          value={edit.price}
+          onChange={e => setEdit({ ...edit, price: e.target.value })}
+          inputMode="decimal"
+          aria-label={order.isTrigger ? 'Trigger price' : 'Price'}
+          className={inputClassName}
+        />
+      )
+    }
+    if (column.id === 'size' && !hasFixedSize(order)) {
+      return (
+        <input
+          value={edit.size}
+          onChange={e => setEdit({ ...edit, size: e.target.value })}
+          inputMode="decimal"
+          aria-label="Size"
+          className={inputClassName}
+        />
+      )
+    }
+    return column.renderCell(order)
+  }
+  
+  return (
+    <div>
+      {isConfirmingCancelAll && (
+        <Modal isOpen onClose={() => setIsConfirmingCancelAll(false)} title="Cancel Orders" size="sm">
+          <p className="text-sm text-gray-700">
+            Cancel {displayedOrders.length} open {displayedOrders.length === 1 ? 'order' : 'orders'}
+            {coinFilter != null && ` in ${registry?.getDisplayName(coinFilter) ?? coinFilter}`}?
+          </p>
+          <div className="flex justify-end space-x-2 pt-4 mt-4 border-t border-gray-200">
+            <button type="button" onClick={() => setIsConfirmingCancelAll(false)} className={actionButtonClassName}>
+              Keep Orders
+            </button>
+            <button
+              type="button"
+              disabled={isBusy}
+              onClick={() => { handleCancelAll().catch(() => {}) }}
+              className={cx(theme.buttons.base, theme.buttons.danger, 'disabled:opacity-50')}
+            >
+              {pendingAction === 'cancel-all' ? 'Signing...' : 'Cancel Orders'}
+            </button>
+          </div>
+        </Modal>
+      )}
+      
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <select
+          value={coinFilter ?? ''}
+          onChange={e => setSelectedCoin(e.target.value !== '' ? e.target.value : undefined)}
+          aria-label="Filter by coin"
+          className="text-sm border border-gray-300 rounded-md px-3 py-1 bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+        >
+          <option value="">All coins</option>
+          {coins.map(coin => (
+            <option key={coin} value={coin}>{registry?.getDisplayName(coin) ?? coin}</option>
+          ))}
+        </select>
+        {canSign && (
+          <button
+            type="button"
+            disabled={isBusy || displayedOrders.length === 0}
+            onClick={() => setIsConfirmingCancelAll(true)}
+            className="px-3 py-1 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+          >
+            {coinFilter != null ? `Cancel All ${registry?.getDisplayName(coinFilter) ?? coinFilter}` : 'Cancel All'}
+          </button>
+        )}
+      </div>
+      
+      {error != null && (
+        <div className="mb-3">
+          <Message variant="error">{error}</Message>
+        </div>
+      )}
+      
+      <DndContext
+        sensors={sensors}
+        collisionDetection={closestCenter}
+        onDragStart={handleDragStart}
+        onDragEnd={handleDragEnd}
+      >
+        <Table>
+          <Table.Header>
+            <tr>
+              <SortableContext items={orderedColumns.map(col => col.id)} strategy={horizontalListSortingStrategy}>
+                {orderedColumns.map((column, index) => (
+                  <SortableColumnHeader
+                    key={column.id}
+                    id={column.id}
+                    label={column.label}
+                    onClick={() => handleSort(column.id)}
+                    sortActive={sortColumnId === column.id}
+                    sortDirection={sortColumnId === column.id ? sortDirection : null}
+                    className={index < orderedColumns.length - 1 ? 'border-r border-gray-300' : ''}
+                  />
+                ))}
+              </SortableContext>
+              {canSign && <th className="px-2 py-2 bg-gray-100" />}
+            </tr>
+          </Table.Header>
+          <Table.Body>
+            {sortRows(displayedOrders).map((order, index) => {
+              const isEditing = edit != null && edit.oid === order.oid
+              return (
+                <Table.Row key={order.oid} isEven={index % 2 === 0}>
+                  {orderedColumns.map(column => (
+                    <Table.Cell key={column.id} secondary>
+                      {renderCell(column, order)}
+                    </Table.Cell>
+                  ))}
+                  {canSign && (
+                    <td className="px-2 py-2">
+                      {isEditing && editError != null && (
+                        <p className="text-xs text-red-600 mb-1">{editError}</p>
+                      )}
+                      <div className="flex gap-1">
+                        {isEditing ? (
+                          <>
+                            <button
+                              type="button"
+                              disabled={isBusy || editError != null}
+                              onClick={() => {
+                                handleModify(order, edit)
+                                  .then(isDone => { if (isDone) setEdit(null) })
+                                  .catch(() => {})
+                              }}
+                              className={actionButtonClassName}
+                            >
+                              {pendingAction === `modify-${order.oid}` ? 'Signing...' : 'Save'}
+                            </button>
+                            <button type="button" onClick={() => setEdit(null)} className={actionButtonClassName}>
+                              Discard
+                            </button>
+                          </>
+                        ) : (
+                          <button
+                            type="button"
+                            disabled={isBusy}
+                            onClick={() => setEdit({ oid: order.oid, price: getEditablePrice(order), size: order.sz })}
+                            className={actionButtonClassName}
+                          >
+                            Modify
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          disabled={isBusy}
+                          onClick={() => { handleCancel(`cancel-${order.oid}`, [order]).catch(() => {}) }}
+                          className={cancelButtonClassName}
+                        >
+                          {pendingAction === `cancel-${order.oid}` ? 'Signing...' : 'Cancel'}
+                        </button>
+                      </div>
+                    </td>
+                  )}
+                </Table.Row>
+              )
+            })}
+          </Table.Body>
+        </Table>
+      </DndContext>
+    </div>
+  )
+}
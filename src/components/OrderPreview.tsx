@@ -0,0 +1,142 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import type { AccountState, WsBook } from '../types/hyperliquidTypes'
+import { useAccountView } from '@/context/AccountViewContext'
+import { useNetwork } from '@/context/NetworkContext'
+import { useWallet } from '@/context/WalletContext'
+import { useAsyncEffect } from '@/hooks/useAsyncEffect'
+import type { AssetRegistry } from '@/services/hyperliquidAssetRegistry'
+import { fetchUserFees } from '@/services/hyperliquidInfoClient'
+import type { OrderParams } from '@/services/hyperliquidOrders'
+import { subscribeToL2Book } from '@/services/hyperliquidService'
+import { theme, cx } from '@/styles/theme'
+import { compare, mul } from '@/utils/decimal'
+import { formatFiat, formatNumber, formatPercent } from '@/utils/formatters'
+import { BASE_FEE_RATES, FeeRates, getTradeImpact } from '@/utils/tradeImpact'
+
+// Highlight slippage beyond this fraction of the mid
+const LARGE_SLIPPAGE = '0.005'
+
+// Highlight a margin ratio past this percent; the account is liquidated at 100
+const HIGH_MARGIN_RATIO = 50
+
+interface OrderPreviewProps {
+  order: OrderParams
+  accountState: AccountState
+  registry: AssetRegistry
+}
+
+/**
+ * What an order would do to the account if it filled against the book as it stands
+ */
+export default function OrderPreview({ order, accountState, registry }: OrderPreviewProps) {
+  const { address } = useAccountView()
+  const { network } = useNetwork()
+  const { hideInfo } = useWallet()
+  const [book, setBook] = useState<WsBook>()
+  const [feeRates, setFeeRates] = useState<FeeRates>(BASE_FEE_RATES)
+  
+  useEffect(() => {
+    setBook(undefined)
+    return subscribeToL2Book(order.coin, setBook)
+  }, [order.coin, network])
+  
+  // The user's fee tier; base rates until it loads or if it can't be fetched
+  useAsyncEffect(
+    async () => {
+      setFeeRates(BASE_FEE_RATES)
+      if (address == null) return
+      
+      try {
+        const fees = await fetchUserFees(address)
+        setFeeRates({ taker: fees.userCrossRate, maker: fees.userAddRate })
+      } catch (error) {
+        console.error('Error fetching user fees:', error)
+      }
+    },
+    [address, network],
+    'order-preview-fees'
+  )
+  
+  if (book == null) {
+    return <p className={theme.text.body.small}>Loading order book...</p>
+  }
+  
+  const impact = getTradeImpact(accountState, registry, order, book, feeRates)
+  if (impact == null) {
+    return <p className={theme.text.body.small}>No preview: the order book is empty.</p>
+  }
+  
+  const asset = registry.get(order.coin)
+  const szDecimals = asset?.szDecimals ?? 4
+  const formatPrice = (price: string) => formatFiat(price, true, registry.getPriceDecimals(order.coin, price), true)
+  const formatSize = (size: string) => `${formatNumber(size, szDecimals, 0, undefined, true)} ${asset?.displayName ?? order.coin}`
+  const { fill } = impact
+  
+  const rows: Array<{ label: string, before?: string, after: string, isWarning?: boolean }> = [
+    {
+      label: 'Avg fill price',
+      after: fill.averagePrice != null ? formatPrice(fill.averagePrice) : `Rests at ${formatPrice(order.price)}`
+    },
+    {
+      label: 'Slippage',
+      after: fill.slippage != null ? formatPercent(mul(fill.slippage, 100)) : '-',
+      isWarning: fill.slippage != null && compare(fill.slippage, LARGE_SLIPPAGE) > 0
+    },
+    {
+      label: `Fee (${formatPercent(mul(feeRates.taker, 100), 3)} taker / ${formatPercent(mul(feeRates.maker, 100), 3)} maker)`,
+      after: formatFiat(impact.fee, true, undefined, false, true)
+    },
+    {
+      label: 'Position',
+      before: formatSize(impact.positionSize.before),
+      after: formatSize(impact.positionSize.after)
+    },
+    {
+      label: 'Margin used',
+      before: formatFiat(impact.marginUsed.before, true, undefined, false, true, hideInfo),
+      after: formatFiat(impact.marginUsed.after, true, undefined, false, true, hideInfo)
+    },
+    ...(impact.cross != null ? [
+      {
+        label: 'Cross account leverage',
+        before: `${formatNumber(impact.cross.before.leverage, 2)}x`,
+        after: `${formatNumber(impact.cross.after.leverage, 2)}x`
+      },
+      {
+        label: 'Cross margin ratio',
+        before: formatPercent(impact.cross.before.marginRatio),
+        after: formatPercent(impact.cross.after.marginRatio),
+        isWarning: impact.cross.after.marginRatio >= HIGH_MARGIN_RATIO
+      }
+    ] : []),
+    {
+      label: 'Est. liquidation price',
+      before: impact.liquidationPrice.before != null ? formatPrice(impact.liquidationPrice.before) : '-',
+      after: impact.liquidationPrice.after != null ? formatPrice(impact.liquidationPrice.after) : '-'
+    }
+  ]
+  
+  return (
+    <div className="rounded-md border border-gray-200 bg-gray-50 p-4">
+      <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-1">
+        {rows.map(({ label, before, after, isWarning }) => (
+          <div key={label} className="flex justify-between gap-4 text-sm">
+            <dt className="text-gray-500">{label}</dt>
+            <dd className={cx('text-right', isWarning === true ? 'text-red-600 font-medium' : 'text-gray-900')}>
+              {before != null && before !== after && <span className="text-gray-500">{before} → </span>}
+              {after}
+            </dd>
+          </div>
+        ))}
+      </dl>
+      {impact.warning != null && (
+        <p className="text-sm text-red-600 mt-2">{impact.warning}</p>
+      )}
+      <p className="text-xs text-gray-500 mt-2">
+        Estimates assume the order fills against the book as it stands now, with positions valued at the mid.
+      </p>
+    </div>
+  )
+}
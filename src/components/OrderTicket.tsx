@@ -0,0 +1,279 @@
+"use client"
+
+import { useState } from 'react'
+import { useAccountView } from '@/context/AccountViewContext'
+import { useNetwork } from '@/context/NetworkContext'
+import { useAsyncEffect } from '@/hooks/useAsyncEffect'
+import { useAssetRegistry } from '@/hooks/useAssetRegistry'
+import { subscribeToMidPrices } from '@/services/hyperliquidService'
+import {
+  createOrderWire,
+  DEFAULT_MARKET_SLIPPAGE,
+  describeOrderStatus,
+  getMarketOrderPrice,
+  getOrderError,
+  OrderParams,
+  placeOrders
+} from '@/services/hyperliquidOrders'
+import type { AccountState, OrderTif } from '../types/hyperliquidTypes'
+import OrderPreview from '@/components/OrderPreview'
+import { Loader, Message } from '@/components/ui'
+import { theme, cx } from '@/styles/theme'
+import { div, mul } from '@/utils/decimal'
+import { formatFiat, formatNumber } from '@/utils/formatters'
+
+type OrderKind = 'limit' | 'market' | 'postOnly'
+
+const ORDER_KINDS: Array<{ kind: OrderKind, label: string, tif: OrderTif }> = [
+  { kind: 'limit', label: 'Limit', tif: 'Gtc' },
+  { kind: 'market', label: 'Market', tif: 'Ioc' },
+  { kind: 'postOnly', label: 'Post Only', tif: 'Alo' }
+]
+
+const inputClassName = 'w-full text-sm border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-blue-500'
+
+const toggleClassName = (isActive: boolean, activeClassName: string) =>
+  cx('flex-1 px-3 py-2 text-sm font-medium rounded-md border', isActive ? activeClassName : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50')
+
+interface OrderTicketProps {
+  accountState?: AccountState // Needed for the pre-trade preview
+}
+
+/**
+ * Place limit, market (IOC through the mid) and post-only orders on a perp,
+ * sized in coin or USD, with a preview of their impact on the account
+ */
+export default function OrderTicket({ accountState }: OrderTicketProps) {
+  const { network } = useNetwork()
+  const registry = useAssetRegistry()
+  const { canSign, signingDisabledReason, signingVaultAddress, signer } = useAccountView()
+  
+  const [coin, setCoin] = useState('BTC')
+  const [isBuy, setIsBuy] = useState(true)
+  const [orderKind, setOrderKind] = useState<OrderKind>('limit')
+  const [price, setPrice] = useState('')
+  const [size, setSize] = useState('')
+  const [sizeUnit, setSizeUnit] = useState<'coin' | 'usd'>('coin')
+  const [reduceOnly, setReduceOnly] = useState(false)
+  const [slippagePercent, setSlippagePercent] = useState(String(Number(DEFAULT_MARKET_SLIPPAGE) * 100))
+  const [midPrice, setMidPrice] = useState<string>()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [result, setResult] = useState<{ variant: 'success' | 'error', text: string }>()
+  
+  useAsyncEffect(
+    async () => {
+      setMidPrice(undefined)
+      return await subscribeToMidPrices(prices => {
+        if (prices[coin] != null) setMidPrice(prices[coin])
+      }, [coin])
+    },
+    [coin, network],
+    'order-ticket-mid-price'
+  )
+  
+  if (registry == null) return <Loader label="Loading markets..." />
+  
+  const asset = registry.get(coin)
+  const tif = ORDER_KINDS.find(({ kind }) => kind === orderKind)?.tif ?? 'Gtc'
+  
+  // Market orders are limit orders at the mid plus slippage; everything else uses the entered price
+  let orderPrice: string | undefined
+  let orderSize: string | undefined
+  let inputError: string | undefined
+  try {
+    if (orderKind === 'market') {
+      const slippage = div(slippagePercent, 100)
+      orderPrice = midPrice != null ? getMarketOrderPrice(registry, coin, midPrice, isBuy, slippage) : undefined
+    } else {
+      orderPrice = price.trim() !== '' ? price.trim() : undefined
+    }
+    
+    if (size.trim() !== '') {
+      orderSize = sizeUnit === 'coin'
+        ? size.trim()
+        : orderPrice != null ? registry.roundSize(coin, div(size.trim(), orderPrice)) : undefined
+    }
+  } catch {
+    inputError = 'Enter a valid number'
+  }
+  
+  const order: OrderParams | undefined = orderPrice != null && orderSize != null
+    ? { coin, isBuy, price: orderPrice, size: orderSize, reduceOnly, tif }
+    : undefined
+  const orderError = inputError ?? (order != null ? getOrderError(registry, order) : undefined)
+  
+  const handleSubmit = async () => {
+    if (order == null || signer == null) return
+    
+    setResult(undefined)
+    setIsSubmitting(true)
+    try {
+      const [status] = await placeOrders(signer, [createOrderWire(registry, order)], signingVaultAddress)
+      const isError = typeof status === 'object' && 'error' in status
+      setResult({ variant: isError ? 'error' : 'success', text: describeOrderStatus(status) })
+      if (!isError) setSize('')
+    } catch (error) {
+      console.error('Error placing order:', error)
+      setResult({ variant: 'error', text: error instanceof Error ? error.message : 'Failed to place order' })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+  
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="block">
+          <span className={theme.text.body.small}>Market</span>
+          <select
+            value={coin}
+            onChange={e => {
+              setCoin(e.target.value)
+              setPrice('')
+              setResult(undefined)
+            }}
+            className={cx(inputClassName, 'mt-1 bg-white')}
+          >
+            {registry.getPerps().filter(({ isDelisted }) => !isDelisted).map(({ coin, displayName }) => (
+              <option key={coin} value={coin}>{displayName}</option>
+            ))}
+          </select>
+        </label>
+        
+        <div>
+          <span className={theme.text.body.small}>Side</span>
+          <div className="flex gap-2 mt-1">
+            <button type="button" onClick={() => setIsBuy(true)} className={toggleClassName(isBuy, 'bg-green-600 text-white border-green-600')}>
+              Buy / Long
+            </button>
+            <button type="button" onClick={() => setIsBuy(false)} className={toggleClassName(!isBuy, 'bg-red-600 text-white border-red-600')}>
+              Sell / Short
+            </button>
+          </div>
+        </div>
+        
+        <div>
+          <span className={theme.text.body.small}>Type</span>
+          <div className="flex gap-2 mt-1">
+            {ORDER_KINDS.map(({ kind, label }) => (
+              <button
+                key={kind}
+                type="button"
+                onClick={() => setOrderKind(kind)}
+                className={toggleClassName(orderKind === kind, 'bg-blue-600 text-white border-blue-600')}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {orderKind === 'market' ? (
+          <label className="block">
+            <span className={theme.text.body.small}>Max slippage (%)</span>
+            <input
+              value={slippagePercent}
+              onChange={e => setSlippagePercent(e.target.value)}
+              inputMode="decimal"
+              className={cx(inputClassName, 'mt-1')}
+            />
+            <span className="text-xs text-gray-500">
+              {orderPrice != null ? `Fills no worse than ${formatFiat(orderPrice, true, registry.getPriceDecimals(coin, orderPrice), true)}` : 'Waiting for the mid price...'}
+            </span>
+          </label>
+        ) : (
+          <label className="block">
+            <span className={theme.text.body.small}>Price</span>
+            <div className="flex gap-2 mt-1">
+              <input
+                value={price}
+                onChange={e => setPrice(e.target.value)}
+                inputMode="decimal"
+                placeholder="0.0"
+                className={inputClassName}
+              />
+              <button
+                type="button"
+                disabled={midPrice == null}
+                onClick={() => midPrice != null && setPrice(registry.roundPrice(coin, midPrice))}
+                className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Mid
+              </button>
+            </div>
+            <span className="text-xs text-gray-500">
+              {midPrice != null ? `Mid ${formatFiat(midPrice, true, registry.getPriceDecimals(coin, midPrice), true)}` : 'Waiting for the mid price...'}
+            </span>
+          </label>
+        )}
+        
+        <label className="block">
+          <span className={theme.text.body.small}>Size</span>
+          <div className="flex gap-2 mt-1">
+            <input
+              value={size}
+              onChange={e => setSize(e.target.value)}
+              inputMode="decimal"
+              placeholder="0.0"
+              className={inputClassName}
+            />
+            <select
+              value={sizeUnit}
+              onChange={e => setSizeUnit(e.target.value === 'usd' ? 'usd' : 'coin')}
+              className="text-sm border border-gray-300 rounded-md px-2 py-2 bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+              aria-label="Size unit"
+            >
+              <option value="coin">{asset?.displayName ?? coin}</option>
+              <option value="usd">USD</option>
+            </select>
+          </div>
+          <span className="text-xs text-gray-500">
+            {order != null && (sizeUnit === 'usd'
+              ? `${formatNumber(order.size, asset?.szDecimals ?? 4)} ${asset?.displayName ?? coin}`
+              : formatFiat(mul(order.size, order.price)))}
+          </span>
+        </label>
+        
+        <div className="flex flex-col justify-between">
+          <label className="flex items-center mt-6">
+            <input
+              type="checkbox"
+              checked={reduceOnly}
+              onChange={e => setReduceOnly(e.target.checked)}
+              className="h-4 w-4 mr-2 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-700">Reduce only</span>
+          </label>
+          
+          <button
+            type="button"
+            disabled={!canSign || order == null || orderError != null || isSubmitting}
+            onClick={handleSubmit}
+            title={signingDisabledReason ?? undefined}
+            className={cx(theme.buttons.base, isBuy ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700', 'px-4 py-2 text-white font-medium disabled:opacity-50 disabled:cursor-not-allowed')}
+          >
+            {isSubmitting ? 'Signing...' : `${isBuy ? 'Buy' : 'Sell'} ${asset?.displayName ?? coin}`}
+          </button>
+        </div>
+      </div>
+      
+      {orderError != null && (
+        <p className="text-sm text-red-600">{orderError}</p>
+      )}
+      
+      {order != null && orderError == null && accountState != null && (
+        <OrderPreview order={order} accountState={accountState} registry={registry} />
+      )}
+      
+      {!canSign && signingDisabledReason != null && (
+        <p className={theme.text.body.small}>{signingDisabledReason}</p>
+      )}
+      
+      {result != null && (
+        <Message variant={result.variant}>{result.text}</Message>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,172 @@
+"use client"
+
+import { useMemo, useState } from 'react'
+import { useNetwork } from '@/context/NetworkContext'
+import { PositionProvider } from '@/context/PositionContext'
+import {
+  MAX_STREAMED_USERS,
+  pollUserState,
+  subscribeToUserState,
+  subscribeToMidPrices,
+  USER_STATE_POLL_INTERVAL
+} from '@/services/hyperliquidService'
+import AccountSummary, { AccountBreakdownEntry } from '@/components/AccountSummary'
+import PositionsTable from '@/components/PositionsTable'
+import SpotBalancesTable from '@/components/SpotBalancesTable'
+import { useAsyncEffect } from '@/hooks/useAsyncEffect'
+import { useAssetRegistry } from '@/hooks/useAssetRegistry'
+import type { AccountState } from '../types/hyperliquidTypes'
+import { aggregateAccountStates, getSpotPriceCoins, getSpotValue } from '@/utils/portfolio'
+import { Card, Loader, Message } from '@/components/ui'
+
+export interface PortfolioAccount {
+  address: string
+  label: string
+}
+
+interface PortfolioViewProps {
+  accounts: PortfolioAccount[]
+}
+
+// Accounts past this many are polled, leaving room in the server's limit on streamed users for the connected wallet
+const MAX_STREAMED_ACCOUNTS = MAX_STREAMED_USERS - 1
+
+/**
+ * Several accounts at once, combined into a single summary and positions
+ * table. The first MAX_STREAMED_ACCOUNTS are streamed and the rest polled.
+ */
+export default function PortfolioView({ accounts }: PortfolioViewProps) {
+  const { network } = useNetwork()
+  const registry = useAssetRegistry()
+  const [accountStates, setAccountStates] = useState<Record<string, AccountState>>({})
+  const [failedAccounts, setFailedAccounts] = useState<string[]>([])
+  const [midPrices, setMidPrices] = useState<Record<string, string>>({})
+  const [columnOrder, setColumnOrder] = useState<string[]>([])
+  
+  // Re-subscribe only when the set of addresses changes, not on relabelling
+  const addressesKey = accounts.map(({ address }) => address).join(',')
+  
+  useAsyncEffect(
+    async () => {
+      setAccountStates({})
+      setFailedAccounts([])
+      setMidPrices({})
+      if (addressesKey === '') return
+      
+      const addresses = addressesKey.split(',')
+      const results = await Promise.allSettled(addresses.map(async (address, index) => {
+        const onAccountState = (accountState?: AccountState) => {
+          if (accountState == null) return
+          setAccountStates(prev => ({ ...prev, [address]: accountState }))
+        }
+        return index < MAX_STREAMED_ACCOUNTS
+          ? await subscribeToUserState(address, onAccountState)
+          : await pollUserState(address, onAccountState)
+      }))
+      
+      const failed: string[] = []
+      const cleanupFunctions: Array<() => void> = []
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          cleanupFunctions.push(result.value)
+        } else {
+          console.error('Error subscribing to account:', addresses[index], result.reason)
+          failed.push(addresses[index])
+        }
+      })
+      setFailedAccounts(failed)
+      
+      return () => {
+        cleanupFunctions.forEach(cleanup => cleanup())
+      }
+    },
+    [addressesKey, network],
+    'portfolio-user-states'
+  )
+  
+  // Coins held by any account, in positions or spot balances, for mid prices
+  const pricedCoins = Array.from(new Set(
+    Object.values(accountStates).flatMap(accountState => [
+      ...accountState.assetPositions.map(({ position }) => position.coin),
+      ...(accountState.spotBalances != null && registry != null ? getSpotPriceCoins(accountState.spotBalances, registry) : [])
+    ])
+  )).sort().join(',')
+  
+  useAsyncEffect(
+    async () => {
+      if (pricedCoins === '') return
+      return subscribeToMidPrices(prices => setMidPrices({ ...prices }), pricedCoins.split(','))
+    },
+    [pricedCoins, network],
+    'portfolio-mid-prices'
+  )
+  
+  const breakdown = useMemo<AccountBreakdownEntry[]>(() => {
+    return accounts
+      .filter(({ address }) => accountStates[address] != null)
+      .map(({ address, label }) => ({ address, label, accountState: accountStates[address] }))
+  }, [accounts, accountStates])
+  
+  const portfolioState = useMemo(() => aggregateAccountStates(breakdown), [breakdown])
+  
+  const accountLabels = useMemo(() => {
+    return Object.fromEntries(accounts.map(({ address, label }) => [address, label]))
+  }, [accounts])
+  
+  const pendingCount = accounts.length - breakdown.length - failedAccounts.length
+  
+  return (
+    <PositionProvider>
+      <div className="space-y-6">
+        <Card>
+          <Card.Header>Portfolio Overview</Card.Header>
+          
+          {failedAccounts.length > 0 && (
+            <Message variant="error">
+              Failed to load {failedAccounts.map(address => accountLabels[address] ?? address).join(', ')}.
+              The totals below leave them out.
+            </Message>
+          )}
+          
+          {accounts.length > MAX_STREAMED_ACCOUNTS && (
+            <Message variant="info">
+              Only the first {MAX_STREAMED_ACCOUNTS} accounts update live; the rest refresh every {USER_STATE_POLL_INTERVAL / 1000} seconds.
+            </Message>
+          )}
+          
+          {pendingCount > 0 && (
+            <Loader label={`Loading ${pendingCount} of ${accounts.length} accounts...`} />
+          )}
+          
+          {breakdown.length > 0 && (
+            <AccountSummary
+              accountState={portfolioState}
+              breakdown={breakdown}
+              spotValue={portfolioState.spotBalances != null && registry != null ? getSpotValue(portfolioState.spotBalances, registry, midPrices) : undefined}
+            />
+          )}
+        </Card>
+        
+        {breakdown.length > 0 && (
+          <Card>
+            <Card.Header>Positions</Card.Header>
+            <PositionsTable
+              positions={portfolioState.assetPositions}
+              accountLabels={accountLabels}
+              midPrices={midPrices}
+              columnOrder={columnOrder}
+              onColumnOrderChange={setColumnOrder}
+            />
+          </Card>
+        )}
+        
+        {portfolioState.spotBalances != null && (
+          <Card>
+            <Card.Header>Spot Balances</Card.Header>
+            <SpotBalancesTable balances={portfolioState.spotBalances} midPrices={midPrices} />
+          </Card>
+        )}
+      </div>
+    </PositionProvider>
+  )
+}
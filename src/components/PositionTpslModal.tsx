@@ -0,0 +1,315 @@
+"use client"
+
+import { useState } from 'react'
+import type { CancelWire, FrontendOpenOrder, ModifyWire, OrderWire, Position } from '../types/hyperliquidTypes'
+import { Message } from '@/components/ui'
+import { Modal } from '@/components/ui/Modal'
+import { useAccountView } from '@/context/AccountViewContext'
+import { useAssetRegistry } from '@/hooks/useAssetRegistry'
+import {
+  cancelOrders,
+  createTriggerOrderWire,
+  describeOrderStatus,
+  getTpslOrders,
+  getTpslTriggerPrice,
+  modifyOrders,
+  placeOrders,
+  TpslKind
+} from '@/services/hyperliquidOrders'
+import { theme, cx } from '@/styles/theme'
+import { abs, compare, mul, sub } from '@/utils/decimal'
+import { formatFiat } from '@/utils/formatters'
+
+type TriggerTarget = 'price' | 'percent' | 'pnl'
+
+// The form for one of the take profit or stop loss
+interface TpslDraft {
+  isEnabled: boolean
+  target: TriggerTarget
+  value: string
+  isMarket: boolean
+  limitPrice: string
+}
+
+const TPSL_KINDS: Array<{ kind: TpslKind, label: string }> = [
+  { kind: 'tp', label: 'Take Profit' },
+  { kind: 'sl', label: 'Stop Loss' }
+]
+
+const TARGET_LABELS: Record<TriggerTarget, string> = {
+  price: 'Trigger price',
+  percent: '% from entry',
+  pnl: 'PnL (USD)'
+}
+
+const inputClassName = 'w-full text-sm border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-blue-500'
+
+const createDraft = (order: FrontendOpenOrder | undefined): TpslDraft => ({
+  isEnabled: order != null,
+  target: 'price',
+  value: order?.triggerPx ?? '',
+  isMarket: order?.orderType.endsWith('Market') ?? true,
+  limitPrice: order?.orderType.endsWith('Market') === false ? order.limitPx : ''
+})
+
+interface PositionTpslModalProps {
+  position: Position
+  openOrders: FrontendOpenOrder[]
+  midPrice?: string
+  onClose: () => void
+}
+
+/**
+ * Attach, edit or cancel a position's take profit and stop loss. New and
+ * changed orders are sent as one batchModify or one positionTpsl order
+ * action, and a cancel follows only when an order is removed or replaced.
+ */
+export default function PositionTpslModal({ position, openOrders, midPrice, onClose }: PositionTpslModalProps) {
+  const registry = useAssetRegistry()
+  const { signer, signingVaultAddress } = useAccountView()
+  const { coin, szi, entryPx } = position
+  const existing = getTpslOrders(openOrders, coin, szi)
+  
+  const [drafts, setDrafts] = useState<Record<TpslKind, TpslDraft>>(() => ({
+    tp: createDraft(existing.tp[0]),
+    sl: createDraft(existing.sl[0])
+  }))
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string>()
+  
+  const isLong = compare(szi, 0) > 0
+  const updateDraft = (kind: TpslKind, changes: Partial<TpslDraft>) => {
+    setDrafts(prev => ({ ...prev, [kind]: { ...prev[kind], ...changes } }))
+  }
+  
+  /**
+   * The trigger price a draft resolves to, and why it can't be used if it can't
+   */
+  const resolveDraft = (kind: TpslKind, draft: TpslDraft): { triggerPrice?: string, error?: string } => {
+    if (registry == null) return {}
+    
+    let triggerPrice: string
+    try {
+      if (compare(draft.value, 0) <= 0) return { error: 'Enter a value greater than zero' }
+      triggerPrice = registry.roundPrice(coin, getTpslTriggerPrice(kind, draft.target, draft.value, entryPx, szi))
+      if (!draft.isMarket && compare(draft.limitPrice === '' ? triggerPrice : draft.limitPrice, 0) <= 0) {
+        return { error: 'Enter a valid limit price' }
+      }
+    } catch {
+      return { error: 'Enter a valid number' }
+    }
+    if (compare(triggerPrice, 0) <= 0) return { error: 'Trigger price would be below zero' }
+    
+    // A trigger already past the mid would fire at once
+    if (midPrice != null) {
+      const isAbove = compare(triggerPrice, midPrice) > 0
+      const mustBeAbove = (kind === 'tp') === isLong
+      if (isAbove !== mustBeAbove) {
+        return { triggerPrice, error: `Trigger must be ${mustBeAbove ? 'above' : 'below'} the mid price` }
+      }
+    }
+    return { triggerPrice }
+  }
+  
+  const handleSave = async () => {
+    if (registry == null || signer == null) return
+    
+    // New and changed orders, and orders to cancel
+    const changes: Array<{ label: string, wire: OrderWire, current?: FrontendOpenOrder }> = []
+    const cancels: CancelWire[] = []
+    const assetId = registry.get(coin)?.assetId
+    if (assetId == null) return
+    
+    for (const { kind, label } of TPSL_KINDS) {
+      const draft = drafts[kind]
+      const current = existing[kind][0]
+      
+      if (!draft.isEnabled) {
+        if (current != null) cancels.push({ a: assetId, o: current.oid })
+        continue
+      }
+      
+      const { triggerPrice } = resolveDraft(kind, draft)
+      if (triggerPrice == null) return
+      
+      const wire = createTriggerOrderWire(registry, {
+        coin,
+        isBuy: !isLong,
+        size: abs(szi),
+        tpsl: kind,
+        triggerPrice,
+        isMarket: draft.isMarket,
+        limitPrice: draft.limitPrice !== '' ? draft.limitPrice : undefined
+      })
+      
+      if (
+        current == null ||
+        compare(current.triggerPx, triggerPrice) !== 0 ||
+        current.orderType.endsWith('Market') !== draft.isMarket ||
+        (!draft.isMarket && compare(current.limitPx, wire.p) !== 0)
+      ) {
+        changes.push({ label, wire, current })
+      }
+    }
+    
+    // A batchModify can't place orders, so a mix of new and changed orders is
+    // placed as one order action and the orders it replaces are cancelled after
+    const modifies: ModifyWire[] = changes.flatMap(({ wire, current }) => current != null ? [{ oid: current.oid, order: wire }] : [])
+    const isModify = modifies.length === changes.length
+    
+    setError(undefined)
+    setIsSubmitting(true)
+    const saved: string[] = []
+    const errors: string[] = []
+    try {
+      if (changes.length > 0) {
+        const statuses = isModify
+          ? await modifyOrders(signer, modifies, signingVaultAddress)
+          : await placeOrders(signer, changes.map(({ wire }) => wire), signingVaultAddress, 'positionTpsl')
+        changes.forEach(({ label, current }, index) => {
+          const status = statuses[index]
+          if (status != null && typeof status === 'object' && 'error' in status) {
+            errors.push(`${label}: ${describeOrderStatus(status)}`)
+            return
+          }
+          saved.push(label)
+          // Only cancel a replaced order once its replacement is in
+          if (!isModify && current != null) cancels.push({ a: assetId, o: current.oid })
+        })
+      }
+      
+      if (cancels.length > 0) {
+        const statuses = await cancelOrders(signer, cancels, signingVaultAddress)
+        errors.push(...statuses.flatMap(status => typeof status === 'object' ? [`Cancel: ${status.error}`] : []))
+      }
+    } catch (error) {
+      console.error('Error saving TP/SL:', error)
+      errors.push(error instanceof Error ? error.message : 'Failed to save TP/SL')
+    } finally {
+      setIsSubmitting(false)
+    }
+    
+    if (errors.length === 0) {
+      onClose()
+    } else {
+      // Say what went through, so a failed cancel doesn't read as nothing saved
+      const savedNote = saved.length > 0 ? `${saved.join(' and ')} saved. ` : changes.length > 0 ? 'Nothing was saved. ' : ''
+      setError(savedNote + errors.join('; '))
+    }
+  }
+  
+  const displayName = registry?.getDisplayName(coin) ?? coin
+  const resolved = {
+    tp: drafts.tp.isEnabled ? resolveDraft('tp', drafts.tp) : {},
+    sl: drafts.sl.isEnabled ? resolveDraft('sl', drafts.sl) : {}
+  }
+  const hasErrors = resolved.tp.error != null || resolved.sl.error != null
+  
+  return (
+    <Modal isOpen onClose={onClose} title={`TP/SL for ${displayName} ${isLong ? 'Long' : 'Short'}`} size="lg">
+      <div className="space-y-4">
+        <p className={theme.text.body.small}>
+          Entry {formatFiat(entryPx, true, registry?.getPriceDecimals(coin, entryPx), true)}
+          {midPrice != null && <> · Mid {formatFiat(midPrice, true, registry?.getPriceDecimals(coin, midPrice), true)}</>}
+          {' '}· Orders close the whole position when triggered
+        </p>
+        
+        {TPSL_KINDS.map(({ kind, label }) => {
+          const draft = drafts[kind]
+          const { triggerPrice, error: draftError } = resolved[kind]
+          return (
+            <div key={kind} className="rounded-md border border-gray-200 p-4 space-y-3">
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={draft.isEnabled}
+                  onChange={e => updateDraft(kind, { isEnabled: e.target.checked })}
+                  className="h-4 w-4 mr-2 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                />
+                <span className="text-sm font-medium text-gray-900">{label}</span>
+                {existing[kind].length > 0 && !draft.isEnabled && (
+                  <span className="ml-2 text-xs text-red-600">Will be cancelled</span>
+                )}
+              </label>
+              
+              {draft.isEnabled && (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <select
+                      value={draft.target}
+                      onChange={e => updateDraft(kind, { target: e.target.value as TriggerTarget, value: '' })}
+                      className={cx(inputClassName, 'bg-white')}
+                      aria-label={`${label} target`}
+                    >
+                      {Object.entries(TARGET_LABELS).map(([target, targetLabel]) => (
+                        <option key={target} value={target}>{targetLabel}</option>
+                      ))}
+                    </select>
+                    <input
+                      value={draft.value}
+                      onChange={e => updateDraft(kind, { value: e.target.value })}
+                      inputMode="decimal"
+                      placeholder="0.0"
+                      aria-label={`${label} ${TARGET_LABELS[draft.target]}`}
+                      className={inputClassName}
+                    />
+                    <select
+                      value={draft.isMarket ? 'market' : 'limit'}
+                      onChange={e => updateDraft(kind, { isMarket: e.target.value === 'market' })}
+                      className={cx(inputClassName, 'bg-white')}
+                      aria-label={`${label} execution`}
+                    >
+                      <option value="market">Market</option>
+                      <option value="limit">Limit</option>
+                    </select>
+                  </div>
+                  
+                  {!draft.isMarket && (
+                    <input
+                      value={draft.limitPrice}
+                      onChange={e => updateDraft(kind, { limitPrice: e.target.value })}
+                      inputMode="decimal"
+                      placeholder={`Limit price (default: trigger price${triggerPrice != null ? ` ${triggerPrice}` : ''})`}
+                      aria-label={`${label} limit price`}
+                      className={inputClassName}
+                    />
+                  )}
+                  
+                  {triggerPrice != null && (
+                    <p className={theme.text.body.small}>
+                      Triggers at {formatFiat(triggerPrice, true, registry?.getPriceDecimals(coin, triggerPrice), true)},
+                      est. PnL {formatFiat(mul(sub(triggerPrice, entryPx), szi), true, undefined, false, true)}
+                    </p>
+                  )}
+                  {draftError != null && draft.value !== '' && (
+                    <p className="text-sm text-red-600">{draftError}</p>
+                  )}
+                </>
+              )}
+            </div>
+          )
+        })}
+        
+        {error != null && <Message variant="error">{error}</Message>}
+        
+        <div className="flex justify-end space-x-2 pt-4 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            disabled={signer == null || hasErrors || isSubmitting}
+            onClick={() => { handleSave().catch(() => {}) }}
+            className={cx(theme.buttons.base, theme.buttons.primary)}
+          >
+            {isSubmitting ? 'Signing...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
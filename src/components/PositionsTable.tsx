@@ -1,114 +1,46 @@
 "use client"
 
-import React, { ReactNode, useState, useCallback, useEffect } from 'react'
-import { AssetPosition, FetchedClearinghouseState } from '../types/hyperliquidTypes'
-import { Table, Panel } from '@/components/ui'
+import React, { useState, useCallback, useEffect } from 'react'
+import { AccountAssetPosition, AssetPosition, FrontendOpenOrder, Position } from '../types/hyperliquidTypes'
+import { Table, Panel, SortableColumnHeader } from '@/components/ui'
 import { Modal } from '@/components/ui/Modal'
 import { formatNumber, formatFiat, formatPercent } from '@/utils/formatters'
+import { netPositions } from '@/utils/portfolio'
 import { useWallet } from '@/context/WalletContext'
 import { usePosition } from '@/context/PositionContext'
-import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, useSensors, DragEndEvent } from '@dnd-kit/core'
-import { arrayMove, SortableContext, sortableKeyboardCoordinates, useSortable, horizontalListSortingStrategy } from '@dnd-kit/sortable'
-import { CSS } from '@dnd-kit/utilities'
-
-type SortDirection = 'asc' | 'desc' | null
+import { useAccountView } from '@/context/AccountViewContext'
+import { useAssetRegistry } from '@/hooks/useAssetRegistry'
+import { SortableColumn, useSortableColumns } from '@/hooks/useSortableColumns'
+import { getTpslOrders } from '@/services/hyperliquidOrders'
+import PositionTpslModal from '@/components/PositionTpslModal'
+import ClosePositionsModal from '@/components/ClosePositionsModal'
+import { DndContext, closestCenter } from '@dnd-kit/core'
+import { SortableContext, horizontalListSortingStrategy } from '@dnd-kit/sortable'
 
 // Define the column configuration interface
-interface ColumnConfig {
-  id: string
-  label: string
-  getValue: (position: AssetPosition) => string | number
-  renderCell: (position: AssetPosition) => ReactNode
-}
+type ColumnConfig = SortableColumn<AssetPosition>
 
 interface PositionsTableProps {
-  positions: FetchedClearinghouseState['assetPositions']
+  positions: AssetPosition[] | AccountAssetPosition[]
+  accountLabels?: Record<string, string> // Labels by address; adds an account column and netting across accounts
   midPrices: Record<string, string>
+  openOrders?: FrontendOpenOrder[] // Resting orders; adds a TP/SL column, editable when the account can sign
   columnOrder?: string[] // Array of column IDs in their current order
   onColumnOrderChange?: (columnOrder: string[]) => void // Callback to update column order in parent
   visibleColumns?: string[] // Array of visible column IDs
   onVisibleColumnsChange?: (visibleColumns: string[]) => void // Callback to update visible columns in parent
 }
 
-// Sortable column header component
-function SortableColumnHeader({ id, label, sortActive, sortDirection, onClick, className }: {
-  id: string
-  label: string
-  sortActive?: boolean
-  sortDirection?: 'asc' | 'desc' | null
-  onClick?: () => void
-  className?: string
-}) {
-  const {
-    attributes,
-    listeners,
-    setNodeRef,
-    transform,
-    transition,
-    isDragging,
-  } = useSortable({ id })
-  
-  const style = {
-    transform: CSS.Transform.toString(transform),
-    transition,
-    cursor: 'grab',
-    opacity: isDragging ? 0.5 : 1,
-    touchAction: 'none',
-  }
-  
-  return (
-    <Table.HeaderCell
-      ref={setNodeRef}
-      style={style}
-      className={className}
-      {...attributes}
-      {...listeners}
-      sortActive={sortActive}
-      sortDirection={sortDirection}
-      onClick={onClick}
-    >
-      {label}
-    </Table.HeaderCell>
-  )
-}
-
-// Helper function to get mid price by trying different key formats
-function getMidPriceForCoin(coin: string, midPrices: Record<string, string>): string | undefined {
-  // Try direct coin name match
-  if (midPrices[coin]) {
-    return midPrices[coin]
-  }
-  
-  // Try with @ prefix (commonly used in API)
-  if (midPrices[`@${coin}`]) {
-    return midPrices[`@${coin}`]
-  }
-  
-  // Try lowercase
-  if (midPrices[coin.toLowerCase()]) {
-    return midPrices[coin.toLowerCase()]
-  }
-  
-  // Try with index format for common coins (based on Hyperliquid API)
-  const commonCoinIndices: Record<string, string> = {
-    'BTC': '@1',
-    'ETH': '@10',
-    'SOL': '@5',
-    'AVAX': '@8',
-    'ARB': '@9',
-    'OP': '@11'
-  }
-  
-  if (commonCoinIndices[coin] && midPrices[commonCoinIndices[coin]]) {
-    return midPrices[commonCoinIndices[coin]]
-  }
-  
-  return undefined
+// Accounts a position belongs to, when the table combines several
+function getPositionAccounts(position: AssetPosition): string[] {
+  return 'accounts' in position ? (position as AccountAssetPosition).accounts : []
 }
 
 export default function PositionsTable({ 
   positions, 
+  accountLabels,
   midPrices, 
+  openOrders,
   columnOrder = [], 
   onColumnOrderChange,
   visibleColumns = [],
@@ -118,6 +50,17 @@ export default function PositionsTable({
   const { hideInfo } = useWallet()
   // Access the position context for chart integration
   const { selectedPosition, setSelectedPosition } = usePosition()
+  // Sizes and prices are rounded to each asset's own precision
+  const registry = useAssetRegistry()
+  // TP/SL orders can only be edited on an account the wallet signs for
+  const { canSign } = useAccountView()
+  
+  // Position whose TP/SL is being edited
+  const [tpslPosition, setTpslPosition] = useState<AssetPosition | null>(null)
+  // Positions being closed, from a row or close all
+  const [closeRequest, setCloseRequest] = useState<{ positions: Position[], isMarket: boolean } | null>(null)
+  // Positions can only be closed from a single account the wallet signs for
+  const canClose = canSign && accountLabels == null
   
   // State for column visibility modal
   const [isColumnModalOpen, setIsColumnModalOpen] = useState(false)
@@ -126,28 +69,41 @@ export default function PositionsTable({
     visibleColumns.length > 0 ? visibleColumns : []
   )
   
-  // Get ordered columns based on columnOrder prop
-  const [orderedColumns, setOrderedColumns] = useState<ColumnConfig[]>([])
+  // Whether positions in the same coin are combined across accounts
+  const [isNetted, setIsNetted] = useState(false)
   
   // Define column configuration as a single source of truth - now using useMemo to recreate when midPrices changes
   const columns = React.useMemo<ColumnConfig[]>(() => [
     {
       id: 'coin',
       label: 'COIN',
-      getValue: (position) => position.position.coin,
-      renderCell: (position) => <>{position.position.coin}</>
+      getValue: (position) => registry?.getDisplayName(position.position.coin) ?? position.position.coin,
+      renderCell: (position) => <>{registry?.getDisplayName(position.position.coin) ?? position.position.coin}</>
     },
+    ...(accountLabels != null ? [{
+      id: 'account',
+      label: 'ACCOUNT',
+      getValue: (position: AssetPosition) => getPositionAccounts(position).map(address => accountLabels[address] ?? address).join(', '),
+      renderCell: (position: AssetPosition) => (
+        <>
+          {getPositionAccounts(position)
+            .map(address => accountLabels[address] ?? (hideInfo ? '0x' + '•'.repeat(8) : `${address.slice(0, 6)}...${address.slice(-4)}`))
+            .join(', ')}
+        </>
+      )
+    }] : []),
     {
       id: 'leverage',
       label: 'LEV',
-      getValue: (position) => position.position.leverage?.value ?? 1,
-      renderCell: (position) => <>{position.position.leverage?.value ?? 1}x</>
+      getValue: (position) => position.position.leverage?.value ?? 0,
+      // Netted positions span accounts with different leverage
+      renderCell: (position) => <>{position.position.leverage != null ? `${position.position.leverage.value ?? 1}x` : '-'}</>
     },
     {
       id: 'size',
       label: 'SIZE',
       getValue: (position) => parseFloat(position.position.szi),
-      renderCell: (position) => <>{formatNumber(position.position.szi, 4, 0, undefined, true)}</>
+      renderCell: (position) => <>{formatNumber(position.position.szi, registry?.get(position.position.coin)?.szDecimals ?? 4, 0, undefined, true)}</>
     },
     {
       id: 'value',
@@ -159,19 +115,21 @@ export default function PositionsTable({
       id: 'entryPrice',
       label: 'ENTRY',
       getValue: (position) => parseFloat(position.position.entryPx),
-      renderCell: (position) => <>{formatFiat(position.position.entryPx, true, undefined, true)}</>
+      renderCell: (position) => {
+        const { coin, entryPx } = position.position
+        return <>{formatFiat(entryPx, true, registry?.getPriceDecimals(coin, entryPx), true)}</>
+      }
     },
     {
       id: 'midPrice',
       label: 'MID',
       getValue: (position) => {
-        const coin = position.position.coin
-        const price = getMidPriceForCoin(coin, midPrices)
+        const price = registry?.getMidPrice(position.position.coin, midPrices)
         return price != null ? parseFloat(price) : 0
       },
       renderCell: (position) => {
         const coin = position.position.coin
-        const price = getMidPriceForCoin(coin, midPrices)
+        const price = registry?.getMidPrice(coin, midPrices)
         if (price == null) return <>-</>
         
         // Calculate percentage difference from entry price
@@ -183,7 +141,7 @@ export default function PositionsTable({
         
         return (
           <div className="flex flex-col">
-            <div>{formatFiat(price, true, undefined, true)}</div>
+            <div>{formatFiat(price, true, registry?.getPriceDecimals(coin, price), true)}</div>
             <div className={`text-xs ${isPositive ? 'text-green-600' : isNegative ? 'text-red-600' : 'text-gray-500'}`}>
               {priceDelta > 0 ? '+' : ''}{formatPercent(priceDelta)}
             </div>
@@ -245,6 +203,46 @@ export default function PositionsTable({
       getValue: (position) => parseFloat(position.position.liquidationPx ?? '0'),
       renderCell: (position) => <>{formatFiat(position.position.liquidationPx ?? '0', true, undefined, false, true, hideInfo)}</>
     },
+    ...(openOrders != null ? [{
+      id: 'tpsl',
+      label: 'TP/SL',
+      getValue: (position: AssetPosition) => {
+        const { tp, sl } = getTpslOrders(openOrders, position.position.coin, position.position.szi)
+        return tp.length + sl.length
+      },
+      renderCell: (position: AssetPosition) => {
+        const { coin, szi } = position.position
+        const { tp, sl } = getTpslOrders(openOrders, coin, szi)
+        const formatTrigger = (order: FrontendOpenOrder) =>
+          formatFiat(order.triggerPx, true, registry?.getPriceDecimals(coin, order.triggerPx), true)
+        
+        return (
+          <div className="flex items-center gap-2">
+            <div className="flex flex-col text-xs">
+              {tp.length === 0 && sl.length === 0 && <span>-</span>}
+              {tp.map(order => (
+                <span key={order.oid} className="text-green-600">TP {formatTrigger(order)}</span>
+              ))}
+              {sl.map(order => (
+                <span key={order.oid} className="text-red-600">SL {formatTrigger(order)}</span>
+              ))}
+            </div>
+            {canSign && (
+              <button
+                type="button"
+                onClick={e => {
+                  e.stopPropagation() // Don't select the row for the chart
+                  setTpslPosition(position)
+                }}
+                className="px-2 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                {tp.length === 0 && sl.length === 0 ? 'Add' : 'Edit'}
+              </button>
+            )}
+          </div>
+        )
+      }
+    }] : []),
     {
       id: 'funding',
       label: 'FUNDING',
@@ -283,7 +281,19 @@ export default function PositionsTable({
         )
       }
     }
-  ], [hideInfo, midPrices]) // Recreate columns when midPrices changes
+  ], [accountLabels, canSign, hideInfo, midPrices, openOrders, registry]) // Recreate columns when midPrices changes
+  
+  // Column order, sorting and drag-to-reorder, shared with the open orders table
+  const {
+    orderedColumns,
+    sortColumnId,
+    sortDirection,
+    handleSort,
+    sensors,
+    handleDragStart,
+    handleDragEnd,
+    sortRows
+  } = useSortableColumns(columns, columnOrder, onColumnOrderChange)
   
   // Handle row click to select a position for the chart
   const handleRowClick = useCallback((position: AssetPosition) => {
@@ -352,28 +362,6 @@ export default function PositionsTable({
     setIsColumnModalOpen(false)
   }, [localVisibleColumns, onVisibleColumnsChange])
   
-  // Get a map of column configs by ID for easy lookup
-  const columnsById = React.useMemo(() => {
-    return columns.reduce((acc, column) => {
-      acc[column.id] = column
-      return acc
-    }, {} as Record<string, ColumnConfig>)
-  }, [columns])
-  
-  // Initialize ordered columns
-  useEffect(() => {
-    if (columnOrder.length > 0) {
-      // Use the provided column order
-      const newOrderedColumns = columnOrder
-        .map(id => columnsById[id])
-        .filter(Boolean) // Filter out any undefined columns
-      setOrderedColumns(newOrderedColumns)
-    } else {
-      // Default to the original order
-      setOrderedColumns(columns)
-    }
-  }, [columns, columnOrder, columnsById])
-  
   // Filter columns based on visibility, but always include the coin column
   const visibleOrderedColumns = React.useMemo(() => {
     return orderedColumns.filter(column => 
@@ -381,122 +369,11 @@ export default function PositionsTable({
     )
   }, [orderedColumns, localVisibleColumns])
   
-  // Add any missing columns that might not be in the saved order
-  useEffect(() => {
-    if (orderedColumns.length > 0) {
-      const missingColumns = columns.filter(col => 
-        !orderedColumns.some(orderedCol => orderedCol.id === col.id)
-      )
-      
-      if (missingColumns.length > 0) {
-        setOrderedColumns(prev => [...prev, ...missingColumns])
-      }
-    }
-  }, [columns, orderedColumns])
-  const [sortColumnId, setSortColumnId] = useState<string | null>(null)
-  const [sortDirection, setSortDirection] = useState<SortDirection>(null)
+  // Positions as shown, netted across accounts if asked
+  const displayedPositions: AssetPosition[] = accountLabels != null && isNetted
+    ? netPositions(positions as AccountAssetPosition[])
+    : positions
   
-  // Set up DnD sensors
-  const sensors = useSensors(
-    useSensor(PointerSensor, {
-      activationConstraint: {
-        distance: 8, // Minimum drag distance before activation
-      },
-    }),
-    useSensor(KeyboardSensor, {
-      coordinateGetter: sortableKeyboardCoordinates,
-    })
-  )
-
-  // Handle sorting when a column header is clicked
-  const handleSort = (columnId: string) => {
-    if (sortColumnId === columnId) {
-      // Toggle direction if same column is clicked
-      setSortDirection(sortDirection === 'asc' ? 'desc' : sortDirection === 'desc' ? null : 'asc')
-      if (sortDirection === 'desc') {
-        setSortColumnId(null)
-      }
-    } else {
-      // Set new column and direction
-      setSortColumnId(columnId)
-      setSortDirection('asc')
-    }
-  }
-  
-  // Simple drag start handler
-  const handleDragStart = useCallback(() => {
-    console.log({
-      event: 'column_drag_started',
-      timestamp: new Date().toISOString()
-    })
-  }, [])
-  
-  // Handle drag end event for column reordering
-  const handleDragEnd = useCallback((event: DragEndEvent) => {
-    console.log({
-      event: 'column_drag_ended',
-      timestamp: new Date().toISOString()
-    })
-    
-    const { active, over } = event
-    
-    if (over != null && active.id !== over.id) {
-      // Find the indexes in the current order
-      const oldIndex = orderedColumns.findIndex((item) => item.id === active.id)
-      const newIndex = orderedColumns.findIndex((item) => item.id === over.id)
-      
-      if (oldIndex !== -1 && newIndex !== -1) {
-        // Create the new ordered column list
-        const newOrderedColumns = arrayMove([...orderedColumns], oldIndex, newIndex)
-        
-        // Extract just the IDs for parent storage
-        const newColumnOrder = newOrderedColumns.map(col => col.id)
-        
-        // Log the column order change
-        console.log({
-          event: 'column_order_changed',
-          timestamp: new Date().toISOString(),
-          from_index: oldIndex,
-          to_index: newIndex,
-          column_id: active.id
-        })
-        
-        // Notify parent component if callback provided
-        if (onColumnOrderChange != null) {
-          onColumnOrderChange(newColumnOrder)
-        }
-      }
-    }
-  }, [orderedColumns, onColumnOrderChange])
-
-  // Sort the positions based on current sort settings
-  const getSortedPositions = () => {
-    if (positions == null || sortColumnId == null || sortDirection == null) {
-      return positions != null ? positions : []
-    }
-    
-    const column = orderedColumns.find(col => col.id === sortColumnId)
-    if (column == null) return positions
-    
-    return [...positions].sort((a, b) => {
-      // Special case for string comparisons like coin names
-      const aValue = column.getValue(a)
-      const bValue = column.getValue(b)
-      
-      if (typeof aValue === 'string' && typeof bValue === 'string') {
-        return sortDirection === 'asc' 
-          ? aValue.localeCompare(bValue)
-          : bValue.localeCompare(aValue)
-      }
-      
-      // For numeric values
-      const aNum = Number(aValue)
-      const bNum = Number(bValue)
-      
-      return sortDirection === 'asc' ? aNum - bNum : bNum - aNum
-    })
-  }
-
   if (positions.length === 0) {
     return (
       <div className="mt-6">
@@ -579,6 +456,48 @@ export default function PositionsTable({
     <div>
       {renderColumnVisibilityModal()}
       
+      {tpslPosition != null && openOrders != null && (
+        <PositionTpslModal
+          position={tpslPosition.position}
+          openOrders={openOrders}
+          midPrice={registry?.getMidPrice(tpslPosition.position.coin, midPrices)}
+          onClose={() => setTpslPosition(null)}
+        />
+      )}
+      
+      {closeRequest != null && (
+        <ClosePositionsModal
+          positions={closeRequest.positions}
+          midPrices={midPrices}
+          initialIsMarket={closeRequest.isMarket}
+          onClose={() => setCloseRequest(null)}
+        />
+      )}
+      
+      {canClose && (
+        <div className="flex justify-end mb-3">
+          <button
+            type="button"
+            onClick={() => setCloseRequest({ positions: positions.map(({ position }) => position), isMarket: true })}
+            className="px-3 py-1 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50"
+          >
+            Close All
+          </button>
+        </div>
+      )}
+      
+      {accountLabels != null && (
+        <label className="flex items-center mb-3 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={isNetted}
+            onChange={e => setIsNetted(e.target.checked)}
+            className="h-4 w-4 mr-2 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+          />
+          Net positions in the same coin across accounts
+        </label>
+      )}
+      
       <DndContext
         sensors={sensors}
         collisionDetection={closestCenter}
@@ -616,13 +535,13 @@ export default function PositionsTable({
             </tr>
           </Table.Header>
           <Table.Body>
-            {getSortedPositions().map((position: AssetPosition, index: number) => {
+            {sortRows(displayedPositions).map((position: AssetPosition, index: number) => {
               // Check if this position is the selected one
               const isSelected = selectedPosition != null && selectedPosition.position.coin === position.position.coin
               
               return (
                 <Table.Row 
-                  key={position.position.coin} 
+                  key={`${getPositionAccounts(position).join(',')}:${position.position.coin}`} 
                   isEven={index % 2 === 0}
                   onClick={() => handleRowClick(position)}
                   className={isSelected ? 'bg-blue-50 dark:bg-blue-900/20 transition-colors' : 'transition-colors'}
@@ -639,8 +558,27 @@ export default function PositionsTable({
                       )}
                     </React.Fragment>
                   ))}
-                  {/* Empty cell to match the column settings button */}
-                  <td></td>
+                  {/* Close actions sit under the column settings button */}
+                  <td className="px-2 py-2">
+                    {canClose && (
+                      <div className="flex gap-1">
+                        {[true, false].map(isMarket => (
+                          <button
+                            key={isMarket ? 'market' : 'limit'}
+                            type="button"
+                            onClick={e => {
+                              e.stopPropagation() // Don't select the row for the chart
+                              setCloseRequest({ positions: [position.position], isMarket })
+                            }}
+                            title={isMarket ? 'Close at market' : 'Close with a limit order at the mid'}
+                            className="px-2 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                          >
+                            {isMarket ? 'Market' : 'Limit'}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </td>
                 </Table.Row>
               )
             })}
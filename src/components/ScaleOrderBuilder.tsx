@@ -0,0 +1,349 @@
+"use client"
+
+import { useState } from 'react'
+import { useAccountView } from '@/context/AccountViewContext'
+import { useNetwork } from '@/context/NetworkContext'
+import { useWallet } from '@/context/WalletContext'
+import { useAsyncEffect } from '@/hooks/useAsyncEffect'
+import { useAssetRegistry } from '@/hooks/useAssetRegistry'
+import { subscribeToMidPrices } from '@/services/hyperliquidService'
+import { createOrderWire, describeOrderStatus, getOrderError, placeOrders } from '@/services/hyperliquidOrders'
+import type { AccountState } from '../types/hyperliquidTypes'
+import { Loader, Message, Table } from '@/components/ui'
+import { theme, cx } from '@/styles/theme'
+import { div, mul } from '@/utils/decimal'
+import { formatFiat, formatNumber } from '@/utils/formatters'
+import { MAX_SCALE_ORDERS, ScaleDistribution, ScaleOrderPlan, getScaleOrderPlan } from '@/utils/scaleOrders'
+import { getOrderLeverage } from '@/utils/tradeImpact'
+
+const DISTRIBUTIONS: Array<{ distribution: ScaleDistribution, label: string, factorLabel?: string }> = [
+  { distribution: 'linear', label: 'Linear', factorLabel: 'Last order ÷ first order' },
+  { distribution: 'geometric', label: 'Geometric', factorLabel: 'Each order ÷ the one before' },
+  { distribution: 'custom', label: 'Custom' }
+]
+
+const inputClassName = 'w-full text-sm border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-blue-500'
+
+const toggleClassName = (isActive: boolean, activeClassName: string) =>
+  cx('flex-1 px-3 py-2 text-sm font-medium rounded-md border', isActive ? activeClassName : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50')
+
+interface ScaleOrderBuilderProps {
+  accountState?: AccountState // For the leverage margin is estimated at
+}
+
+/**
+ * Build a ladder of limit orders between two prices from a total size, preview
+ * every leg and send them all as one order action
+ */
+export default function ScaleOrderBuilder({ accountState }: ScaleOrderBuilderProps) {
+  const { network } = useNetwork()
+  const { hideInfo } = useWallet()
+  const registry = useAssetRegistry()
+  const { canSign, signingDisabledReason, signingVaultAddress, signer } = useAccountView()
+  
+  const [coin, setCoin] = useState('BTC')
+  const [isBuy, setIsBuy] = useState(true)
+  const [startPrice, setStartPrice] = useState('')
+  const [endPrice, setEndPrice] = useState('')
+  const [totalSize, setTotalSize] = useState('')
+  const [count, setCount] = useState('5')
+  const [distribution, setDistribution] = useState<ScaleDistribution>('linear')
+  const [factor, setFactor] = useState('1')
+  const [customWeights, setCustomWeights] = useState('')
+  const [reduceOnly, setReduceOnly] = useState(false)
+  const [postOnly, setPostOnly] = useState(false)
+  const [midPrice, setMidPrice] = useState<string>()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [result, setResult] = useState<{ variant: 'success' | 'error', text: string }>()
+  
+  useAsyncEffect(
+    async () => {
+      setMidPrice(undefined)
+      return await subscribeToMidPrices(prices => {
+        if (prices[coin] != null) setMidPrice(prices[coin])
+      }, [coin])
+    },
+    [coin, network],
+    'scale-order-mid-price'
+  )
+  
+  if (registry == null) return <Loader label="Loading markets..." />
+  
+  const asset = registry.get(coin)
+  const displayName = asset?.displayName ?? coin
+  const isComplete = startPrice.trim() !== '' && endPrice.trim() !== '' && totalSize.trim() !== ''
+  
+  let plan: ScaleOrderPlan | undefined
+  let planError: string | undefined
+  if (isComplete) {
+    try {
+      plan = getScaleOrderPlan(registry, {
+        coin,
+        isBuy,
+        startPrice: startPrice.trim(),
+        endPrice: endPrice.trim(),
+        totalSize: totalSize.trim(),
+        count: Number(count),
+        distribution,
+        factor: factor.trim(),
+        customWeights: customWeights.split(',').map(weight => weight.trim()).filter(weight => weight !== ''),
+        reduceOnly,
+        tif: postOnly ? 'Alo' : 'Gtc'
+      })
+      
+      // Every leg has to pass the exchange's checks, including the minimum order value
+      for (const [index, order] of plan.orders.entries()) {
+        const orderError = getOrderError(registry, order)
+        if (orderError != null) {
+          planError = `Order ${index + 1}: ${orderError}`
+          break
+        }
+      }
+    } catch (error) {
+      // Parse failures read 'Invalid decimal: ...'; the plan's own checks explain themselves
+      planError = error instanceof Error && !error.message.startsWith('Invalid decimal') ? error.message : 'Enter a valid number'
+    }
+  }
+  
+  const leverage = getOrderLeverage(accountState, registry, coin)
+  const marginRequired = plan != null && !reduceOnly ? div(plan.notional, leverage, 2) : '0'
+  const formatPrice = (price: string) => formatFiat(price, true, registry.getPriceDecimals(coin, price), true)
+  const formatSize = (size: string) => formatNumber(size, asset?.szDecimals ?? 4, 0, undefined, true)
+  
+  const handleSubmit = async () => {
+    if (plan == null || planError != null || signer == null) return
+    
+    setResult(undefined)
+    setIsSubmitting(true)
+    try {
+      const statuses = await placeOrders(signer, plan.orders.map(order => createOrderWire(registry, order)), signingVaultAddress)
+      const errors = statuses.flatMap((status, index) => typeof status === 'object' && 'error' in status
+        ? [`Order ${index + 1}: ${describeOrderStatus(status)}`]
+        : [])
+      
+      if (errors.length > 0) {
+        setResult({ variant: 'error', text: `${statuses.length - errors.length} of ${statuses.length} orders placed. ${errors.join('; ')}` })
+      } else {
+        setResult({ variant: 'success', text: `Placed ${statuses.length} orders` })
+        setTotalSize('')
+      }
+    } catch (error) {
+      console.error('Error placing scale order:', error)
+      setResult({ variant: 'error', text: error instanceof Error ? error.message : 'Failed to place scale order' })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+  
+  const factorLabel = DISTRIBUTIONS.find(option => option.distribution === distribution)?.factorLabel
+  
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="block">
+          <span className={theme.text.body.small}>Market</span>
+          <select
+            value={coin}
+            onChange={e => {
+              setCoin(e.target.value)
+              setStartPrice('')
+              setEndPrice('')
+              setResult(undefined)
+            }}
+            className={cx(inputClassName, 'mt-1 bg-white')}
+          >
+            {registry.getPerps().filter(({ isDelisted }) => !isDelisted).map(({ coin, displayName }) => (
+              <option key={coin} value={coin}>{displayName}</option>
+            ))}
+          </select>
+        </label>
+        
+        <div>
+          <span className={theme.text.body.small}>Side</span>
+          <div className="flex gap-2 mt-1">
+            <button type="button" onClick={() => setIsBuy(true)} className={toggleClassName(isBuy, 'bg-green-600 text-white border-green-600')}>
+              Buy / Long
+            </button>
+            <button type="button" onClick={() => setIsBuy(false)} className={toggleClassName(!isBuy, 'bg-red-600 text-white border-red-600')}>
+              Sell / Short
+            </button>
+          </div>
+        </div>
+        
+        <div>
+          <span className={theme.text.body.small}>Size distribution</span>
+          <div className="flex gap-2 mt-1">
+            {DISTRIBUTIONS.map(option => (
+              <button
+                key={option.distribution}
+                type="button"
+                onClick={() => setDistribution(option.distribution)}
+                className={toggleClassName(distribution === option.distribution, 'bg-blue-600 text-white border-blue-600')}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <label className="block">
+          <span className={theme.text.body.small}>Start price</span>
+          <input
+            value={startPrice}
+            onChange={e => setStartPrice(e.target.value)}
+            inputMode="decimal"
+            placeholder="0.0"
+            className={cx(inputClassName, 'mt-1')}
+          />
+          <span className="text-xs text-gray-500">
+            {midPrice != null ? `Mid ${formatPrice(midPrice)}` : 'Waiting for the mid price...'}
+          </span>
+        </label>
+        
+        <label className="block">
+          <span className={theme.text.body.small}>End price</span>
+          <input
+            value={endPrice}
+            onChange={e => setEndPrice(e.target.value)}
+            inputMode="decimal"
+            placeholder="0.0"
+            className={cx(inputClassName, 'mt-1')}
+          />
+        </label>
+        
+        <label className="block">
+          <span className={theme.text.body.small}>Total size ({displayName})</span>
+          <input
+            value={totalSize}
+            onChange={e => setTotalSize(e.target.value)}
+            inputMode="decimal"
+            placeholder="0.0"
+            className={cx(inputClassName, 'mt-1')}
+          />
+        </label>
+        
+        <label className="block">
+          <span className={theme.text.body.small}>Number of orders</span>
+          <input
+            type="number"
+            min={2}
+            max={MAX_SCALE_ORDERS}
+            value={count}
+            onChange={e => setCount(e.target.value)}
+            className={cx(inputClassName, 'mt-1')}
+          />
+        </label>
+      </div>
+      
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {factorLabel != null ? (
+          <label className="block">
+            <span className={theme.text.body.small}>{factorLabel}</span>
+            <input
+              value={factor}
+              onChange={e => setFactor(e.target.value)}
+              inputMode="decimal"
+              placeholder="1"
+              className={cx(inputClassName, 'mt-1')}
+            />
+            <span className="text-xs text-gray-500">1 splits the size evenly</span>
+          </label>
+        ) : (
+          <label className="block md:col-span-2">
+            <span className={theme.text.body.small}>Weights, from the start price</span>
+            <input
+              value={customWeights}
+              onChange={e => setCustomWeights(e.target.value)}
+              placeholder="e.g. 1, 2, 3, 2, 1"
+              className={cx(inputClassName, 'mt-1')}
+            />
+          </label>
+        )}
+        
+        <div className="flex flex-col gap-2 mt-6">
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={reduceOnly}
+              onChange={e => setReduceOnly(e.target.checked)}
+              className="h-4 w-4 mr-2 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-700">Reduce only</span>
+          </label>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={postOnly}
+              onChange={e => setPostOnly(e.target.checked)}
+              className="h-4 w-4 mr-2 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-700">Post only</span>
+          </label>
+        </div>
+      </div>
+      
+      {planError != null && (
+        <p className="text-sm text-red-600">{planError}</p>
+      )}
+      
+      {plan != null && (
+        <div className="rounded-md border border-gray-200 bg-gray-50 p-4 space-y-3">
+          <dl className="grid grid-cols-1 md:grid-cols-4 gap-x-8 gap-y-1">
+            {[
+              { label: 'Total size', value: `${formatSize(plan.totalSize)} ${displayName}` },
+              { label: 'Avg entry', value: formatPrice(plan.averagePrice) },
+              { label: 'Notional', value: formatFiat(plan.notional, true, undefined, false, true) },
+              { label: `Margin at ${leverage}x`, value: formatFiat(marginRequired, true, undefined, false, true, hideInfo) }
+            ].map(({ label, value }) => (
+              <div key={label} className="flex justify-between gap-4 text-sm">
+                <dt className="text-gray-500">{label}</dt>
+                <dd className="text-right text-gray-900">{value}</dd>
+              </div>
+            ))}
+          </dl>
+          
+          <Table>
+            <Table.Header>
+              <tr>
+                <Table.HeaderCell>#</Table.HeaderCell>
+                <Table.HeaderCell>PRICE</Table.HeaderCell>
+                <Table.HeaderCell>SIZE</Table.HeaderCell>
+                <Table.HeaderCell>VALUE</Table.HeaderCell>
+              </tr>
+            </Table.Header>
+            <Table.Body>
+              {plan.orders.map((order, index) => (
+                <Table.Row key={index} isEven={index % 2 === 0}>
+                  <Table.Cell>{index + 1}</Table.Cell>
+                  <Table.Cell secondary>{formatPrice(order.price)}</Table.Cell>
+                  <Table.Cell secondary>{formatSize(order.size)}</Table.Cell>
+                  <Table.Cell secondary>{formatFiat(mul(order.price, order.size), true, undefined, false, true)}</Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table>
+        </div>
+      )}
+      
+      <button
+        type="button"
+        disabled={!canSign || plan == null || planError != null || isSubmitting}
+        onClick={handleSubmit}
+        title={signingDisabledReason ?? undefined}
+        className={cx(theme.buttons.base, isBuy ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700', 'px-4 py-2 text-white font-medium disabled:opacity-50 disabled:cursor-not-allowed')}
+      >
+        {isSubmitting ? 'Signing...' : `${isBuy ? 'Buy' : 'Sell'} ${displayName} in ${plan?.orders.length ?? count} orders`}
+      </button>
+      
+      {!canSign && signingDisabledReason != null && (
+        <p className={theme.text.body.small}>{signingDisabledReason}</p>
+      )}
+      
+      {result != null && (
+        <Message variant={result.variant}>{result.text}</Message>
+      )}
+    </div>
+  )
+}
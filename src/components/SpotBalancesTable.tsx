@@ -0,0 +1,70 @@
+"use client"
+
+import type { SpotBalance } from '../types/hyperliquidTypes'
+import { Message, Table } from '@/components/ui'
+import { useWallet } from '@/context/WalletContext'
+import { useAssetRegistry } from '@/hooks/useAssetRegistry'
+import { compare, isZero } from '@/utils/decimal'
+import { formatFiat, formatNumber } from '@/utils/formatters'
+import { getSpotBalanceValue } from '@/utils/portfolio'
+
+interface SpotBalancesTableProps {
+  balances: SpotBalance[]
+  midPrices: Record<string, string> // Must include each token's USDC pair
+}
+
+/**
+ * Spot token balances valued at the mid price of each token's USDC pair
+ */
+export default function SpotBalancesTable({ balances, midPrices }: SpotBalancesTableProps) {
+  const { hideInfo } = useWallet()
+  const registry = useAssetRegistry()
+  
+  const rows = balances
+    .filter(balance => !isZero(balance.total))
+    .map(balance => ({
+      balance,
+      value: registry != null ? getSpotBalanceValue(balance, registry, midPrices) : undefined
+    }))
+    .sort((a, b) => compare(b.value ?? 0, a.value ?? 0))
+  
+  if (rows.length === 0) {
+    return <Message variant="info">No spot balances.</Message>
+  }
+  
+  return (
+    <Table>
+      <Table.Header>
+        <tr>
+          <Table.HeaderCell>TOKEN</Table.HeaderCell>
+          <Table.HeaderCell>TOTAL</Table.HeaderCell>
+          <Table.HeaderCell>HOLD</Table.HeaderCell>
+          <Table.HeaderCell>ENTRY NOTIONAL</Table.HeaderCell>
+          <Table.HeaderCell>VALUE</Table.HeaderCell>
+        </tr>
+      </Table.Header>
+      <Table.Body>
+        {rows.map(({ balance, value }, index) => {
+          const szDecimals = registry?.getToken(balance.coin)?.szDecimals
+          return (
+            <Table.Row key={balance.coin} isEven={index % 2 === 0}>
+              <Table.Cell>{balance.coin}</Table.Cell>
+              <Table.Cell secondary>
+                {hideInfo ? '••••••' : formatNumber(balance.total, szDecimals ?? 4, 0, undefined, true)}
+              </Table.Cell>
+              <Table.Cell secondary>
+                {hideInfo ? '••••••' : formatNumber(balance.hold, szDecimals ?? 4, 0, undefined, true)}
+              </Table.Cell>
+              <Table.Cell secondary>
+                {formatFiat(balance.entryNtl, true, undefined, false, true, hideInfo)}
+              </Table.Cell>
+              <Table.Cell secondary>
+                {value != null ? formatFiat(value, true, undefined, false, true, hideInfo) : '-'}
+              </Table.Cell>
+            </Table.Row>
+          )
+        })}
+      </Table.Body>
+    </Table>
+  )
+}
@@ -0,0 +1,98 @@
+"use client"
+
+import { useState } from 'react'
+import { useNetwork } from '@/context/NetworkContext'
+import { useWallet } from '@/context/WalletContext'
+import { useAsyncEffect } from '@/hooks/useAsyncEffect'
+import { fetchVaultSummary } from '@/services/hyperliquidService'
+import type { VaultSummary } from '../types/hyperliquidTypes'
+import { Loader, Message, Panel } from '@/components/ui'
+import { formatFiat, formatPercent } from '@/utils/formatters'
+
+interface VaultDetailsProps {
+  vaultAddress: string
+  user: string // Whose stake to show
+}
+
+/**
+ * A vault's leader, TVL and APR, and the user's stake in it
+ */
+export default function VaultDetails({ vaultAddress, user }: VaultDetailsProps) {
+  const { network } = useNetwork()
+  const { hideInfo } = useWallet()
+  const [summary, setSummary] = useState<VaultSummary>()
+  const [error, setError] = useState<string>()
+  
+  useAsyncEffect(
+    async () => {
+      setSummary(undefined)
+      setError(undefined)
+      try {
+        setSummary(await fetchVaultSummary(vaultAddress, user))
+      } catch (error) {
+        console.error('Error fetching vault details:', error)
+        setError('Failed to load vault details.')
+      }
+    },
+    [vaultAddress, user, network],
+    'vault-details'
+  )
+  
+  if (error != null) return <Message variant="error">{error}</Message>
+  if (summary == null) return <Loader label="Loading vault details..." />
+  
+  return (
+    <div>
+      <div className="flex items-center mb-3">
+        <h3 className="text-lg font-semibold text-gray-900 mr-3">{summary.name}</h3>
+        {summary.isClosed && (
+          <span className="px-2 py-0.5 rounded-full text-xs font-semibold uppercase tracking-wider bg-gray-200 text-gray-700">
+            Closed
+          </span>
+        )}
+      </div>
+      
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Panel variant="blue">
+          <Panel.Label>TVL</Panel.Label>
+          <Panel.Value>{formatFiat(summary.tvl)}</Panel.Value>
+        </Panel>
+        
+        <Panel variant="green">
+          <Panel.Label>APR</Panel.Label>
+          <Panel.Value>{formatPercent(summary.apr * 100)}</Panel.Value>
+        </Panel>
+        
+        <Panel variant="gray">
+          <Panel.Label>Leader</Panel.Label>
+          <Panel.Value>
+            <span className="font-mono text-base">
+              {summary.leader.slice(0, 6)}...{summary.leader.slice(-4)}
+            </span>
+          </Panel.Value>
+        </Panel>
+        
+        <Panel variant="purple">
+          <Panel.Label>Your Equity</Panel.Label>
+          <Panel.Value>
+            {formatFiat(summary.userEquity, true, undefined, false, true, hideInfo)}
+          </Panel.Value>
+        </Panel>
+        
+        <Panel variant="yellow">
+          <Panel.Label>Your Share</Panel.Label>
+          <Panel.Value>{formatPercent(summary.userShare * 100)}</Panel.Value>
+        </Panel>
+        
+        <Panel variant="orange">
+          <Panel.Label>Withdrawable From</Panel.Label>
+          <Panel.Value>
+            {summary.lockedUntil != null && summary.lockedUntil > Date.now()
+              ? new Date(summary.lockedUntil).toLocaleString()
+              : 'Now'}
+          </Panel.Value>
+        </Panel>
+      </div>
+    </div>
+  )
+}
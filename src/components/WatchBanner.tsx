@@ -0,0 +1,76 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import {
+  AddressBookEntry,
+  findAddressBookEntry,
+  saveAddress,
+  subscribeToAddressBook
+} from '@/services/addressBook'
+import { Message } from '@/components/ui'
+
+interface WatchBannerProps {
+  address: string
+}
+
+/**
+ * Makes watch mode obvious and lets the watched address be saved with a label
+ */
+export default function WatchBanner({ address }: WatchBannerProps) {
+  const [entry, setEntry] = useState<AddressBookEntry>()
+  const [label, setLabel] = useState('')
+  
+  useEffect(() => {
+    const update = () => {
+      const found = findAddressBookEntry(address)
+      setEntry(found)
+      setLabel(found?.label ?? '')
+    }
+    update()
+    return subscribeToAddressBook(update)
+  }, [address])
+  
+  return (
+    <Message variant="info">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div className="min-w-0">
+          <span className="px-2 py-0.5 mr-3 rounded-full text-xs font-semibold uppercase tracking-wider bg-blue-100 text-blue-800">
+            Read-only
+          </span>
+          <span className="font-medium mr-2">{entry?.label ?? 'Watching'}</span>
+          <span className="font-mono text-sm break-all">{address}</span>
+          <p className="text-xs mt-1">
+            Nothing can be signed in watch mode, so trading actions are disabled.
+          </p>
+        </div>
+        
+        <form
+          className="flex items-center gap-2 shrink-0"
+          onSubmit={e => {
+            e.preventDefault()
+            saveAddress(address, label === '' ? address : label)
+          }}
+        >
+          <input
+            type="text"
+            value={label}
+            onChange={e => setLabel(e.target.value)}
+            placeholder="Label"
+            aria-label="Label"
+            className="text-sm text-gray-900 border border-gray-300 rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            {entry == null ? 'Save' : 'Rename'}
+          </button>
+          <Link href="/" className="text-sm underline whitespace-nowrap">
+            Stop watching
+          </Link>
+        </form>
+      </div>
+    </Message>
+  )
+}
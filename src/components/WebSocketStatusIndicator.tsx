@@ -1,11 +1,16 @@
 "use client"
 
 import { useEffect, useState } from 'react'
-import { WebSocketStatus, onWebSocketStatusChange, initializeWebSocket, onWebSocketMessage } from '@/services/hyperliquidService'
+import { WebSocketStatus, onWebSocketStatusChange, initializeWebSocket, onWebSocketMessage, getRateLimitUsage } from '@/services/hyperliquidService'
+import type { RateLimitUsage } from '@/services/hyperliquidRateLimiter'
+
+// How often to sample rate limit usage; the window decays without any events
+const USAGE_POLL_INTERVAL = 1000 // ms
 
 export default function WebSocketStatusIndicator() {
   const [status, setStatus] = useState<WebSocketStatus>('disconnected')
   const [isPulsing, setIsPulsing] = useState(false)
+  const [usage, setUsage] = useState<RateLimitUsage>(getRateLimitUsage)
   
   useEffect(() => {
     // Initialize WebSocket connection when component mounts
@@ -49,6 +54,36 @@ export default function WebSocketStatusIndicator() {
     }
   }, [status])  // Re-subscribe when status changes
   
+  // Sample rate limit budget usage
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setUsage(getRateLimitUsage())
+    }, USAGE_POLL_INTERVAL)
+    
+    return () => {
+      clearInterval(interval)
+    }
+  }, [])
+  
+  // Use the more constrained of the two budgets for the summary figure
+  const usagePercent = Math.max(
+    usage.restWeightUsed / usage.restWeightLimit,
+    usage.wsMessagesUsed / usage.wsMessagesLimit
+  ) * 100
+  
+  const getUsageColor = () => {
+    if (usage.backoffUntil != null || usagePercent >= 90) return 'text-red-600'
+    if (usagePercent >= 70) return 'text-yellow-600'
+    return 'text-gray-500'
+  }
+  
+  const usageTitle = [
+    `REST weight: ${usage.restWeightUsed}/${usage.restWeightLimit} per minute`,
+    `WebSocket messages: ${usage.wsMessagesUsed}/${usage.wsMessagesLimit} per minute`,
+    `Queued: ${usage.queuedRequests}`,
+    usage.backoffUntil != null ? `Backing off for ${Math.ceil((usage.backoffUntil - Date.now()) / 1000)}s after a 429` : null
+  ].filter(line => line != null).join('\n')
+  
   // Determine indicator color based on status and pulsing state
   const getIndicatorColor = () => {
     // Only use lighter green when connected and pulsing
@@ -94,6 +129,10 @@ export default function WebSocketStatusIndicator() {
         ></div>
       </div>
       <span className="text-xs text-gray-600">{getStatusText()}</span>
+      <span className={`ml-2 text-xs ${getUsageColor()}`} title={usageTitle}>
+        API {usagePercent.toFixed(0)}%
+        {usage.queuedRequests > 0 && ` (${usage.queuedRequests} queued)`}
+      </span>
     </div>
   )
 }
@@ -0,0 +1,50 @@
+"use client"
+
+import { useSortable } from '@dnd-kit/sortable'
+import { CSS } from '@dnd-kit/utilities'
+import { Table } from './Table'
+
+/**
+ * Table header cell that sorts on click and can be dragged to reorder columns.
+ * Must be rendered inside a dnd-kit SortableContext.
+ */
+export function SortableColumnHeader({ id, label, sortActive, sortDirection, onClick, className }: {
+  id: string
+  label: string
+  sortActive?: boolean
+  sortDirection?: 'asc' | 'desc' | null
+  onClick?: () => void
+  className?: string
+}) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id })
+  
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    cursor: 'grab',
+    opacity: isDragging ? 0.5 : 1,
+    touchAction: 'none',
+  }
+  
+  return (
+    <Table.HeaderCell
+      ref={setNodeRef}
+      style={style}
+      className={className}
+      {...attributes}
+      {...listeners}
+      sortActive={sortActive}
+      sortDirection={sortDirection}
+      onClick={onClick}
+    >
+      {label}
+    </Table.HeaderCell>
+  )
+}
@@ -3,3 +3,4 @@ export * from './Panel'
 export * from './Table'
 export * from './Loader'
 export * from './Message'
+export * from './SortableColumnHeader'
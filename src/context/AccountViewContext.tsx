@@ -0,0 +1,121 @@
+"use client"
+
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react'
+import { useWallet } from '@/context/WalletContext'
+import { useNetwork } from '@/context/NetworkContext'
+import { useAsyncEffect } from '@/hooks/useAsyncEffect'
+import { getUnlockedAgent, subscribeToAgentWallets } from '@/services/agentWallet'
+import { fetchLinkedAccounts, LinkedAccounts } from '@/services/hyperliquidService'
+import type { ExchangeSigner } from '@/services/hyperliquidSigning'
+
+// Which of the master's accounts the dashboard shows
+export type ActiveAccount =
+  | { kind: 'master' }
+  | { kind: 'subAccount', address: string, name: string }
+  | { kind: 'vault', address: string, name: string, leader?: string }
+
+const noLinkedAccounts: LinkedAccounts = { subAccounts: [], vaults: [] }
+
+interface AccountViewContextType {
+  address: string | null // Account the dashboard shows
+  masterAddress: string | null // The connected wallet or watched address
+  isWatching: boolean // Showing an address read-only instead of the connected wallet
+  activeAccount: ActiveAccount
+  setActiveAccount: (account: ActiveAccount) => void
+  linkedAccounts: LinkedAccounts // The master's sub-accounts and vaults
+  canSign: boolean
+  signingDisabledReason: string | null // Why signing actions are disabled, for tooltips
+  signingVaultAddress?: string // Sub-account or led vault the wallet signs for, sent as the action's vaultAddress
+  signer: ExchangeSigner | null // The unlocked agent key that signs trading actions; null whenever canSign is false
+}
+
+const AccountViewContext = createContext<AccountViewContextType>({
+  address: null,
+  masterAddress: null,
+  isWatching: false,
+  activeAccount: { kind: 'master' },
+  setActiveAccount: () => {},
+  linkedAccounts: noLinkedAccounts,
+  canSign: false,
+  signingDisabledReason: 'Connect a wallet to trade',
+  signer: null
+})
+
+/**
+ * The account being viewed and whether actions on it can be signed.
+ * Anything that needs a signature must check `canSign`.
+ */
+export const useAccountView = () => useContext(AccountViewContext)
+
+interface AccountViewProviderProps {
+  children: ReactNode
+  watchAddress?: string // View this address read-only instead of the connected wallet
+}
+
+export const AccountViewProvider = ({ children, watchAddress }: AccountViewProviderProps) => {
+  const { account } = useWallet()
+  const { network } = useNetwork()
+  const [activeAccount, setActiveAccount] = useState<ActiveAccount>({ kind: 'master' })
+  const [linkedAccounts, setLinkedAccounts] = useState<LinkedAccounts>(noLinkedAccounts)
+  const [agent, setAgent] = useState<ExchangeSigner>()
+  
+  const isWatching = watchAddress != null
+  const masterAddress = watchAddress ?? account
+  
+  // Sub-accounts and vaults belong to one master on one network
+  useAsyncEffect(
+    async () => {
+      setActiveAccount({ kind: 'master' })
+      setLinkedAccounts(noLinkedAccounts)
+      if (masterAddress == null) return
+      
+      try {
+        setLinkedAccounts(await fetchLinkedAccounts(masterAddress))
+      } catch (error) {
+        console.error('Error fetching sub-accounts and vaults:', error)
+      }
+    },
+    [masterAddress, network],
+    'linked-accounts'
+  )
+  
+  let accountDisabledReason: string | null = null
+  if (isWatching) {
+    accountDisabledReason = 'Read-only: watching an address'
+  } else if (account == null) {
+    accountDisabledReason = 'Connect a wallet to trade'
+  } else if (activeAccount.kind === 'vault' && activeAccount.leader?.toLowerCase() !== account.toLowerCase()) {
+    accountDisabledReason = 'Only the vault leader can trade a vault'
+  }
+  
+  // Trading actions are signed for chain 1337, which wallets refuse, so only an
+  // unlocked agent can sign them. Agents are stored per network, so look again when it changes.
+  useEffect(() => {
+    const updateAgent = () => setAgent(accountDisabledReason == null && account != null ? getUnlockedAgent(account) : undefined)
+    updateAgent()
+    return subscribeToAgentWallets(updateAgent)
+  }, [accountDisabledReason, account, network])
+  
+  const signingDisabledReason = accountDisabledReason ?? (agent == null ? 'Unlock an agent wallet to trade' : null)
+  const canSign = signingDisabledReason == null
+  const signer = canSign ? agent ?? null : null
+  
+  return (
+    <AccountViewContext.Provider
+      value={{
+        address: activeAccount.kind === 'master' ? masterAddress : activeAccount.address,
+        masterAddress,
+        isWatching,
+        activeAccount,
+        setActiveAccount,
+        linkedAccounts,
+        canSign,
+        signingDisabledReason,
+        signingVaultAddress: activeAccount.kind === 'master' ? undefined : activeAccount.address,
+        signer
+      }}
+    >
+      {children}
+    </AccountViewContext.Provider>
+  )
+}
@@ -5,11 +5,12 @@ import {
   hyperliquidSocketService,
   ConnectionStatus
 } from '@/services/hyperliquidSocketService'
+import { useAssetRegistry } from '@/hooks/useAssetRegistry'
 
 // Define types for the context data
 interface CryptoContextData {
   // Hyperliquid data
-  hyperliquidPrices: Record<string, string>
+  hyperliquidPrices: Record<string, string> // Keyed by display name: perps by name, spot pairs as BASE/QUOTE
   hyperliquidConnectionStatus: ConnectionStatus
   hyperliquidLastPong: number | null
   hyperliquidLastPriceUpdate: number | null
@@ -39,6 +40,7 @@ export function CryptoProvider({ children }: { children: React.ReactNode }) {
   const [hyperliquidConnectionStatus, setHyperliquidConnectionStatus] = useState<ConnectionStatus>('disconnected')
   const [hyperliquidLastPong, setHyperliquidLastPong] = useState<number | null>(null)
   const [hyperliquidLastPriceUpdate, setHyperliquidLastPriceUpdate] = useState<number | null>(null)
+  const registry = useAssetRegistry()
   
   // Subscribe to Hyperliquid data on mount
   useEffect(() => {
@@ -47,17 +49,14 @@ export function CryptoProvider({ children }: { children: React.ReactNode }) {
     
     console.log('Initializing crypto context subscriptions')
     
-    // Subscribe to mid prices
+    // Subscribe to mid prices, renaming spot pairs from @index to BASE/QUOTE
     const unsubPrices = hyperliquidSocketService.subscribeToMidPrices((prices) => {
-      // Filter out symbols that start with "@"
-      const filteredPrices: Record<string, string> = {}
-      Object.entries(prices).forEach(([symbol, price]) => {
-        if (!symbol.startsWith('@')) {
-          filteredPrices[symbol] = price
-        }
+      const namedPrices: Record<string, string> = {}
+      Object.entries(prices).forEach(([coin, price]) => {
+        namedPrices[registry?.getDisplayName(coin) ?? coin] = price
       })
       
-      setHyperliquidPrices(filteredPrices)
+      setHyperliquidPrices(namedPrices)
       setHyperliquidLastPriceUpdate(Date.now()) // Track when prices were last updated
     })
     
@@ -78,7 +77,7 @@ export function CryptoProvider({ children }: { children: React.ReactNode }) {
       unsubStatus()
       unsubPong()
     }
-  }, [])
+  }, [registry])
   
   // Combine all data into context value
   const contextValue: CryptoContextData = {
@@ -0,0 +1,54 @@
+"use client"
+
+import { createContext, useContext, useState, useEffect, ReactNode } from 'react'
+import {
+  NetworkConfig,
+  NETWORKS,
+  getNetwork,
+  setNetwork as setServiceNetwork,
+  subscribeToNetworkChange
+} from '@/services/hyperliquidNetwork'
+import { startSocketWorker } from '@/services/hyperliquidSocketWorkerClient'
+
+// Move the socket off the main thread before anything subscribes. Living in
+// the network provider means every page gets it and it starts on the saved network.
+startSocketWorker()
+
+interface NetworkContextType {
+  network: NetworkConfig
+  setNetwork: (network: NetworkConfig) => void
+}
+
+const NetworkContext = createContext<NetworkContextType>({
+  network: NETWORKS.mainnet,
+  setNetwork: () => {}
+})
+
+export const useNetwork = () => useContext(NetworkContext)
+
+interface NetworkProviderProps {
+  children: ReactNode
+}
+
+export const NetworkProvider = ({ children }: NetworkProviderProps) => {
+  // Start on mainnet to match the server render, then restore the saved selection
+  const [network, setNetworkState] = useState<NetworkConfig>(NETWORKS.mainnet)
+  
+  useEffect(() => {
+    setNetworkState(getNetwork())
+    
+    // Keep in sync with changes made outside React
+    return subscribeToNetworkChange(setNetworkState)
+  }, [])
+  
+  return (
+    <NetworkContext.Provider
+      value={{
+        network,
+        setNetwork: setServiceNetwork
+      }}
+    >
+      {children}
+    </NetworkContext.Provider>
+  )
+}
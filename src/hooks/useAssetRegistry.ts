@@ -0,0 +1,27 @@
+import { useState } from 'react'
+import { useNetwork } from '@/context/NetworkContext'
+import { useAsyncEffect } from '@/hooks/useAsyncEffect'
+import { AssetRegistry, loadAssetRegistry } from '@/services/hyperliquidAssetRegistry'
+
+/**
+ * The asset registry for the active network, or undefined while it loads
+ */
+export function useAssetRegistry(): AssetRegistry | undefined {
+  const { network } = useNetwork()
+  const [registry, setRegistry] = useState<AssetRegistry>()
+  
+  useAsyncEffect(
+    async () => {
+      setRegistry(undefined)
+      try {
+        setRegistry(await loadAssetRegistry())
+      } catch (error) {
+        console.error('Error loading asset metadata:', error)
+      }
+    },
+    [network],
+    'asset-registry'
+  )
+  
+  return registry
+}
@@ -0,0 +1,176 @@
+import { ReactNode, useCallback, useEffect, useMemo, useState } from 'react'
+import { DragEndEvent, KeyboardSensor, PointerSensor, useSensor, useSensors } from '@dnd-kit/core'
+import { arrayMove, sortableKeyboardCoordinates } from '@dnd-kit/sortable'
+
+export type SortDirection = 'asc' | 'desc' | null
+
+// A table column that can be sorted by its value and dragged into a new place
+export interface SortableColumn<T> {
+  id: string
+  label: string
+  getValue: (row: T) => string | number
+  renderCell: (row: T) => ReactNode
+}
+
+/**
+ * Column order, click-to-sort and drag-to-reorder state for a table. The
+ * order is kept by the parent, which gets the new order on each drag.
+ * @param columnOrder Column IDs in their saved order; empty for the default order
+ */
+export function useSortableColumns<T>(
+  columns: Array<SortableColumn<T>>,
+  columnOrder: string[],
+  onColumnOrderChange?: (columnOrder: string[]) => void
+) {
+  // Get ordered columns based on columnOrder prop
+  const [orderedColumns, setOrderedColumns] = useState<Array<SortableColumn<T>>>([])
+  const [sortColumnId, setSortColumnId] = useState<string | null>(null)
+  const [sortDirection, setSortDirection] = useState<SortDirection>(null)
+  
+  // Get a map of column configs by ID for easy lookup
+  const columnsById = useMemo(() => {
+    return columns.reduce((acc, column) => {
+      acc[column.id] = column
+      return acc
+    }, {} as Record<string, SortableColumn<T>>)
+  }, [columns])
+  
+  // Initialize ordered columns
+  useEffect(() => {
+    if (columnOrder.length > 0) {
+      // Use the provided column order
+      const newOrderedColumns = columnOrder
+        .map(id => columnsById[id])
+        .filter(Boolean) // Filter out any undefined columns
+      setOrderedColumns(newOrderedColumns)
+    } else {
+      // Default to the original order
+      setOrderedColumns(columns)
+    }
+  }, [columns, columnOrder, columnsById])
+  
+  // Add any missing columns that might not be in the saved order
+  useEffect(() => {
+    if (orderedColumns.length > 0) {
+      const missingColumns = columns.filter(col =>
+        !orderedColumns.some(orderedCol => orderedCol.id === col.id)
+      )
+      
+      if (missingColumns.length > 0) {
+        setOrderedColumns(prev => [...prev, ...missingColumns])
+      }
+    }
+  }, [columns, orderedColumns])
+  
+  // Set up DnD sensors
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8, // Minimum drag distance before activation
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  )
+  
+  // Handle sorting when a column header is clicked
+  const handleSort = (columnId: string) => {
+    if (sortColumnId === columnId) {
+      // Toggle direction if same column is clicked
+      setSortDirection(sortDirection === 'asc' ? 'desc' : sortDirection === 'desc' ? null : 'asc')
+      if (sortDirection === 'desc') {
+        setSortColumnId(null)
+      }
+    } else {
+      // Set new column and direction
+      setSortColumnId(columnId)
+      setSortDirection('asc')
+    }
+  }
+  
+  // Simple drag start handler
+  const handleDragStart = useCallback(() => {
+    console.log({
+      event: 'column_drag_started',
+      timestamp: new Date().toISOString()
+    })
+  }, [])
+  
+  // Handle drag end event for column reordering
+  const handleDragEnd = useCallback((event: DragEndEvent) => {
+    console.log({
+      event: 'column_drag_ended',
+      timestamp: new Date().toISOString()
+    })
+    
+    const { active, over } = event
+    
+    if (over != null && active.id !== over.id) {
+      // Find the indexes in the current order
+      const oldIndex = orderedColumns.findIndex((item) => item.id === active.id)
+      const newIndex = orderedColumns.findIndex((item) => item.id === over.id)
+      
+      if (oldIndex !== -1 && newIndex !== -1) {
+        // Create the new ordered column list
+        const newOrderedColumns = arrayMove([...orderedColumns], oldIndex, newIndex)
+        
+        // Extract just the IDs for parent storage
+        const newColumnOrder = newOrderedColumns.map(col => col.id)
+        
+        // Log the column order change
+        console.log({
+          event: 'column_order_changed',
+          timestamp: new Date().toISOString(),
+          from_index: oldIndex,
+          to_index: newIndex,
+          column_id: active.id
+        })
+        
+        // Notify parent component if callback provided
+        if (onColumnOrderChange != null) {
+          onColumnOrderChange(newColumnOrder)
+        }
+      }
+    }
+  }, [orderedColumns, onColumnOrderChange])
+  
+  // Sort rows based on current sort settings
+  const sortRows = (rows: T[]): T[] => {
+    if (sortColumnId == null || sortDirection == null) {
+      return rows
+    }
+    
+    const column = orderedColumns.find(col => col.id === sortColumnId)
+    if (column == null) return rows
+    
+    return [...rows].sort((a, b) => {
+      // Special case for string comparisons like coin names
+      const aValue = column.getValue(a)
+      const bValue = column.getValue(b)
+      
+      if (typeof aValue === 'string' && typeof bValue === 'string') {
+        return sortDirection === 'asc'
+          ? aValue.localeCompare(bValue)
+          : bValue.localeCompare(aValue)
+      }
+      
+      // For numeric values
+      const aNum = Number(aValue)
+      const bNum = Number(bValue)
+      
+      return sortDirection === 'asc' ? aNum - bNum : bNum - aNum
+    })
+  }
+  
+  return {
+    orderedColumns,
+    sortColumnId,
+    sortDirection,
+    handleSort,
+    sensors,
+    handleDragStart,
+    handleDragEnd,
+    sortRows
+  }
+}
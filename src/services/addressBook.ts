@@ -0,0 +1,121 @@
+// Saved addresses for watch mode, persisted in localStorage
+
+import { ethers } from 'ethers'
+
+export interface AddressBookEntry {
+  address: string // Checksummed
+  label: string
+}
+
+// localStorage key for the address book
+const STORAGE_KEY = 'hyperliquid-address-book'
+
+let entries: AddressBookEntry[] = []
+let loadedFromStorage = false
+const listeners = new Set<(entries: AddressBookEntry[]) => void>()
+
+/**
+ * Restore the saved address book once, in the browser only
+ */
+const loadFromStorage = (): void => {
+  if (loadedFromStorage || typeof window === 'undefined') return
+  loadedFromStorage = true
+  
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    if (stored == null) return
+    
+    const parsed: unknown = JSON.parse(stored)
+    if (!Array.isArray(parsed)) return
+    entries = parsed.filter((entry): entry is AddressBookEntry =>
+      typeof entry?.address === 'string' &&
+      typeof entry?.label === 'string' &&
+      ethers.utils.isAddress(entry.address)
+    )
+  } catch (error) {
+    console.error('Error restoring address book:', error)
+  }
+}
+
+const persist = (): void => {
+  if (typeof window !== 'undefined') {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(entries))
+  }
+  listeners.forEach(listener => listener([...entries]))
+}
+
+/**
+ * Get the saved addresses, in the order they were added
+ */
+export const getAddressBook = (): AddressBookEntry[] => {
+  loadFromStorage()
+  return [...entries]
+}
+
+/**
+ * Find the saved entry for an address, ignoring case
+ */
+export const findAddressBookEntry = (address: string): AddressBookEntry | undefined => {
+  loadFromStorage()
+  return entries.find(entry => entry.address.toLowerCase() === address.toLowerCase())
+}
+
+/**
+ * Save an address, or relabel it if it's already saved
+ */
+export const saveAddress = (address: string, label: string): void => {
+  loadFromStorage()
+  const checksummed = ethers.utils.getAddress(address)
+  const trimmed = label.trim()
+  
+  const existing = entries.findIndex(entry => entry.address === checksummed)
+  if (existing >= 0) {
+    entries[existing] = { address: checksummed, label: trimmed }
+  } else {
+    entries.push({ address: checksummed, label: trimmed })
+  }
+  persist()
+}
+
+/**
+ * Remove an address from the book
+ */
+export const removeAddress = (address: string): void => {
+  loadFromStorage()
+  entries = entries.filter(entry => entry.address.toLowerCase() !== address.toLowerCase())
+  persist()
+}
+
+/**
+ * Subscribe to address book changes
+ * @returns An unsubscribe function
+ */
+export const subscribeToAddressBook = (callback: (entries: AddressBookEntry[]) => void): () => void => {
+  listeners.add(callback)
+  return () => {
+    listeners.delete(callback)
+  }
+}
+
+// Ethereum mainnet provider for ENS lookups, created on first use
+let ensProvider: ethers.providers.BaseProvider | undefined
+
+/**
+ * Turn user input into a checksummed address, resolving ENS names on Ethereum mainnet
+ * @param input A 0x address or an ENS name such as vitalik.eth
+ */
+export const resolveAddressInput = async (input: string): Promise<string> => {
+  const trimmed = input.trim()
+  if (ethers.utils.isAddress(trimmed)) return ethers.utils.getAddress(trimmed)
+  
+  if (!trimmed.includes('.')) {
+    throw new Error(`Not an address or ENS name: ${trimmed}`)
+  }
+  
+  ensProvider ??= ethers.getDefaultProvider('homestead')
+  const resolved = await ensProvider.resolveName(trimmed)
+  if (resolved == null) {
+    throw new Error(`ENS name ${trimmed} doesn't resolve to an address`)
+  }
+  return ethers.utils.getAddress(resolved)
+}
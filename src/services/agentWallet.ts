@@ -0,0 +1,242 @@
+// Agent (API) wallets: a local key the master wallet approves once, with a single
+// wallet signature, to sign trading actions on its behalf. Keys are persisted
+// encrypted under a passphrase in localStorage; unlocked keys live in memory only.
+
+import { ethers } from 'ethers'
+import { postExchange } from './hyperliquidExchangeClient'
+import { invalidateInfoCache } from './hyperliquidInfoClient'
+import { getNetwork } from './hyperliquidNetwork'
+import { getHyperliquidChain, getNextNonce, signUserSignedAction } from './hyperliquidSigning'
+
+export interface AgentRecord {
+  baseUrl: string // Network the agent was approved on
+  masterAddress: string // Checksummed
+  agentAddress: string // Checksummed
+  name: string
+  validUntil?: number // Epoch ms; undefined if the agent never expires
+  keystore: string // Encrypted JSON keystore of the agent key
+}
+
+export interface ApproveAgentOptions {
+  name: string
+  passphrase: string
+  validDays?: number // Leave out for an agent that never expires
+}
+
+// The exchange keeps agents for at most this long
+export const MAX_AGENT_VALID_DAYS = 180
+
+// localStorage key for the encrypted agent keys
+const STORAGE_KEY = 'hyperliquid-agent-wallets'
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
+
+const APPROVE_AGENT_TYPE = 'HyperliquidTransaction:ApproveAgent'
+const APPROVE_AGENT_FIELDS = [
+  { name: 'hyperliquidChain', type: 'string' },
+  { name: 'agentAddress', type: 'address' },
+  { name: 'agentName', type: 'string' },
+  { name: 'nonce', type: 'uint64' }
+]
+
+let records: AgentRecord[] = []
+let loadedFromStorage = false
+const unlockedAgents = new Map<string, ethers.Wallet>() // By lowercase agent address
+const listeners = new Set<() => void>()
+
+/**
+ * Restore the saved agent records once, in the browser only
+ */
+const loadFromStorage = (): void => {
+  if (loadedFromStorage || typeof window === 'undefined') return
+  loadedFromStorage = true
+  
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    if (stored == null) return
+    
+    const parsed: unknown = JSON.parse(stored)
+    if (!Array.isArray(parsed)) return
+    records = parsed.filter((record): record is AgentRecord =>
+      typeof record?.baseUrl === 'string' &&
+      typeof record?.name === 'string' &&
+      typeof record?.keystore === 'string' &&
+      (record?.validUntil == null || typeof record.validUntil === 'number') &&
+      ethers.utils.isAddress(record?.masterAddress) &&
+      ethers.utils.isAddress(record?.agentAddress)
+    )
+  } catch (error) {
+    console.error('Error restoring agent wallets:', error)
+  }
+}
+
+const persist = (): void => {
+  if (typeof window !== 'undefined') {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(records))
+  }
+  listeners.forEach(listener => listener())
+}
+
+const isRecordFor = (record: AgentRecord, masterAddress: string): boolean =>
+  record.baseUrl === getNetwork().baseUrl && record.masterAddress.toLowerCase() === masterAddress.toLowerCase()
+
+/**
+ * Approve an agent address for the master wallet, or revoke one by approving the zero address
+ */
+const sendApproveAgent = async (
+  masterSigner: ethers.providers.JsonRpcSigner,
+  agentAddress: string,
+  agentName: string
+): Promise<void> => {
+  const { chainId } = await masterSigner.provider.getNetwork()
+  const nonce = getNextNonce()
+  const action = {
+    type: 'approveAgent',
+    hyperliquidChain: getHyperliquidChain(),
+    signatureChainId: `0x${chainId.toString(16)}`,
+    agentAddress,
+    agentName,
+    nonce
+  }
+  
+  const signature = await signUserSignedAction(masterSigner, action, APPROVE_AGENT_TYPE, APPROVE_AGENT_FIELDS)
+  const response = await postExchange({ action, nonce, signature })
+  if (response.status !== 'ok') {
+    throw new Error(typeof response.response === 'string' ? response.response : 'Agent approval rejected')
+  }
+  invalidateInfoCache('extraAgents')
+}
+
+/**
+ * Whether an agent's approval has lapsed, so the exchange rejects its signatures
+ */
+export const isAgentExpired = (record: AgentRecord): boolean =>
+  record.validUntil != null && record.validUntil <= Date.now()
+
+/**
+ * Get the stored agent for a master address on the current network
+ */
+export const getAgentRecord = (masterAddress: string): AgentRecord | undefined => {
+  loadFromStorage()
+  return records.find(record => isRecordFor(record, masterAddress))
+}
+
+/**
+ * Get the decrypted agent key for a master address, if it's unlocked and not expired
+ */
+export const getUnlockedAgent = (masterAddress: string): ethers.Wallet | undefined => {
+  const record = getAgentRecord(masterAddress)
+  if (record == null || isAgentExpired(record)) return undefined
+  return unlockedAgents.get(record.agentAddress.toLowerCase())
+}
+
+/**
+ * Generate an agent key, approve it with one signature from the master wallet
+ * and store it encrypted. Replaces the stored agent, and on the exchange any
+ * agent approved under the same name, so this also rotates the key.
+ * @returns The new agent, already unlocked
+ */
+export const approveNewAgent = async (
+  masterSigner: ethers.providers.JsonRpcSigner,
+  { name, passphrase, validDays }: ApproveAgentOptions
+): Promise<AgentRecord> => {
+  loadFromStorage()
+  const masterAddress = ethers.utils.getAddress(await masterSigner.getAddress())
+  const trimmedName = name.trim()
+  if (trimmedName === '') throw new Error('Agent name is required')
+  if (passphrase === '') throw new Error('Passphrase is required')
+  if (validDays != null && (validDays <= 0 || validDays > MAX_AGENT_VALID_DAYS)) {
+    throw new Error(`Validity must be between 1 and ${MAX_AGENT_VALID_DAYS} days`)
+  }
+  
+  // Encrypt before approving, so an approved key is never lost to a failed encryption
+  const agent = ethers.Wallet.createRandom()
+  const keystore = await agent.encrypt(passphrase)
+  
+  const validUntil = validDays != null ? Date.now() + validDays * 24 * 60 * 60 * 1000 : undefined
+  const agentName = validUntil != null ? `${trimmedName} valid_until ${validUntil}` : trimmedName
+  await sendApproveAgent(masterSigner, agent.address, agentName)
+  
+  const record: AgentRecord = {
+    baseUrl: getNetwork().baseUrl,
+    masterAddress,
+    agentAddress: agent.address,
+    name: trimmedName,
+    validUntil,
+    keystore
+  }
+  records = [...records.filter(existing => !isRecordFor(existing, masterAddress)), record]
+  unlockedAgents.set(agent.address.toLowerCase(), agent)
+  persist()
+  
+  return record
+}
+
+/**
+ * Decrypt the stored agent key for this session
+ * @throws If there's no stored agent or the passphrase is wrong
+ */
+export const unlockAgent = async (masterAddress: string, passphrase: string): Promise<void> => {
+  const record = getAgentRecord(masterAddress)
+  if (record == null) throw new Error('No agent wallet stored for this account')
+  
+  let agent: ethers.Wallet
+  try {
+    agent = await ethers.Wallet.fromEncryptedJson(record.keystore, passphrase)
+  } catch {
+    throw new Error('Wrong passphrase')
+  }
+  
+  unlockedAgents.set(record.agentAddress.toLowerCase(), agent)
+  listeners.forEach(listener => listener())
+}
+
+/**
+ * Forget the decrypted agent key, which disables trading until it's unlocked again
+ */
+export const lockAgent = (masterAddress: string): void => {
+  const record = getAgentRecord(masterAddress)
+  if (record == null) return
+  
+  unlockedAgents.delete(record.agentAddress.toLowerCase())
+  listeners.forEach(listener => listener())
+}
+
+/**
+ * Revoke the stored agent on the exchange, then delete its key
+ */
+export const revokeAgent = async (masterSigner: ethers.providers.JsonRpcSigner): Promise<void> => {
+  const masterAddress = await masterSigner.getAddress()
+  const record = getAgentRecord(masterAddress)
+  if (record == null) return
+  
+  // Approving the zero address under the agent's name replaces, and so removes, the agent
+  await sendApproveAgent(masterSigner, ZERO_ADDRESS, record.name)
+  
+  unlockedAgents.delete(record.agentAddress.toLowerCase())
+  records = records.filter(existing => existing !== record)
+  persist()
+}
+
+/**
+ * Delete the stored agent key without revoking it, e.g. once it has expired
+ */
+export const forgetAgent = (masterAddress: string): void => {
+  const record = getAgentRecord(masterAddress)
+  if (record == null) return
+  
+  unlockedAgents.delete(record.agentAddress.toLowerCase())
+  records = records.filter(existing => existing !== record)
+  persist()
+}
+
+/**
+ * Subscribe to agents being approved, revoked, unlocked or locked
+ * @returns An unsubscribe function
+ */
+export const subscribeToAgentWallets = (callback: () => void): () => void => {
+  listeners.add(callback)
+  return () => {
+    listeners.delete(callback)
+  }
+}
@@ -0,0 +1,198 @@
+// Asset metadata registry built from meta and spotMeta: the one place that
+// knows how a coin is keyed, named, priced and rounded
+
+import type { FetchedMeta, FetchedSpotMeta, SpotToken } from '../types/hyperliquidTypes'
+import { DecimalValue, div, round, RoundingMode, toNumber } from '../utils/decimal'
+import { fetchMeta, fetchSpotMeta } from './hyperliquidInfoClient'
+import { getNetwork } from './hyperliquidNetwork'
+
+// Prices may have at most this many decimals, less the asset's szDecimals
+const MAX_PERP_DECIMALS = 6
+const MAX_SPOT_DECIMALS = 8
+
+// Prices may have at most this many significant figures, unless they're integers
+const MAX_SIGNIFICANT_FIGURES = 5
+
+// Spot asset ids for the exchange API are offset from the pair index
+const SPOT_ASSET_ID_OFFSET = 10000
+
+export interface AssetInfo {
+  coin: string // Key used by mids, positions, orders and fills: perp name, '@{index}' or 'PURR/USDC'
+  kind: 'perp' | 'spot'
+  assetId: number // Asset id for exchange actions
+  displayName: string // Perp name, or BASE/QUOTE for spot pairs
+  szDecimals: number
+  maxPriceDecimals: number
+  maxLeverage?: number // Perps only
+  onlyIsolated: boolean
+  isDelisted: boolean
+  baseToken?: SpotToken // Spot only
+  quoteToken?: SpotToken // Spot only
+}
+
+/**
+ * Lookups over perp and spot metadata. Build one with `loadAssetRegistry`.
+ */
+export class AssetRegistry {
+  private assets = new Map<string, AssetInfo>()
+  private assetsById = new Map<number, AssetInfo>()
+  private tokens = new Map<string, SpotToken>()
+  private usdPairs = new Map<string, AssetInfo>() // Spot pairs quoted in USDC, by base token name
+  
+  constructor(meta: FetchedMeta, spotMeta: FetchedSpotMeta) {
+    meta.universe.forEach((asset, index) => {
+      this.add({
+        coin: asset.name,
+        kind: 'perp',
+        assetId: index,
+        displayName: asset.name,
+        szDecimals: asset.szDecimals,
+        maxPriceDecimals: Math.max(MAX_PERP_DECIMALS - asset.szDecimals, 0),
+        maxLeverage: asset.maxLeverage,
+        onlyIsolated: asset.onlyIsolated ?? false,
+        isDelisted: asset.isDelisted ?? false
+      })
+    })
+    
+    const tokensByIndex = new Map(spotMeta.tokens.map(token => [token.index, token]))
+    spotMeta.tokens.forEach(token => this.tokens.set(token.name, token))
+    
+    spotMeta.universe.forEach(pair => {
+      const baseToken = tokensByIndex.get(pair.tokens[0])
+      const quoteToken = tokensByIndex.get(pair.tokens[1])
+      if (baseToken == null || quoteToken == null) return
+      
+      const asset: AssetInfo = {
+        coin: pair.name,
+        kind: 'spot',
+        assetId: SPOT_ASSET_ID_OFFSET + pair.index,
+        displayName: `${baseToken.name}/${quoteToken.name}`,
+        szDecimals: baseToken.szDecimals,
+        maxPriceDecimals: Math.max(MAX_SPOT_DECIMALS - baseToken.szDecimals, 0),
+        onlyIsolated: false,
+        isDelisted: false,
+        baseToken,
+        quoteToken
+      }
+      this.add(asset)
+      
+      // Prefer the canonical pair when a token trades against USDC more than once
+      if (quoteToken.name === 'USDC' && (pair.isCanonical || !this.usdPairs.has(baseToken.name))) {
+        this.usdPairs.set(baseToken.name, asset)
+      }
+    })
+  }
+  
+  private add(asset: AssetInfo): void {
+    this.assets.set(asset.coin, asset)
+    this.assetsById.set(asset.assetId, asset)
+  }
+  
+  /**
+   * Look up an asset by the key mids, positions and orders use for it
+   */
+  public get(coin: string): AssetInfo | undefined {
+    return this.assets.get(coin)
+  }
+  
+  public getByAssetId(assetId: number): AssetInfo | undefined {
+    return this.assetsById.get(assetId)
+  }
+  
+  public getPerps(): AssetInfo[] {
+    return Array.from(this.assets.values()).filter(asset => asset.kind === 'perp')
+  }
+  
+  public getToken(name: string): SpotToken | undefined {
+    return this.tokens.get(name)
+  }
+  
+  /**
+   * The spot pair that prices a token in USDC, e.g. HYPE -> '@107'
+   */
+  public getUsdPair(tokenName: string): AssetInfo | undefined {
+    return this.usdPairs.get(tokenName)
+  }
+  
+  /**
+   * Human readable name: perps by name, spot pairs as BASE/QUOTE instead of @index
+   */
+  public getDisplayName(coin: string): string {
+    return this.assets.get(coin)?.displayName ?? coin
+  }
+  
+  /**
+   * Mid price of an asset from an allMids-style map
+   */
+  public getMidPrice(coin: string, midPrices: Record<string, string>): string | undefined {
+    return midPrices[coin]
+  }
+  
+  /**
+   * USD value of one unit of a spot token, priced through its USDC pair
+   */
+  public getTokenUsdPrice(tokenName: string, midPrices: Record<string, string>): string | undefined {
+    if (tokenName === 'USDC') return '1'
+    const pair = this.usdPairs.get(tokenName)
+    return pair != null ? midPrices[pair.coin] : undefined
+  }
+  
+  /**
+   * Number of decimals a valid price of this size has: at most 5 significant
+   * figures and at most maxPriceDecimals, whichever is fewer
+   */
+  public getPriceDecimals(coin: string, price: DecimalValue): number {
+    const asset = this.assets.get(coin)
+    const maxDecimals = asset?.maxPriceDecimals ?? MAX_PERP_DECIMALS
+    const px = Math.abs(toNumber(price))
+    if (!(px > 0)) return maxDecimals
+    
+    const integerDigits = Math.floor(Math.log10(px)) + 1
+    return Math.min(Math.max(MAX_SIGNIFICANT_FIGURES - integerDigits, 0), maxDecimals)
+  }
+  
+  /**
+   * Smallest price increment at a given price
+   */
+  public getTickSize(coin: string, price: DecimalValue): string {
+    return div(1, 10 ** this.getPriceDecimals(coin, price))
+  }
+  
+  /**
+   * Round a price to one the exchange accepts. Rounding up to the next power
+   * of ten only drops significant figures, so the result is always valid.
+   */
+  public roundPrice(coin: string, price: DecimalValue, mode: RoundingMode = 'halfUp'): string {
+    return round(price, this.getPriceDecimals(coin, price), mode)
+  }
+  
+  /**
+   * Round a size down to the asset's size decimals
+   */
+  public roundSize(coin: string, size: DecimalValue): string {
+    const asset = this.assets.get(coin)
+    if (asset == null) throw new Error(`Unknown asset: ${coin}`)
+    
+    return round(size, asset.szDecimals, 'down')
+  }
+}
+
+// One registry per network, loaded on first use
+let registry: { baseUrl: string, value: Promise<AssetRegistry> } | undefined
+
+/**
+ * Build the asset registry for the active network, or reuse the one already built
+ */
+export const loadAssetRegistry = async (): Promise<AssetRegistry> => {
+  const { baseUrl } = getNetwork()
+  if (registry?.baseUrl !== baseUrl) {
+    const value = Promise.all([fetchMeta(), fetchSpotMeta()]).then(([meta, spotMeta]) => new AssetRegistry(meta, spotMeta))
+    registry = { baseUrl, value }
+    
+    // Let the next call retry instead of serving the failure forever
+    value.catch(() => {
+      if (registry?.value === value) registry = undefined
+    })
+  }
+  return await registry.value
+}
@@ -0,0 +1,50 @@
+// Client for the Hyperliquid /exchange endpoint. Requests must already be signed.
+
+import { asExchangeResponse, ExchangeRequest, ExchangeResponse } from '../types/hyperliquidTypes'
+import { getExchangeUrl } from './hyperliquidNetwork'
+import { requestScheduler } from './hyperliquidRateLimiter'
+import { hyperliquidSocketService } from './hyperliquidSocketService'
+
+/**
+ * Rate limit weight of an action: 1, plus 1 for every 40 orders or cancels in a batch
+ */
+const getActionWeight = (request: ExchangeRequest): number => {
+  const { orders, cancels, modifies } = request.action
+  const batch = [orders, cancels, modifies].find(Array.isArray)
+  return 1 + Math.floor((batch?.length ?? 0) / 40)
+}
+
+/**
+ * POST a signed action to /exchange over HTTP
+ * @throws If the request fails
+ */
+export const postExchangeOverHttp = async (request: ExchangeRequest): Promise<unknown> => {
+  const url = getExchangeUrl()
+  const response = await requestScheduler.scheduleRest(
+    async () => await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(request)
+    }),
+    getActionWeight(request),
+    'user'
+  )
+  
+  if (response.ok === false) {
+    const errorText = await response.text()
+    throw new Error(`Exchange action ${request.action.type} failed with status ${response.status}: ${errorText}`)
+  }
+  
+  return await response.json()
+}
+
+/**
+ * Send a signed action over the WebSocket, or over HTTP while the socket is down.
+ * A response with status 'err' is returned, not thrown; callers decide how to show it.
+ * @throws If the request fails or its outcome is unknown
+ */
+export const postExchange = async (request: ExchangeRequest): Promise<ExchangeResponse> => {
+  return asExchangeResponse(await hyperliquidSocketService.post({ type: 'action', payload: request }))
+}
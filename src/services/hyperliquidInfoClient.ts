@@ -0,0 +1,372 @@
+// Typed client for the Hyperliquid /info endpoint with request deduplication and caching
+
+import { asArray, Cleaner } from 'cleaners'
+import {
+  asExtraAgent,
+  asFetchedClearinghouseState,
+  asFetchedMeta,
+  asFetchedMetaAndAssetCtxs,
+  asFetchedOrderStatus,
+  asFetchedPortfolio,
+  asFetchedSpotClearinghouseState,
+  asFetchedSpotMeta,
+  asFetchedSubAccounts,
+  asFetchedUserFees,
+  asFetchedVaultDetails,
+  asFrontendOpenOrder,
+  asFundingHistoryEntry,
+  asHistoricalOrder,
+  asOpenOrder,
+  asUserFunding,
+  asVaultEquity,
+  asWsBook,
+  asWsCandle,
+  asWsFill,
+  CandleInterval,
+  ExtraAgent,
+  FetchedClearinghouseState,
+  FetchedMeta,
+  FetchedMetaAndAssetCtxs,
+  FetchedOrderStatus,
+  FetchedPortfolio,
+  FetchedSpotClearinghouseState,
+  FetchedSpotMeta,
+  FetchedUserFees,
+  FetchedVaultDetails,
+  FrontendOpenOrder,
+  FundingHistoryEntry,
+  HistoricalOrder,
+  InfoRequest,
+  InfoRequestType,
+  OpenOrder,
+  SubAccount,
+  UserFunding,
+  VaultEquity,
+  WsBook,
+  WsCandle,
+  WsFill
+} from '../types/hyperliquidTypes'
+import { getInfoUrl, subscribeToNetworkChange } from './hyperliquidNetwork'
+import { requestScheduler, RequestPriority } from './hyperliquidRateLimiter'
+import { hyperliquidSocketService } from './hyperliquidSocketService'
+
+export interface InfoRequestOptions {
+  // Bypass the cache and always hit the API (concurrent requests are still shared)
+  force?: boolean
+  // Queue priority under rate limiting, 'user' by default
+  priority?: RequestPriority
+}
+
+// How long a response stays fresh, per request type. 0 = never cached, only deduplicated.
+const CACHE_TTLS: Record<InfoRequestType, number> = {
+  clearinghouseState: 0,
+  meta: 5 * 60_000,
+  metaAndAssetCtxs: 5_000,
+  spotMeta: 5 * 60_000,
+  spotClearinghouseState: 2_000,
+  openOrders: 2_000,
+  frontendOpenOrders: 2_000,
+  userFills: 5_000,
+  userFillsByTime: 30_000,
+  userFunding: 60_000,
+  fundingHistory: 60_000,
+  historicalOrders: 10_000,
+  orderStatus: 0,
+  userFees: 5 * 60_000,
+  portfolio: 60_000,
+  subAccounts: 60_000,
+  userVaultEquities: 10_000,
+  vaultDetails: 30_000,
+  extraAgents: 60_000,
+  candleSnapshot: 10_000,
+  l2Book: 1_000
+}
+
+// Base rate limit weight per request type. Most requests cost 20; the cheap ones cost 2.
+const REQUEST_WEIGHTS: Record<InfoRequestType, number> = {
+  clearinghouseState: 2,
+  meta: 20,
+  metaAndAssetCtxs: 20,
+  spotMeta: 20,
+  spotClearinghouseState: 2,
+  openOrders: 20,
+  frontendOpenOrders: 20,
+  userFills: 20,
+  userFillsByTime: 20,
+  userFunding: 20,
+  fundingHistory: 20,
+  historicalOrders: 20,
+  orderStatus: 2,
+  userFees: 20,
+  portfolio: 20,
+  subAccounts: 20,
+  userVaultEquities: 20,
+  vaultDetails: 20,
+  extraAgents: 20,
+  candleSnapshot: 20,
+  l2Book: 2
+}
+
+const inFlightRequests = new Map<string, Promise<unknown>>()
+const responseCache = new Map<string, { expiresAt: number, type: InfoRequestType, value: unknown }>()
+
+// Responses from one network are meaningless on another
+subscribeToNetworkChange(() => {
+  responseCache.clear()
+})
+
+/**
+ * Build the cache key for a request. Includes the endpoint so in-flight
+ * requests from a previous network can never be served on the new one.
+ */
+const getRequestKey = (url: string, request: InfoRequest): string => {
+  return `${url} ${JSON.stringify(request)}`
+}
+
+/**
+ * POST a request to /info over HTTP, through the rate limit scheduler
+ * @throws If the request fails
+ */
+export const fetchInfoOverHttp = async (
+  request: InfoRequest,
+  priority?: RequestPriority
+): Promise<unknown> => {
+  const response = await requestScheduler.scheduleRest(
+    async () => await fetch(getInfoUrl(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(request)
+    }),
+    REQUEST_WEIGHTS[request.type],
+    priority
+  )
+  
+  if (response.ok === false) {
+    const errorText = await response.text()
+    throw new Error(`Info request ${request.type} failed with status ${response.status}: ${errorText}`)
+  }
+  
+  return await response.json()
+}
+
+/**
+ * Send an info request and clean the response. Goes over the WebSocket when
+ * it's open and over HTTP otherwise. Identical concurrent requests share a
+ * single request, and responses are cached for their type's TTL.
+ * @throws If the request fails or the response doesn't match the cleaner
+ */
+export const postInfo = async <T>(
+  request: InfoRequest,
+  cleaner: Cleaner<T>,
+  options: InfoRequestOptions = {}
+): Promise<T> => {
+  const url = getInfoUrl()
+  const key = getRequestKey(url, request)
+  
+  if (options.force !== true) {
+    const cached = responseCache.get(key)
+    if (cached != null && cached.expiresAt > Date.now()) {
+      return cached.value as T
+    }
+  }
+  
+  const pending = inFlightRequests.get(key)
+  if (pending != null) {
+    return await (pending as Promise<T>)
+  }
+  
+  const promise = (async () => {
+    const value = cleaner(await hyperliquidSocketService.post(
+      { type: 'info', payload: request },
+      { priority: options.priority }
+    ))
+    
+    const ttl = CACHE_TTLS[request.type]
+    if (ttl > 0) {
+      responseCache.set(key, { expiresAt: Date.now() + ttl, type: request.type, value })
+    }
+    return value
+  })()
+  
+  inFlightRequests.set(key, promise)
+  try {
+    return await promise
+  } finally {
+    inFlightRequests.delete(key)
+  }
+}
+
+/**
+ * Drop cached responses, e.g. after placing or cancelling orders
+ * @param types Request types to drop; all of them if omitted
+ */
+export const invalidateInfoCache = (...types: InfoRequestType[]): void => {
+  if (types.length === 0) {
+    responseCache.clear()
+    return
+  }
+  
+  responseCache.forEach((entry, key) => {
+    if (types.includes(entry.type)) responseCache.delete(key)
+  })
+}
+
+// Market data
+
+export const fetchMeta = async (options?: InfoRequestOptions): Promise<FetchedMeta> => {
+  return await postInfo({ type: 'meta' }, asFetchedMeta, options)
+}
+
+export const fetchMetaAndAssetCtxs = async (options?: InfoRequestOptions): Promise<FetchedMetaAndAssetCtxs> => {
+  return await postInfo({ type: 'metaAndAssetCtxs' }, asFetchedMetaAndAssetCtxs, options)
+}
+
+export const fetchSpotMeta = async (options?: InfoRequestOptions): Promise<FetchedSpotMeta> => {
+  return await postInfo({ type: 'spotMeta' }, asFetchedSpotMeta, options)
+}
+
+export const fetchFundingHistory = async (
+  coin: string,
+  startTime: number,
+  endTime?: number,
+  options?: InfoRequestOptions
+): Promise<FundingHistoryEntry[]> => {
+  return await postInfo({ type: 'fundingHistory', coin, startTime, endTime }, asArray(asFundingHistoryEntry), options)
+}
+
+export const fetchCandleSnapshot = async (
+  coin: string,
+  interval: CandleInterval,
+  startTime: number,
+  endTime: number,
+  options?: InfoRequestOptions
+): Promise<WsCandle[]> => {
+  return await postInfo(
+    { type: 'candleSnapshot', req: { coin, interval, startTime, endTime } },
+    asArray(asWsCandle),
+    options
+  )
+}
+
+export const fetchL2Book = async (
+  coin: string,
+  nSigFigs?: number,
+  mantissa?: number,
+  options?: InfoRequestOptions
+): Promise<WsBook> => {
+  return await postInfo({ type: 'l2Book', coin, nSigFigs, mantissa }, asWsBook, options)
+}
+
+// User data. Addresses are lowercased so casing doesn't defeat the cache.
+
+export const fetchUserClearinghouseState = async (
+  user: string,
+  options?: InfoRequestOptions
+): Promise<FetchedClearinghouseState> => {
+  return await postInfo({ type: 'clearinghouseState', user: user.toLowerCase() }, asFetchedClearinghouseState, options)
+}
+
+export const fetchSpotClearinghouseState = async (
+  user: string,
+  options?: InfoRequestOptions
+): Promise<FetchedSpotClearinghouseState> => {
+  return await postInfo({ type: 'spotClearinghouseState', user: user.toLowerCase() }, asFetchedSpotClearinghouseState, options)
+}
+
+export const fetchOpenOrders = async (user: string, options?: InfoRequestOptions): Promise<OpenOrder[]> => {
+  return await postInfo({ type: 'openOrders', user: user.toLowerCase() }, asArray(asOpenOrder), options)
+}
+
+export const fetchFrontendOpenOrders = async (user: string, options?: InfoRequestOptions): Promise<FrontendOpenOrder[]> => {
+  return await postInfo({ type: 'frontendOpenOrders', user: user.toLowerCase() }, asArray(asFrontendOpenOrder), options)
+}
+
+/**
+ * Fetch the user's most recent fills (up to 2000)
+ */
+export const fetchUserFills = async (
+  user: string,
+  aggregateByTime?: boolean,
+  options?: InfoRequestOptions
+): Promise<WsFill[]> => {
+  return await postInfo({ type: 'userFills', user: user.toLowerCase(), aggregateByTime }, asArray(asWsFill), options)
+}
+
+export const fetchUserFillsByTime = async (
+  user: string,
+  startTime: number,
+  endTime?: number,
+  aggregateByTime?: boolean,
+  options?: InfoRequestOptions
+): Promise<WsFill[]> => {
+  return await postInfo(
+    { type: 'userFillsByTime', user: user.toLowerCase(), startTime, endTime, aggregateByTime },
+    asArray(asWsFill),
+    options
+  )
+}
+
+export const fetchUserFunding = async (
+  user: string,
+  startTime: number,
+  endTime?: number,
+  options?: InfoRequestOptions
+): Promise<UserFunding[]> => {
+  return await postInfo({ type: 'userFunding', user: user.toLowerCase(), startTime, endTime }, asArray(asUserFunding), options)
+}
+
+export const fetchHistoricalOrders = async (user: string, options?: InfoRequestOptions): Promise<HistoricalOrder[]> => {
+  return await postInfo({ type: 'historicalOrders', user: user.toLowerCase() }, asArray(asHistoricalOrder), options)
+}
+
+/**
+ * Look up an order by oid or cloid
+ */
+export const fetchOrderStatus = async (
+  user: string,
+  oid: number | string,
+  options?: InfoRequestOptions
+): Promise<FetchedOrderStatus> => {
+  return await postInfo({ type: 'orderStatus', user: user.toLowerCase(), oid }, asFetchedOrderStatus, options)
+}
+
+export const fetchUserFees = async (user: string, options?: InfoRequestOptions): Promise<FetchedUserFees> => {
+  return await postInfo({ type: 'userFees', user: user.toLowerCase() }, asFetchedUserFees, options)
+}
+
+export const fetchPortfolio = async (user: string, options?: InfoRequestOptions): Promise<FetchedPortfolio> => {
+  return await postInfo({ type: 'portfolio', user: user.toLowerCase() }, asFetchedPortfolio, options)
+}
+
+// Sub-accounts and vaults
+
+export const fetchSubAccounts = async (user: string, options?: InfoRequestOptions): Promise<SubAccount[]> => {
+  return await postInfo({ type: 'subAccounts', user: user.toLowerCase() }, asFetchedSubAccounts, options) ?? []
+}
+
+export const fetchUserVaultEquities = async (user: string, options?: InfoRequestOptions): Promise<VaultEquity[]> => {
+  return await postInfo({ type: 'userVaultEquities', user: user.toLowerCase() }, asArray(asVaultEquity), options)
+}
+
+/**
+ * Fetch a vault's details, including the given user's stake in it
+ */
+export const fetchVaultDetails = async (
+  vaultAddress: string,
+  user?: string,
+  options?: InfoRequestOptions
+): Promise<FetchedVaultDetails> => {
+  return await postInfo(
+    { type: 'vaultDetails', vaultAddress: vaultAddress.toLowerCase(), user: user?.toLowerCase() },
+    asFetchedVaultDetails,
+    options
+  )
+}
+
+// Agent wallets
+
+export const fetchExtraAgents = async (user: string, options?: InfoRequestOptions): Promise<ExtraAgent[]> => {
+  return await postInfo({ type: 'extraAgents', user: user.toLowerCase() }, asArray(asExtraAgent), options)
+}
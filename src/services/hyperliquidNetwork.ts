@@ -0,0 +1,122 @@
+// Hyperliquid network configuration shared by every REST and WebSocket call
+
+export type NetworkId = 'mainnet' | 'testnet' | 'custom'
+
+export interface NetworkConfig {
+  id: NetworkId
+  label: string
+  baseUrl: string // e.g. https://api.hyperliquid.xyz, without a trailing slash
+}
+
+export const NETWORKS: Record<Exclude<NetworkId, 'custom'>, NetworkConfig> = {
+  mainnet: {
+    id: 'mainnet',
+    label: 'Mainnet',
+    baseUrl: 'https://api.hyperliquid.xyz'
+  },
+  testnet: {
+    id: 'testnet',
+    label: 'Testnet',
+    baseUrl: 'https://api.hyperliquid-testnet.xyz'
+  }
+}
+
+// localStorage key for the selected network
+const STORAGE_KEY = 'hyperliquid-network'
+
+let currentNetwork: NetworkConfig = NETWORKS.mainnet
+let loadedFromStorage = false
+const listeners = new Set<(network: NetworkConfig) => void>()
+
+/**
+ * Create a network pointing at a custom API, e.g. a local mock server
+ * @param baseUrl Base URL serving /info, /exchange and /ws
+ */
+export const createCustomNetwork = (baseUrl: string): NetworkConfig => {
+  const url = new URL(baseUrl.trim())
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported protocol ${url.protocol}, expected http: or https:`)
+  }
+  
+  return {
+    id: 'custom',
+    label: url.host,
+    baseUrl: url.toString().replace(/\/+$/, '')
+  }
+}
+
+/**
+ * Restore the persisted network selection once, in the browser only
+ */
+const loadFromStorage = (): void => {
+  if (loadedFromStorage || typeof window === 'undefined') return
+  loadedFromStorage = true
+  
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    if (stored == null) return
+    
+    if (stored === 'mainnet' || stored === 'testnet') {
+      currentNetwork = NETWORKS[stored]
+    } else {
+      currentNetwork = createCustomNetwork(stored)
+    }
+  } catch (error) {
+    console.error('Error restoring network selection:', error)
+  }
+}
+
+/**
+ * Get the active network
+ */
+export const getNetwork = (): NetworkConfig => {
+  loadFromStorage()
+  return currentNetwork
+}
+
+/**
+ * Switch the active network, persist it and notify listeners
+ */
+export const setNetwork = (network: NetworkConfig): void => {
+  loadFromStorage()
+  if (network.id === currentNetwork.id && network.baseUrl === currentNetwork.baseUrl) return
+  
+  currentNetwork = network
+  if (typeof window !== 'undefined') {
+    window.localStorage.setItem(STORAGE_KEY, network.id === 'custom' ? network.baseUrl : network.id)
+  }
+  
+  listeners.forEach(listener => listener(network))
+}
+
+/**
+ * Subscribe to network changes
+ * @returns An unsubscribe function
+ */
+export const subscribeToNetworkChange = (callback: (network: NetworkConfig) => void): () => void => {
+  listeners.add(callback)
+  return () => {
+    listeners.delete(callback)
+  }
+}
+
+/**
+ * URL of the active network's /info endpoint
+ */
+export const getInfoUrl = (): string => {
+  return `${getNetwork().baseUrl}/info`
+}
+
+/**
+ * URL of the active network's /exchange endpoint
+ */
+export const getExchangeUrl = (): string => {
+  return `${getNetwork().baseUrl}/exchange`
+}
+
+/**
+ * URL of the active network's WebSocket endpoint
+ */
+export const getWebSocketUrl = (): string => {
+  return `${getNetwork().baseUrl.replace(/^http/, 'ws')}/ws`
+}
@@ -0,0 +1,308 @@
+// Building, validating and placing orders through the signed /exchange client
+
+import type {
+  CancelStatus,
+  CancelWire,
+  ExchangeRequest,
+  FrontendOpenOrder,
+  ModifyWire,
+  OrderGrouping,
+  OrderStatus,
+  OrderTif,
+  OrderWire,
+  Position
+} from '../types/hyperliquidTypes'
+import { asCancelResponse, asOrderResponse } from '../types/hyperliquidTypes'
+import type { AssetRegistry } from './hyperliquidAssetRegistry'
+import { postExchange } from './hyperliquidExchangeClient'
+import { createL1ActionRequest, ExchangeSigner } from './hyperliquidSigning'
+import { abs, add, compare, div, mul, negate, sub } from '../utils/decimal'
+
+// The exchange rejects orders worth less than this, unless they only reduce a position
+export const MIN_ORDER_VALUE = '10'
+
+// Market orders are IOC limit orders this far through the mid, as a fraction
+export const DEFAULT_MARKET_SLIPPAGE = '0.01'
+
+// Market trigger orders still need a limit price; this far through the trigger price, as a fraction
+export const MARKET_TRIGGER_SLIPPAGE = '0.1'
+
+export type TpslKind = 'tp' | 'sl'
+
+export interface OrderParams {
+  coin: string
+  isBuy: boolean
+  price: string // Limit price, or the worst acceptable price for a market order
+  size: string // In coin
+  reduceOnly: boolean
+  tif: OrderTif
+}
+
+export interface TriggerOrderParams {
+  coin: string
+  isBuy: boolean
+  size: string // In coin
+  tpsl: TpslKind
+  triggerPrice: string
+  isMarket: boolean // Execute as a market order once triggered, or as a limit order at limitPrice
+  limitPrice?: string // Defaults to the trigger price
+}
+
+/**
+ * Worst price a market order accepts: the mid moved by the slippage against the taker
+ * @param slippage Fraction of the mid, e.g. '0.01' for 1%
+ */
+export const getMarketOrderPrice = (
+  registry: AssetRegistry,
+  coin: string,
+  midPrice: string,
+  isBuy: boolean,
+  slippage: string = DEFAULT_MARKET_SLIPPAGE
+): string => {
+  const price = mul(midPrice, isBuy ? add(1, slippage) : sub(1, slippage))
+  return registry.roundPrice(coin, price, isBuy ? 'up' : 'down')
+}
+
+/**
+ * Why an order would be rejected, or undefined if it's valid.
+ * Checks the price against the asset's tick size and the size against its szDecimals.
+ */
+export const getOrderError = (registry: AssetRegistry, order: OrderParams): string | undefined => {
+  const asset = registry.get(order.coin)
+  if (asset == null) return `Unknown asset ${order.coin}`
+  if (asset.isDelisted) return `${asset.displayName} is delisted`
+  
+  try {
+    if (compare(order.price, 0) <= 0) return 'Price must be greater than zero'
+    if (compare(order.size, 0) <= 0) return 'Size must be greater than zero'
+  } catch {
+    return 'Enter a valid number'
+  }
+  
+  if (compare(registry.roundPrice(order.coin, order.price), order.price) !== 0) {
+    return `Price must be a multiple of ${registry.getTickSize(order.coin, order.price)} with at most 5 significant figures`
+  }
+  
+  if (compare(registry.roundSize(order.coin, order.size), order.size) !== 0) {
+    return `Size allows at most ${asset.szDecimals} decimals`
+  }
+  
+  if (!order.reduceOnly && compare(mul(order.price, order.size), MIN_ORDER_VALUE) < 0) {
+    return `Order value must be at least $${MIN_ORDER_VALUE}`
+  }
+}
+
+/**
+ * The wire form of an order, with price and size rounded to what the exchange accepts
+ * @throws If the asset is unknown
+ */
+export const createOrderWire = (registry: AssetRegistry, order: OrderParams): OrderWire => {
+  const asset = registry.get(order.coin)
+  if (asset == null) throw new Error(`Unknown asset: ${order.coin}`)
+  
+  return {
+    a: asset.assetId,
+    b: order.isBuy,
+    p: registry.roundPrice(order.coin, order.price),
+    s: registry.roundSize(order.coin, order.size),
+    r: order.reduceOnly,
+    t: { limit: { tif: order.tif } }
+  }
+}
+
+/**
+ * The wire form of a TP/SL trigger order. Market triggers get a limit price
+ * MARKET_TRIGGER_SLIPPAGE through the trigger, so they fill once triggered.
+ * @throws If the asset is unknown
+ */
+export const createTriggerOrderWire = (registry: AssetRegistry, order: TriggerOrderParams): OrderWire => {
+  const asset = registry.get(order.coin)
+  if (asset == null) throw new Error(`Unknown asset: ${order.coin}`)
+  
+  const triggerPx = registry.roundPrice(order.coin, order.triggerPrice)
+  return {
+    a: asset.assetId,
+    b: order.isBuy,
+    p: order.isMarket
+      ? getMarketOrderPrice(registry, order.coin, triggerPx, order.isBuy, MARKET_TRIGGER_SLIPPAGE)
+      : registry.roundPrice(order.coin, order.limitPrice ?? triggerPx),
+    s: registry.roundSize(order.coin, order.size),
+    r: true,
+    t: { trigger: { isMarket: order.isMarket, triggerPx, tpsl: order.tpsl } }
+  }
+}
+
+/**
+ * The wire form of a resting order with a new price and size, for a modify.
+ * The price is the limit price of a limit order and the trigger price of a
+ * trigger order; a limit trigger keeps its limit price.
+ * @throws If the asset is unknown
+ */
+export const createModifiedOrderWire = (
+  registry: AssetRegistry,
+  order: FrontendOpenOrder,
+  price: string,
+  size: string
+): OrderWire => {
+  const isBuy = order.side === 'B'
+  if (!order.isTrigger) {
+    const tif = order.tif === 'Alo' || order.tif === 'Ioc' ? order.tif : 'Gtc'
+    return createOrderWire(registry, { coin: order.coin, isBuy, price, size, reduceOnly: order.reduceOnly, tif })
+  }
+  
+  const isMarket = order.orderType.endsWith('Market')
+  return createTriggerOrderWire(registry, {
+    coin: order.coin,
+    isBuy,
+    size,
+    tpsl: order.orderType.startsWith('Take Profit') ? 'tp' : 'sl',
+    triggerPrice: price,
+    isMarket,
+    limitPrice: isMarket ? undefined : order.limitPx
+  })
+}
+
+/**
+ * Sign an action and send it, throwing if the exchange rejects it as a whole
+ * @returns The response payload
+ */
+const sendAction = async (
+  signer: ExchangeSigner,
+  action: ExchangeRequest['action'],
+  vaultAddress: string | undefined,
+  rejectedMessage: string
+): Promise<unknown> => {
+  const request = await createL1ActionRequest(signer, action, vaultAddress)
+  const response = await postExchange(request)
+  if (response.status !== 'ok') {
+    throw new Error(typeof response.response === 'string' ? response.response : rejectedMessage)
+  }
+  return response.response
+}
+
+/**
+ * A reduce-only order that closes some or all of a position
+ * @param percent Share of the position to close, e.g. '50'
+ * @param midPrice Market closes cross it by the default slippage; limit closes rest at it
+ * @throws If the asset is unknown
+ */
+export const getCloseOrder = (
+  registry: AssetRegistry,
+  position: Position,
+  percent: string,
+  isMarket: boolean,
+  midPrice: string
+): OrderParams => {
+  const { coin, szi } = position
+  const isBuy = compare(szi, 0) < 0
+  return {
+    coin,
+    isBuy,
+    price: isMarket ? getMarketOrderPrice(registry, coin, midPrice, isBuy) : registry.roundPrice(coin, midPrice),
+    size: compare(percent, 100) >= 0 ? abs(szi) : registry.roundSize(coin, mul(abs(szi), div(percent, 100))),
+    reduceOnly: true,
+    tif: isMarket ? 'Ioc' : 'Gtc'
+  }
+}
+
+/**
+ * PnL realized by closing part of a position at a price, before fees
+ */
+export const getRealizedPnl = (position: Position, size: string, exitPrice: string): string => {
+  const pnl = mul(sub(exitPrice, position.entryPx), size)
+  return compare(position.szi, 0) > 0 ? pnl : negate(pnl)
+}
+
+/**
+ * Sign and send orders as one action
+ * @param vaultAddress Sub-account or vault to trade for, if not the signer's own account
+ * @param grouping 'positionTpsl' for TP/SL orders that follow the position's size
+ * @returns One status per order, in the order they were sent
+ * @throws If the action is rejected as a whole
+ */
+export const placeOrders = async (
+  signer: ExchangeSigner,
+  orders: OrderWire[],
+  vaultAddress?: string,
+  grouping: OrderGrouping = 'na'
+): Promise<OrderStatus[]> => {
+  const response = await sendAction(signer, { type: 'order', orders, grouping }, vaultAddress, 'Order rejected')
+  return asOrderResponse(response).data.statuses
+}
+
+/**
+ * Replace resting orders in place as one action, keeping their order ids
+ * @returns One status per modify, in the order they were sent
+ * @throws If the action is rejected as a whole
+ */
+export const modifyOrders = async (
+  signer: ExchangeSigner,
+  modifies: ModifyWire[],
+  vaultAddress?: string
+): Promise<OrderStatus[]> => {
+  const response = await sendAction(signer, { type: 'batchModify', modifies }, vaultAddress, 'Modify rejected')
+  return asOrderResponse(response).data.statuses
+}
+
+/**
+ * Cancel orders by order id as one action
+ * @returns One status per cancel, in the order they were sent
+ * @throws If the action is rejected as a whole
+ */
+export const cancelOrders = async (
+  signer: ExchangeSigner,
+  cancels: CancelWire[],
+  vaultAddress?: string
+): Promise<CancelStatus[]> => {
+  const response = await sendAction(signer, { type: 'cancel', cancels }, vaultAddress, 'Cancel rejected')
+  return asCancelResponse(response).data.statuses
+}
+
+/**
+ * Resting take-profit and stop-loss orders that close a position
+ * @param positionSize Signed size of the position; TP/SL orders trade against it
+ */
+export const getTpslOrders = (
+  openOrders: FrontendOpenOrder[],
+  coin: string,
+  positionSize: string
+): Record<TpslKind, FrontendOpenOrder[]> => {
+  const closingSide = compare(positionSize, 0) > 0 ? 'A' : 'B'
+  const triggers = openOrders.filter(order =>
+    order.coin === coin && order.isTrigger && order.reduceOnly && order.side === closingSide
+  )
+  return {
+    tp: triggers.filter(order => order.orderType.startsWith('Take Profit')),
+    sl: triggers.filter(order => order.orderType.startsWith('Stop'))
+  }
+}
+
+/**
+ * Trigger price for a TP/SL target given as a price, a percent move from entry, or a USD PnL
+ * @param value The price, the percent (e.g. '5' for 5%) or the PnL, always positive
+ */
+export const getTpslTriggerPrice = (
+  kind: TpslKind,
+  target: 'price' | 'percent' | 'pnl',
+  value: string,
+  entryPrice: string,
+  positionSize: string
+): string => {
+  if (target === 'price') return value
+  
+  const move = target === 'percent' ? mul(entryPrice, mul(value, '0.01')) : div(value, abs(positionSize))
+  
+  // Take profit is above entry for a long and below for a short; stop loss the other way
+  const isAbove = (kind === 'tp') === compare(positionSize, 0) > 0
+  return isAbove ? add(entryPrice, move) : sub(entryPrice, move)
+}
+
+/**
+ * One line describing what happened to an order
+ */
+export const describeOrderStatus = (status: OrderStatus): string => {
+  if (typeof status === 'string') return status === 'waitingForTrigger' ? 'Waiting for trigger' : 'Waiting for fill'
+  if ('error' in status) return status.error
+  if ('filled' in status) return `Filled ${status.filled.totalSz} at ${status.filled.avgPx}`
+  return `Resting as order ${status.resting.oid}`
+}
@@ -0,0 +1,44 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { requestScheduler } from './hyperliquidRateLimiter'
+
+const ok = async () => new Response(null, { status: 200 })
+
+describe('request scheduler', () => {
+  beforeAll(() => {
+    vi.useFakeTimers()
+  })
+  
+  afterAll(() => {
+    vi.useRealTimers()
+  })
+  
+  it('starts a request that fits sooner than the one ahead of it', async () => {
+    await requestScheduler.scheduleRest(ok, 10)
+    await vi.advanceTimersByTimeAsync(10_000)
+    await requestScheduler.scheduleRest(ok, 1180)
+    await vi.advanceTimersByTimeAsync(1_000)
+    
+    // Needs the whole budget, so waits until 70s for the second request to leave the window
+    const background = vi.fn(ok)
+    void requestScheduler.scheduleRest(background, 1200, 'background')
+    await vi.advanceTimersByTimeAsync(1_000)
+    
+    // Fits once the first request leaves the window at 60s
+    const user = vi.fn(ok)
+    void requestScheduler.scheduleRest(user, 15)
+    
+    await vi.advanceTimersByTimeAsync(48_100)
+    expect(user).toHaveBeenCalled()
+    expect(background).not.toHaveBeenCalled()
+  })
+  
+  it('throws once a request is still rate limited after every retry', async () => {
+    const rateLimited = vi.fn(async () => new Response('rate limited', { status: 429 }))
+    const rejection = expect(requestScheduler.scheduleRest(rateLimited, 1)).rejects.toThrow(/^Rate limited/)
+    
+    // Backs off for 1, 2, 4, 8 and 16 seconds between attempts
+    await vi.advanceTimersByTimeAsync(120_000)
+    await rejection
+    expect(rateLimited).toHaveBeenCalledTimes(6)
+  })
+})
@@ -0,0 +1,271 @@
+// Rate-limit-aware scheduler for Hyperliquid REST and WebSocket traffic
+//
+// Hyperliquid budgets REST traffic by weight per IP (1200 per minute) and
+// WebSocket traffic by messages sent (2000 per minute). Requests that don't fit
+// in the current window wait in a priority queue instead of being rejected.
+//
+// Exchange actions also count against a per-address budget that grows with the
+// address's traded volume. Only the exchange knows that budget, so it isn't
+// modelled here, and actions over it come back as errors from the exchange.
+
+// User actions jump ahead of background refreshes in the queue
+export type RequestPriority = 'user' | 'background'
+
+export interface RateLimitUsage {
+  restWeightUsed: number
+  restWeightLimit: number
+  wsMessagesUsed: number
+  wsMessagesLimit: number
+  queuedRequests: number
+  backoffUntil: number | null // Epoch ms while backing off after a 429
+}
+
+interface QueuedTask {
+  weight: number
+  priority: RequestPriority
+  sequence: number // Keeps FIFO order within a priority
+  start: () => void
+}
+
+const WINDOW_MS = 60_000
+const REST_WEIGHT_LIMIT = 1200
+const WS_MESSAGE_LIMIT = 2000
+const MAX_RATE_LIMIT_RETRIES = 5
+const BACKOFF_BASE_MS = 1000
+const BACKOFF_MAX_MS = 30_000
+
+/**
+ * Sliding window of consumed weight
+ */
+class SlidingWindowBudget {
+  private entries: Array<{ time: number, weight: number }> = []
+  
+  constructor(
+    public readonly limit: number,
+    private readonly windowMs: number
+  ) {}
+  
+  /**
+   * Weight consumed within the current window
+   */
+  public used(now: number = Date.now()): number {
+    this.prune(now)
+    return this.entries.reduce((total, entry) => total + entry.weight, 0)
+  }
+  
+  public canConsume(weight: number, now: number = Date.now()): boolean {
+    return this.used(now) + weight <= this.limit
+  }
+  
+  public consume(weight: number, now: number = Date.now()): void {
+    this.entries.push({ time: now, weight })
+  }
+  
+  /**
+   * How long until enough weight leaves the window for a request of this weight
+   */
+  public msUntilAvailable(weight: number, now: number = Date.now()): number {
+    let excess = this.used(now) + weight - this.limit
+    if (excess <= 0) return 0
+    
+    for (const entry of this.entries) {
+      excess -= entry.weight
+      if (excess <= 0) return entry.time + this.windowMs - now
+    }
+    return this.windowMs
+  }
+  
+  private prune(now: number): void {
+    while (this.entries.length > 0 && this.entries[0].time <= now - this.windowMs) {
+      this.entries.shift()
+    }
+  }
+}
+
+/**
+ * Singleton scheduler that budgets every request made by the service layer
+ */
+class RequestScheduler {
+  private static instance: RequestScheduler
+  private restBudget = new SlidingWindowBudget(REST_WEIGHT_LIMIT, WINDOW_MS)
+  private wsBudget = new SlidingWindowBudget(WS_MESSAGE_LIMIT, WINDOW_MS)
+  private restQueue: QueuedTask[] = []
+  private wsQueue: Array<() => void> = []
+  private sequence = 0
+  private drainTimeout: NodeJS.Timeout | null = null
+  private drainAt = 0 // When the pending drain runs, epoch ms
+  private backoffUntil = 0
+  private backoffAttempts = 0
+  
+  // Private constructor for singleton
+  private constructor() {}
+  
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): RequestScheduler {
+    if (RequestScheduler.instance == null) {
+      RequestScheduler.instance = new RequestScheduler()
+    }
+    return RequestScheduler.instance
+  }
+  
+  /**
+   * Run a REST request once its weight fits in the budget. Responses with
+   * status 429 pause the whole queue with exponential backoff and are retried.
+   * @param task Performs the request; may be called more than once
+   * @param weight Rate limit weight of the request
+   * @param priority 'user' requests are started before 'background' ones
+   * @throws If the request is still rate limited after every retry
+   */
+  public async scheduleRest(
+    task: () => Promise<Response>,
+    weight: number,
+    priority: RequestPriority = 'user'
+  ): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquireRest(weight, priority)
+      const response = await task()
+      
+      if (response.status !== 429) {
+        this.backoffAttempts = 0
+        return response
+      }
+      if (attempt >= MAX_RATE_LIMIT_RETRIES) {
+        throw new Error(`Rate limited by Hyperliquid after ${MAX_RATE_LIMIT_RETRIES} retries, try again shortly`)
+      }
+      
+      this.startBackoff()
+    }
+  }
+  
+  /**
+   * Send a WebSocket message now if the message budget allows, otherwise as
+   * soon as it does. Queued messages keep their order.
+   */
+  public scheduleWsMessage(send: () => void): void {
+    if (this.trySendWsMessage(send)) return
+    
+    this.wsQueue.push(send)
+    this.scheduleDrain()
+  }
+  
+  /**
+   * Send a WebSocket message only if the message budget allows it right now,
+   * for messages that mustn't go out late
+   * @returns Whether it was sent
+   */
+  public trySendWsMessage(send: () => void): boolean {
+    if (this.wsQueue.length > 0 || !this.wsBudget.canConsume(1)) return false
+    
+    this.wsBudget.consume(1)
+    send()
+    return true
+  }
+  
+  /**
+   * Current budget usage, for display
+   */
+  public getUsage(): RateLimitUsage {
+    const now = Date.now()
+    return {
+      restWeightUsed: this.restBudget.used(now),
+      restWeightLimit: this.restBudget.limit,
+      wsMessagesUsed: this.wsBudget.used(now),
+      wsMessagesLimit: this.wsBudget.limit,
+      queuedRequests: this.restQueue.length + this.wsQueue.length,
+      backoffUntil: this.backoffUntil > now ? this.backoffUntil : null
+    }
+  }
+  
+  /**
+   * Wait for a slot in the REST budget
+   */
+  private acquireRest(weight: number, priority: RequestPriority): Promise<void> {
+    return new Promise(resolve => {
+      this.restQueue.push({
+        // A request heavier than the whole budget would otherwise wait forever
+        weight: Math.min(weight, this.restBudget.limit),
+        priority,
+        sequence: this.sequence++,
+        start: resolve
+      })
+      this.drain()
+    })
+  }
+  
+  /**
+   * Start queued tasks in order while they fit in the budget, then wait for the
+   * next slot. A heavy task at the head holds back lighter ones behind it on
+   * purpose: letting them past could starve it indefinitely. User tasks are
+   * still sorted ahead of background ones.
+   */
+  private drain(): void {
+    const now = Date.now()
+    let nextWakeup: number | null = null
+    
+    // REST queue, paused entirely while backing off
+    if (this.backoffUntil > now) {
+      nextWakeup = this.backoffUntil - now
+    } else {
+      this.restQueue.sort((a, b) =>
+        a.priority === b.priority ? a.sequence - b.sequence : a.priority === 'user' ? -1 : 1
+      )
+      while (this.restQueue.length > 0) {
+        const task = this.restQueue[0]
+        if (!this.restBudget.canConsume(task.weight, now)) {
+          nextWakeup = this.restBudget.msUntilAvailable(task.weight, now)
+          break
+        }
+        this.restQueue.shift()
+        this.restBudget.consume(task.weight, now)
+        task.start()
+      }
+    }
+    
+    // WebSocket queue
+    while (this.wsQueue.length > 0) {
+      if (!this.wsBudget.canConsume(1, now)) {
+        const wait = this.wsBudget.msUntilAvailable(1, now)
+        nextWakeup = nextWakeup == null ? wait : Math.min(nextWakeup, wait)
+        break
+      }
+      const send = this.wsQueue.shift()
+      this.wsBudget.consume(1, now)
+      send?.()
+    }
+    
+    if (nextWakeup != null) this.scheduleDrain(nextWakeup)
+  }
+  
+  /**
+   * Run drain after a delay. A pending drain that's due sooner is kept, and one
+   * due later is moved up, so a request that fits earlier isn't held back.
+   */
+  private scheduleDrain(delay: number = 0): void {
+    const wait = Math.max(delay, 10)
+    const drainAt = Date.now() + wait
+    if (this.drainTimeout != null) {
+      if (this.drainAt <= drainAt) return
+      clearTimeout(this.drainTimeout)
+    }
+    
+    this.drainAt = drainAt
+    this.drainTimeout = setTimeout(() => {
+      this.drainTimeout = null
+      this.drain()
+    }, wait)
+  }
+  
+  /**
+   * Pause REST traffic after a 429, doubling the pause on consecutive ones
+   */
+  private startBackoff(): void {
+    this.backoffAttempts++
+    const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (this.backoffAttempts - 1))
+    this.backoffUntil = Math.max(this.backoffUntil, Date.now() + delay)
+  }
+}
+
+// Export singleton instance
+export const requestScheduler = RequestScheduler.getInstance()
@@ -0,0 +1,120 @@
+// WebSocket stand-in that plays back a recorded session
+
+import type { RecordedFrame } from '../types/hyperliquidTypes'
+
+/**
+ * The part of the WebSocket API the socket service relies on, so a replay
+ * can be used in place of a live connection
+ */
+export interface SocketTransport {
+  readonly readyState: number
+  onopen: ((event: Event) => void) | null
+  onclose: ((event: CloseEvent) => void) | null
+  onerror: ((event: Event) => void) | null
+  onmessage: ((event: MessageEvent) => void) | null
+  send: (data: string) => void
+  close: () => void
+}
+
+// Same values as the WebSocket readyState constants
+const CONNECTING = 0
+const OPEN = 1
+const CLOSED = 3
+
+/**
+ * Replays recorded frames with their original spacing, divided by the speed.
+ * Closes once the last frame is played, so a reconnecting client loops the recording.
+ */
+export class ReplaySocket implements SocketTransport {
+  public readyState: number = CONNECTING
+  public onopen: ((event: Event) => void) | null = null
+  public onclose: ((event: CloseEvent) => void) | null = null
+  public onerror: ((event: Event) => void) | null = null
+  public onmessage: ((event: MessageEvent) => void) | null = null
+  
+  private frameTimeout: NodeJS.Timeout | null = null
+  private nextFrame = 0
+  private startedAt = 0
+  
+  constructor(
+    private readonly frames: RecordedFrame[],
+    private readonly speed: number = 1
+  ) {
+    // Open asynchronously, like a real socket, so handlers can be attached first
+    this.frameTimeout = setTimeout(() => this.open(), 0)
+  }
+  
+  /**
+   * There is no server behind a replay. Pings are answered so the stale feed
+   * watchdog stays quiet, post requests get an error response, and
+   * subscriptions are ignored since the recording plays regardless.
+   */
+  public send(data: string): void {
+    if (this.readyState !== OPEN) return
+    
+    let message: { method?: unknown, id?: unknown }
+    try {
+      message = JSON.parse(data)
+    } catch {
+      return
+    }
+    
+    if (message.method === 'ping') {
+      this.reply({ channel: 'pong' })
+    } else if (message.method === 'post') {
+      this.reply({
+        channel: 'post',
+        data: { id: message.id, response: { type: 'error', payload: 'Not available during replay' } }
+      })
+    }
+  }
+  
+  public close(code: number = 1000, reason: string = ''): void {
+    if (this.frameTimeout != null) {
+      clearTimeout(this.frameTimeout)
+      this.frameTimeout = null
+    }
+    if (this.readyState === CLOSED) return
+    
+    this.readyState = CLOSED
+    this.onclose?.(new CloseEvent('close', { code, reason, wasClean: true }))
+  }
+  
+  private open(): void {
+    this.frameTimeout = null
+    this.readyState = OPEN
+    this.startedAt = Date.now()
+    this.onopen?.(new Event('open'))
+    this.scheduleNextFrame()
+  }
+  
+  /**
+   * Wait until the next frame is due relative to the start of the replay
+   */
+  private scheduleNextFrame(): void {
+    if (this.readyState !== OPEN) return
+    
+    if (this.nextFrame >= this.frames.length) {
+      this.close(1000, 'Replay finished')
+      return
+    }
+    
+    const offset = (this.frames[this.nextFrame].t - this.frames[0].t) / this.speed
+    const delay = Math.max(0, this.startedAt + offset - Date.now())
+    
+    this.frameTimeout = setTimeout(() => {
+      this.frameTimeout = null
+      this.emitMessage(this.frames[this.nextFrame++].data)
+      this.scheduleNextFrame()
+    }, delay)
+  }
+  
+  private reply(message: unknown): void {
+    setTimeout(() => this.emitMessage(JSON.stringify(message)), 0)
+  }
+  
+  private emitMessage(data: string): void {
+    if (this.readyState !== OPEN) return
+    this.onmessage?.(new MessageEvent('message', { data }))
+  }
+}
@@ -1,16 +1,53 @@
-// Hyperliquid API service refactored to use react-use-websocket
+// Hyperliquid API service: REST requests and WebSocket message helpers
 
+import { asArray, asUnknown, Cleaner } from 'cleaners'
 import {
-  asFetchedClearinghouseState,
   FetchedClearinghouseState,
-  asAllMids
+  asAllMids,
+  asWsBook,
+  asWsCandle,
+  asWsChannelMessage,
+  asWsError,
+  asWsNotification,
+  asWsOrder,
+  asWsPostResponse,
+  asWsSubscriptionResponse,
+  asWsTrade,
+  asWsUserFills,
+  asWsWebdata2,
+  AccountState,
+  FrontendOpenOrder,
+  SubAccount,
+  Subscription,
+  SubscriptionType,
+  VaultEquity,
+  VaultSummary,
+  WsClearinghouseState,
+  WsPostRequest,
+  WsBook,
+  WsRoutedMessage,
+  WsWebdata2
 } from '../types/hyperliquidTypes'
+import { hyperliquidSocketService } from './hyperliquidSocketService'
+import { getWebSocketUrl } from './hyperliquidNetwork'
+import {
+  fetchFrontendOpenOrders,
+  fetchSpotClearinghouseState,
+  fetchSubAccounts,
+  fetchUserClearinghouseState,
+  fetchUserVaultEquities,
+  fetchVaultDetails
+} from './hyperliquidInfoClient'
+import type { RateLimitUsage } from './hyperliquidRateLimiter'
 
 // WebSocket connection status for UI indicator
 export type WebSocketStatus = 'connecting' | 'connected' | 'disconnected' | 'error'
 
-// Cache for mid prices
-let cachedMidPrices: Record<string, string> = {}
+// The server streams user-specific data for at most this many users per IP
+export const MAX_STREAMED_USERS = 10
+
+// How often the state of an account that isn't streamed is polled instead
+export const USER_STATE_POLL_INTERVAL = 30000 // ms
 
 /**
  * Fetches the user's state information including balance and positions from Hyperliquid API
@@ -21,119 +58,425 @@ export const fetchClearinghouseState = async (address: string): Promise<FetchedC
   try {
     // Fetch user info from API
     console.log(`Fetching user state for address: ${address}`)
-    const response = await fetch('https://api.hyperliquid.xyz/info', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        type: 'clearinghouseState',
-        user: address.toLowerCase()
-      })
-    })
-    
-    if (response.ok === false) {
-      const errorText = await response.text()
-      throw new Error(`API request failed with status ${response.status}: ${errorText}`)
-    }
+    const clearinghouseState = await fetchUserClearinghouseState(address)
+    console.log('Info fetch response:', clearinghouseState)
+    return clearinghouseState
+  } catch (error) {
+    console.error('Error fetching user state data:', error)
+  }
+}
 
-    const rawData = await response.json()
-    console.log('Info fetch response:', rawData)
-    
+// A vault the user has deposited in
+export interface LinkedVault extends VaultEquity {
+  name: string
+  leader?: string // Unknown if the details couldn't be fetched
+}
+
+// Accounts that belong to a master account
+export interface LinkedAccounts {
+  subAccounts: SubAccount[]
+  vaults: LinkedVault[]
+}
+
+/**
+ * Fetch an account's sub-accounts and the vaults it has deposited in
+ * @param master Address of the master account
+ */
+export const fetchLinkedAccounts = async (master: string): Promise<LinkedAccounts> => {
+  const [subAccounts, vaultEquities] = await Promise.all([
+    fetchSubAccounts(master),
+    fetchUserVaultEquities(master)
+  ])
+  
+  // Equities only carry the address, so look up each vault's name
+  const vaults = await Promise.all(vaultEquities.map(async vaultEquity => {
     try {
-      const clearinghouseState = asFetchedClearinghouseState(rawData)
-      return clearinghouseState
+      const details = await fetchVaultDetails(vaultEquity.vaultAddress)
+      return { ...vaultEquity, name: details.name, leader: details.leader }
     } catch (error) {
-      console.error('Error parsing user state data:', error)
+      console.error('Error fetching vault name:', vaultEquity.vaultAddress, error)
+      return { ...vaultEquity, name: `${vaultEquity.vaultAddress.slice(0, 6)}...${vaultEquity.vaultAddress.slice(-4)}` }
     }
-  } catch (error) {
-    console.error('Error fetching user state data:', error)
+  }))
+  
+  return { subAccounts, vaults }
+}
+
+/**
+ * Fetch a vault's details with its TVL and the user's share of it
+ */
+export const fetchVaultSummary = async (vaultAddress: string, user: string): Promise<VaultSummary> => {
+  const [details, clearinghouseState] = await Promise.all([
+    fetchVaultDetails(vaultAddress, user),
+    fetchUserClearinghouseState(vaultAddress)
+  ])
+  
+  const tvl = clearinghouseState.marginSummary?.accountValue ?? clearinghouseState.crossMarginSummary.accountValue
+  const userEquity = details.followerState?.vaultEquity ?? '0'
+  
+  return {
+    name: details.name,
+    vaultAddress: details.vaultAddress,
+    leader: details.leader,
+    tvl,
+    apr: details.apr,
+    userEquity,
+    userShare: parseFloat(tvl) > 0 ? parseFloat(userEquity) / parseFloat(tvl) : 0,
+    lockedUntil: details.followerState?.lockupUntil,
+    isClosed: details.isClosed ?? false
   }
 }
 
 /**
- * Get the WebSocket URL for Hyperliquid
+ * Get the WebSocket URL for the active Hyperliquid network
  */
 export const getHyperliquidWebSocketUrl = (): string => {
-  return 'wss://api.hyperliquid.xyz/ws'
+  return getWebSocketUrl()
 }
 
 /**
- * Create a subscription message for mid prices
+ * Create a subscribe or unsubscribe message for any WebSocket subscription
  */
-export const createMidPricesSubscription = (): string => {
+export const createSubscriptionMessage = (
+  subscription: Subscription,
+  method: 'subscribe' | 'unsubscribe' = 'subscribe'
+): string => {
   return JSON.stringify({
-    method: 'subscribe',
-    subscription: {
-      type: 'allMids'
-    }
+    method,
+    subscription
   })
 }
 
 /**
- * Process a WebSocket message and extract mid prices if applicable
+ * Create a subscription message for mid prices
  */
-export const processMidPricesMessage = (message: unknown): Record<string, string> => {
-  try {
-    // Parse the message if it's a string
-    const data = typeof message === 'string' ? JSON.parse(message) : message
+export const createMidPricesSubscription = (): string => {
+  return createSubscriptionMessage({ type: 'allMids' })
+}
+
+/**
+ * Build a stable key for a subscription, so identical subscriptions share one
+ * server-side subscription regardless of property order or address casing
+ */
+export const getSubscriptionKey = (subscription: Subscription): string => {
+  const entries = Object.entries(subscription)
+    .filter(([, value]) => value != null)
+    .map(([key, value]) => [key, key === 'user' ? String(value).toLowerCase() : value])
+    .sort(([a], [b]) => String(a).localeCompare(String(b)))
+  return JSON.stringify(entries)
+}
+
+// Channel names the server uses when pushing data for each subscription type
+const subscriptionChannels: Record<SubscriptionType, string[]> = {
+  allMids: ['allMids'],
+  notification: ['notification'],
+  webData2: ['webData2'],
+  candle: ['candle'],
+  l2Book: ['l2Book'],
+  trades: ['trades'],
+  bbo: ['bbo'],
+  orderUpdates: ['orderUpdates'],
+  userEvents: ['user'],
+  userFills: ['userFills'],
+  userFundings: ['userFundings'],
+  userNonFundingLedgerUpdates: ['userNonFundingLedgerUpdates'],
+  activeAssetCtx: ['activeAssetCtx', 'activeSpotAssetCtx'],
+  activeAssetData: ['activeAssetData'],
+  userTwapSliceFills: ['userTwapSliceFills'],
+  userTwapHistory: ['userTwapHistory']
+}
+
+// User subscriptions whose payloads don't say which user they're for. The socket
+// service streams each for one user at a time, so its data goes to that user only.
+export const unattributedUserSubscriptions: SubscriptionType[] = ['notification', 'orderUpdates', 'userEvents']
+
+/**
+ * Check whether a channel message belongs to a subscription. Payloads are
+ * matched on the coin, user and interval fields they carry. A payload missing
+ * the coin or interval matches every subscription of its type, but one
+ * missing the user only matches the unattributed user subscriptions.
+ */
+export const matchesSubscription = (subscription: Subscription, channel: string, data: unknown): boolean => {
+  if (!subscriptionChannels[subscription.type].includes(channel)) return false
+  const isUnattributed = !('user' in subscription) || unattributedUserSubscriptions.includes(subscription.type)
+  
+  // Array payloads (trades, orderUpdates) carry the identifying fields on each item
+  const item = Array.isArray(data) ? data[0] : data
+  if (item == null || typeof item !== 'object') return isUnattributed
+  const fields = item as Record<string, unknown>
+  
+  if ('coin' in subscription) {
+    // Candles use abbreviated keys: s = symbol, i = interval
+    const coin = fields.coin ?? fields.s
+    if (typeof coin === 'string' && coin !== subscription.coin) return false
+  }
+  if ('user' in subscription) {
+    if (typeof fields.user !== 'string') return isUnattributed
+    if (fields.user.toLowerCase() !== subscription.user.toLowerCase()) return false
+  }
+  if ('interval' in subscription && typeof fields.i === 'string') {
+    if (fields.i !== subscription.interval) return false
+  }
+  
+  return true
+}
+
+/**
+ * Merge a partial WebSocket user state payload into the current account state.
+ * Fields missing from the update keep their previous values.
+ */
+export const mergeAccountState = (
+  prevAccountState: AccountState | undefined,
+  update: WsWebdata2 | WsClearinghouseState
+): AccountState => {
+  // webData2 nests the clearinghouse state, older payloads put it at the top level
+  const clearinghouseState: WsClearinghouseState = 'clearinghouseState' in update && update.clearinghouseState != null
+    ? update.clearinghouseState
+    : update
+  
+  return {
+    ...prevAccountState,
+    assetPositions: clearinghouseState.assetPositions ?? prevAccountState?.assetPositions ?? [],
+    crossMarginSummary: clearinghouseState.crossMarginSummary ?? prevAccountState?.crossMarginSummary,
+    marginSummary: clearinghouseState.marginSummary ?? prevAccountState?.marginSummary,
+    withdrawable: clearinghouseState.withdrawable ?? prevAccountState?.withdrawable,
+    crossMaintenanceMarginUsed: clearinghouseState.crossMaintenanceMarginUsed ?? prevAccountState?.crossMaintenanceMarginUsed,
+    spotBalances: 'spotState' in update && update.spotState != null ? update.spotState.balances : prevAccountState?.spotBalances
+  }
+}
+
+/**
+ * Stream the user's account state, merged in the socket worker when there is one
+ * @param address Ethereum address
+ * @param callback Called with the merged account state on every update
+ * @returns An unsubscribe function
+ */
+export const subscribeToUserState = async (
+  address: string,
+  callback: (accountState?: AccountState) => void
+): Promise<() => void> => {
+  return await hyperliquidSocketService.subscribeToUserState(address, callback)
+}
+
+/**
+ * Build the user's account state next to the socket. Starts from the REST
+ * snapshot, then merges webData2 updates from the shared WebSocket. After a
+ * reconnect the snapshot is fetched again, since updates pushed while
+ * disconnected are lost.
+ * @returns An unsubscribe function
+ */
+export const streamUserState = async (
+  address: string,
+  callback: (accountState?: AccountState) => void
+): Promise<() => void> => {
+  let accountState: AccountState | undefined
+  let snapshotApplied = false
+  let closed = false
+  const pendingUpdates: WsWebdata2[] = []
+  
+  // Subscribe first so no update is missed while the snapshot is in flight
+  const unsubscribeUserState = hyperliquidSocketService.subscribe({ type: 'webData2', user: address }, (userState) => {
+    if (!snapshotApplied) {
+      pendingUpdates.push(userState)
+      return
+    }
     
-    // Check if it's a mid prices response
-    if (data != null && typeof data === 'object') {
-      // Handle message where channel is specified (from WebSocket)
-      if ('channel' in data && data.channel === 'allMids' && 'data' in data) {
-        try {
-          // Try to parse using our cleaner for type safety
-          const allMidsData = asAllMids(data.data)
-          const midPrices: Record<string, string> = { ...allMidsData.mids }
-          
-          // Log success for debugging
-          console.log('Successfully processed mid prices:', Object.keys(midPrices).length)
-          
-          // Update the cached prices
-          cachedMidPrices = { ...midPrices }
-          return midPrices
-        } catch (error) {
-          console.error('Error parsing mid prices data with cleaner:', error)
-          
-          // Fallback: try to access the mids directly
-          if (data.data != null && typeof data.data === 'object' && 'mids' in data.data) {
-            try {
-              const midsObj = data.data.mids as Record<string, string>
-              cachedMidPrices = { ...midsObj }
-              console.log('Fallback: processed mid prices directly:', Object.keys(cachedMidPrices).length)
-              return cachedMidPrices
-            } catch (fallbackError) {
-              console.error('Fallback direct access also failed:', fallbackError)
-            }
-          }
-        }
-      } 
-      // Handle direct message format (when testing or replaying data)
-      else if ('mids' in data) {
-        try {
-          const midsObj = data.mids as Record<string, string>
-          cachedMidPrices = { ...midsObj }
-          return cachedMidPrices
-        } catch (directError) {
-          console.error('Error accessing mids directly:', directError)
-        }
-      }
+    accountState = mergeAccountState(accountState, userState)
+    callback(accountState)
+  })
+  
+  // Fetch the REST snapshot, then apply the updates that arrived during the fetch
+  const loadSnapshot = async (): Promise<void> => {
+    snapshotApplied = false
+    const [snapshot, spotSnapshot] = await Promise.all([
+      fetchClearinghouseState(address),
+      fetchSpotClearinghouseState(address).catch(error => {
+        console.error('Error fetching spot state data:', error)
+        return undefined
+      })
+    ])
+    if (closed) return
+    
+    if (snapshot != null) {
+      accountState = mergeAccountState(undefined, snapshot)
+    }
+    if (accountState != null && spotSnapshot != null) {
+      accountState = { ...accountState, spotBalances: spotSnapshot.balances }
     }
     
-    // Return cached prices as fallback
-    return cachedMidPrices
+    // Updates that arrived during the fetch are newer than the snapshot
+    pendingUpdates.forEach(userState => {
+      accountState = mergeAccountState(accountState, userState)
+    })
+    pendingUpdates.length = 0
+    snapshotApplied = true
+    
+    callback(accountState)
+  }
+  
+  // Updates pushed while the socket was down are lost, so start over from a fresh snapshot
+  const unsubscribeReconnect = hyperliquidSocketService.subscribeToReconnect(() => {
+    loadSnapshot().catch(error => {
+      console.error('Error refreshing user state after reconnect:', error)
+    })
+  })
+  
+  const unsubscribe = () => {
+    closed = true
+    unsubscribeReconnect()
+    unsubscribeUserState()
+  }
+  
+  try {
+    await loadSnapshot()
+  } catch (error) {
+    unsubscribe()
+    throw error
+  }
+  
+  return unsubscribe
+}
+
+/**
+ * Keep the user's account state current by polling over REST, for accounts
+ * beyond MAX_STREAMED_USERS. Polls go at background priority, behind the
+ * user's own requests.
+ * @returns A function that stops polling
+ * @throws If the first poll fails
+ */
+export const pollUserState = async (
+  address: string,
+  callback: (accountState: AccountState) => void
+): Promise<() => void> => {
+  let accountState: AccountState | undefined
+  let stopped = false
+  let pollTimeout: ReturnType<typeof setTimeout> | undefined
+  
+  const poll = async (): Promise<void> => {
+    const options = { force: true, priority: 'background' } as const
+    const [snapshot, spotSnapshot] = await Promise.all([
+      fetchUserClearinghouseState(address, options),
+      fetchSpotClearinghouseState(address, options).catch(error => {
+        console.error('Error fetching spot state data:', error)
+        return undefined
+      })
+    ])
+    if (stopped) return
+    
+    // Spot balances that failed to load keep their last known values
+    accountState = mergeAccountState(accountState, snapshot)
+    if (spotSnapshot != null) accountState = { ...accountState, spotBalances: spotSnapshot.balances }
+    callback(accountState)
+  }
+  
+  const scheduleNextPoll = () => {
+    pollTimeout = setTimeout(() => {
+      poll()
+        .catch(error => console.error('Error polling user state:', error))
+        .finally(() => {
+          if (!stopped) scheduleNextPoll()
+        })
+    }, USER_STATE_POLL_INTERVAL)
+  }
+  
+  await poll()
+  scheduleNextPoll()
+  
+  return () => {
+    stopped = true
+    clearTimeout(pollTimeout)
+  }
+}
+
+/**
+ * Keep a user's open orders current. Order updates don't carry trigger details,
+ * so each one, and each reconnect, refetches the full list.
+ * @returns An unsubscribe function
+ */
+export const streamOpenOrders = async (
+  address: string,
+  callback: (orders: FrontendOpenOrder[]) => void
+): Promise<() => void> => {
+  let closed = false
+  
+  const loadOrders = async (): Promise<void> => {
+    const orders = await fetchFrontendOpenOrders(address, { force: true })
+    if (!closed) callback(orders)
+  }
+  const refresh = () => {
+    loadOrders().catch(error => {
+      console.error('Error refreshing open orders:', error)
+    })
+  }
+  
+  const unsubscribeOrders = hyperliquidSocketService.subscribe({ type: 'orderUpdates', user: address }, refresh)
+  const unsubscribeReconnect = hyperliquidSocketService.subscribeToReconnect(refresh)
+  
+  const unsubscribe = () => {
+    closed = true
+    unsubscribeReconnect()
+    unsubscribeOrders()
+  }
+  
+  try {
+    await loadOrders()
   } catch (error) {
-    console.error('Error processing mid prices message:', error)
-    return cachedMidPrices
+    unsubscribe()
+    throw error
   }
+  
+  return unsubscribe
+}
+
+/**
+ * Subscribe to mid price updates from the shared WebSocket
+ * @param coins Only receive prices for these coins; all of them if omitted
+ * @returns An unsubscribe function
+ */
+export const subscribeToMidPrices = async (
+  callback: (prices: Record<string, string>) => void,
+  coins?: string[]
+): Promise<() => void> => {
+  return hyperliquidSocketService.subscribeToMidPrices(callback, coins)
+}
+
+/**
+ * Subscribe to a coin's L2 order book from the shared WebSocket. The first
+ * update is a full snapshot, and every later one replaces it.
+ * @returns An unsubscribe function
+ */
+export const subscribeToL2Book = (coin: string, callback: (book: WsBook) => void): () => void => {
+  return hyperliquidSocketService.subscribe({ type: 'l2Book', coin }, callback)
+}
+
+/**
+ * Make sure the shared WebSocket is connecting or connected
+ */
+export const initializeWebSocket = async (): Promise<void> => {
+  hyperliquidSocketService.connect()
+}
+
+/**
+ * Subscribe to WebSocket connection status changes
+ * @returns An unsubscribe function
+ */
+export const onWebSocketStatusChange = (callback: (status: WebSocketStatus) => void): () => void => {
+  return hyperliquidSocketService.subscribeToConnectionStatus(callback)
+}
+
+/**
+ * Subscribe to every message received on the WebSocket
+ * @returns An unsubscribe function
+ */
+export const onWebSocketMessage = (callback: (timestamp: number) => void): () => void => {
+  return hyperliquidSocketService.subscribeToMessages(callback)
 }
 
 /**
- * Get the current cached mid prices
+ * Get the current REST and WebSocket rate limit budget usage
  */
-export const getCachedMidPrices = (): Record<string, string> => {
-  return { ...cachedMidPrices }
+export const getRateLimitUsage = (): RateLimitUsage => {
+  return hyperliquidSocketService.getRateLimitUsage()
 }
 
 /**
@@ -144,30 +487,86 @@ export const createPingMessage = (): string => {
 }
 
 /**
- * Check if a message is a pong response
+ * Create a post message carrying an info request or signed action.
+ * The server echoes the id back on the matching response.
+ */
+export const createPostMessage = (id: number, request: WsPostRequest): string => {
+  return JSON.stringify({
+    method: 'post',
+    id,
+    request
+  })
+}
+
+// Cleaners for every channel the server can push. Channels without a
+// dedicated cleaner yet are still accepted and passed through unchecked.
+const channelCleaners: Record<string, Cleaner<unknown>> = {
+  allMids: asAllMids,
+  webData2: asWsWebdata2,
+  l2Book: asWsBook,
+  trades: asArray(asWsTrade),
+  candle: asWsCandle,
+  userFills: asWsUserFills,
+  orderUpdates: asArray(asWsOrder),
+  notification: asWsNotification,
+  post: asWsPostResponse,
+  bbo: asUnknown,
+  user: asUnknown,
+  userFundings: asUnknown,
+  userNonFundingLedgerUpdates: asUnknown,
+  activeAssetCtx: asUnknown,
+  activeSpotAssetCtx: asUnknown,
+  activeAssetData: asUnknown,
+  userTwapSliceFills: asUnknown,
+  userTwapHistory: asUnknown
+}
+
+/**
+ * Parse a raw WebSocket message, dispatch on its channel and validate the
+ * payload with that channel's cleaner. Anything that can't be parsed, fails
+ * validation or arrives on an unknown channel comes back as a diagnostic.
  */
-export const isPongMessage = (message: unknown): boolean => {
+export const routeWsMessage = (message: unknown): WsRoutedMessage => {
+  const timestamp = Date.now()
+  const raw = typeof message === 'string' ? message : JSON.stringify(message)
+  
+  let channel: string
+  let data: unknown
   try {
-    const data = typeof message === 'string' ? JSON.parse(message) : message
-    
-    // Check for various forms of pong messages
-    // 1. Direct pong {type: 'pong'}
-    if (data != null && typeof data === 'object' && 'type' in data && data.type === 'pong') {
-      return true
+    ({ channel, data } = asWsChannelMessage(typeof message === 'string' ? JSON.parse(message) : message))
+  } catch (error) {
+    return {
+      type: 'diagnostic',
+      diagnostic: { kind: 'malformed', error: String(error), raw, timestamp }
     }
-    
-    // 2. Channel format {channel: 'pong'}
-    if (data != null && typeof data === 'object' && 'channel' in data && data.channel === 'pong') {
-      return true
+  }
+  
+  try {
+    switch (channel) {
+      case 'pong':
+        return { type: 'pong' }
+      case 'subscriptionResponse':
+        return { type: 'subscriptionResponse', data: asWsSubscriptionResponse(data) }
+      case 'error':
+        return {
+          type: 'diagnostic',
+          diagnostic: { kind: 'serverError', message: asWsError(data), timestamp }
+        }
     }
     
-    // 3. Plain string 'pong'
-    if (data === 'pong') {
-      return true
+    const cleaner = channelCleaners[channel]
+    if (cleaner == null) {
+      return {
+        type: 'diagnostic',
+        diagnostic: { kind: 'unknownChannel', channel, raw, timestamp }
+      }
     }
     
-    return false
-  } catch {
-    return false
+    return { type: 'channel', channel, data: cleaner(data) }
+  } catch (error) {
+    return {
+      type: 'diagnostic',
+      diagnostic: { kind: 'malformed', channel, error: String(error), raw, timestamp }
+    }
   }
 }
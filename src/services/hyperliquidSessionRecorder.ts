@@ -0,0 +1,118 @@
+// Recorder for inbound WebSocket frames, so live sessions can be saved and replayed
+
+import { asRecordedFrame, RecordedFrame } from '../types/hyperliquidTypes'
+
+export interface RecordingState {
+  isRecording: boolean
+  frameCount: number
+}
+
+// Roughly an hour of a busy feed; recording stops when it's reached
+const MAX_FRAMES = 200_000
+
+/**
+ * Singleton recorder. The socket service hands it every inbound frame;
+ * they are kept only while recording.
+ */
+class SessionRecorder {
+  private static instance: SessionRecorder
+  private frames: RecordedFrame[] = []
+  private recording = false
+  
+  // Private constructor for singleton
+  private constructor() {}
+  
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): SessionRecorder {
+    if (SessionRecorder.instance == null) {
+      SessionRecorder.instance = new SessionRecorder()
+    }
+    return SessionRecorder.instance
+  }
+  
+  /**
+   * Start a new recording, discarding the previous one
+   */
+  public start(): void {
+    this.frames = []
+    this.recording = true
+  }
+  
+  public stop(): void {
+    if (!this.recording) return
+    this.recording = false
+  }
+  
+  public isRecording(): boolean {
+    return this.recording
+  }
+  
+  public getFrameCount(): number {
+    return this.frames.length
+  }
+  
+  public getState(): RecordingState {
+    return { isRecording: this.recording, frameCount: this.frames.length }
+  }
+  
+  /**
+   * Store a raw inbound frame if recording. Non-text frames are skipped.
+   */
+  public record(data: unknown): void {
+    if (!this.recording || typeof data !== 'string') return
+    
+    this.frames.push({ t: Date.now(), data })
+    if (this.frames.length >= MAX_FRAMES) {
+      console.log(`Session recording reached ${MAX_FRAMES} frames, stopping`)
+      this.stop()
+    }
+  }
+  
+  /**
+   * Serialize the recording as JSONL, one frame per line
+   */
+  public toJsonl(): string {
+    return this.frames.map(frame => JSON.stringify(frame)).join('\n')
+  }
+}
+
+/**
+ * Save a JSONL recording as a file through the browser
+ */
+export const downloadRecording = (
+  jsonl: string,
+  filename: string = `hyperliquid-session-${new Date().toISOString()}.jsonl`
+): void => {
+  const blob = new Blob([jsonl], { type: 'application/jsonl' })
+  const url = URL.createObjectURL(blob)
+  
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Parse a JSONL recording, e.g. the contents of a downloaded session file
+ * @throws If a line isn't a valid frame
+ */
+export const parseRecording = (text: string): RecordedFrame[] => {
+  return text
+    .split('\n')
+    .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+    .filter(({ line }) => line !== '')
+    .map(({ line, lineNumber }) => {
+      try {
+        return asRecordedFrame(JSON.parse(line))
+      } catch (error) {
+        throw new Error(`Invalid frame on line ${lineNumber}: ${String(error)}`)
+      }
+    })
+}
+
+// Export singleton instance
+export const sessionRecorder = SessionRecorder.getInstance()
@@ -0,0 +1,209 @@
+// Signing for /exchange actions. Trading actions ("L1 actions") are hashed
+// with msgpack and signed as an EIP-712 "phantom agent" on chain 1337.
+// Account actions such as approving an agent are "user-signed": plain EIP-712
+// on the wallet's own chain, so only the master wallet can sign them.
+
+import { ethers } from 'ethers'
+import type { ExchangeRequest, ExchangeSignature } from '../types/hyperliquidTypes'
+import { getNetwork } from './hyperliquidNetwork'
+
+// Anything that can sign EIP-712 typed data: a browser wallet's signer or a local key
+export type ExchangeSigner = Pick<ethers.Wallet, '_signTypedData'>
+
+type ExchangeAction = ExchangeRequest['action']
+
+const L1_ACTION_DOMAIN = {
+  name: 'Exchange',
+  version: '1',
+  chainId: 1337,
+  verifyingContract: '0x0000000000000000000000000000000000000000'
+}
+
+const AGENT_TYPES = {
+  Agent: [
+    { name: 'source', type: 'string' },
+    { name: 'connectionId', type: 'bytes32' }
+  ]
+}
+
+const USER_SIGNED_ACTION_DOMAIN = {
+  name: 'HyperliquidSignTransaction',
+  version: '1',
+  verifyingContract: '0x0000000000000000000000000000000000000000'
+}
+
+// EIP-712 fields of a user-signed action, in signing order
+export type UserSignedActionFields = Array<{ name: string, type: string }>
+
+const textEncoder = new TextEncoder()
+
+/**
+ * Encode a value with msgpack the way the exchange does before hashing:
+ * smallest integer and string headers, map keys in insertion order and
+ * undefined fields left out, as they are from the JSON body
+ */
+const encodeMsgpack = (value: unknown, out: number[] = []): number[] => {
+  // A type code followed by a big-endian unsigned or signed integer of the given width
+  const pushUint = (code: number, number: number, bytes: number) => {
+    const view = new DataView(new ArrayBuffer(8))
+    view.setBigUint64(0, BigInt(number))
+    out.push(code, ...new Uint8Array(view.buffer).slice(8 - bytes))
+  }
+  const pushInt = (code: number, number: number, bytes: number) => {
+    const view = new DataView(new ArrayBuffer(8))
+    view.setBigInt64(0, BigInt(number))
+    out.push(code, ...new Uint8Array(view.buffer).slice(8 - bytes))
+  }
+  
+  if (value === null) {
+    out.push(0xc0)
+  } else if (typeof value === 'boolean') {
+    out.push(value ? 0xc3 : 0xc2)
+  } else if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) throw new Error(`Cannot sign non-integer number ${value}; send it as a string`)
+    if (value >= 0) {
+      if (value < 0x80) out.push(value)
+      else if (value < 0x100) pushUint(0xcc, value, 1)
+      else if (value < 0x10000) pushUint(0xcd, value, 2)
+      else if (value < 0x100000000) pushUint(0xce, value, 4)
+      else pushUint(0xcf, value, 8)
+    } else {
+      if (value >= -0x20) out.push(0x100 + value)
+      else if (value >= -0x80) pushInt(0xd0, value, 1)
+      else if (value >= -0x8000) pushInt(0xd1, value, 2)
+      else if (value >= -0x80000000) pushInt(0xd2, value, 4)
+      else pushInt(0xd3, value, 8)
+    }
+  } else if (typeof value === 'string') {
+    const bytes = textEncoder.encode(value)
+    if (bytes.length < 0x20) out.push(0xa0 | bytes.length)
+    else if (bytes.length < 0x100) pushUint(0xd9, bytes.length, 1)
+    else if (bytes.length < 0x10000) pushUint(0xda, bytes.length, 2)
+    else pushUint(0xdb, bytes.length, 4)
+    out.push(...bytes)
+  } else if (Array.isArray(value)) {
+    if (value.length < 0x10) out.push(0x90 | value.length)
+    else if (value.length < 0x10000) pushUint(0xdc, value.length, 2)
+    else pushUint(0xdd, value.length, 4)
+    value.forEach(item => encodeMsgpack(item, out))
+  } else if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>).filter(([, item]) => item !== undefined)
+    if (entries.length < 0x10) out.push(0x80 | entries.length)
+    else if (entries.length < 0x10000) pushUint(0xde, entries.length, 2)
+    else pushUint(0xdf, entries.length, 4)
+    entries.forEach(([key, item]) => {
+      encodeMsgpack(key, out)
+      encodeMsgpack(item, out)
+    })
+  } else {
+    throw new Error(`Cannot sign a value of type ${typeof value}`)
+  }
+  
+  return out
+}
+
+/**
+ * Hash of an L1 action as the exchange computes it: msgpack of the action,
+ * then the nonce, the vault address and the expiry
+ */
+export const getL1ActionHash = (
+  action: ExchangeAction,
+  nonce: number,
+  vaultAddress?: string | null,
+  expiresAfter?: number
+): string => {
+  const bytes = encodeMsgpack(action)
+  
+  const nonceView = new DataView(new ArrayBuffer(8))
+  nonceView.setBigUint64(0, BigInt(nonce))
+  bytes.push(...new Uint8Array(nonceView.buffer))
+  
+  if (vaultAddress == null) {
+    bytes.push(0x00)
+  } else {
+    bytes.push(0x01, ...ethers.utils.arrayify(vaultAddress.toLowerCase()))
+  }
+  
+  if (expiresAfter != null) {
+    const expiryView = new DataView(new ArrayBuffer(8))
+    expiryView.setBigUint64(0, BigInt(expiresAfter))
+    bytes.push(0x00, ...new Uint8Array(expiryView.buffer))
+  }
+  
+  return ethers.utils.keccak256(Uint8Array.from(bytes))
+}
+
+/**
+ * Mainnet and testnet sign with different agent sources, so a signature for one
+ * can't be replayed on the other. Custom networks are assumed to be testnet-like mocks.
+ */
+export const isMainnet = (): boolean => getNetwork().id === 'mainnet'
+
+/**
+ * The `hyperliquidChain` field of user-signed actions
+ */
+export const getHyperliquidChain = (): 'Mainnet' | 'Testnet' => isMainnet() ? 'Mainnet' : 'Testnet'
+
+// Nonces must be unique per signer, so two actions in the same millisecond get consecutive ones
+let lastNonce = 0
+
+/**
+ * A fresh nonce: the current time in ms, bumped past the last one handed out
+ */
+export const getNextNonce = (): number => {
+  lastNonce = Math.max(Date.now(), lastNonce + 1)
+  return lastNonce
+}
+
+/**
+ * Sign an L1 action (orders, cancels, leverage and the like)
+ * @param signer An agent key; browser wallets refuse typed data for chain 1337 while on another chain
+ */
+export const signL1Action = async (
+  signer: ExchangeSigner,
+  action: ExchangeAction,
+  nonce: number,
+  vaultAddress?: string | null,
+  expiresAfter?: number
+): Promise<ExchangeSignature> => {
+  const phantomAgent = {
+    source: isMainnet() ? 'a' : 'b',
+    connectionId: getL1ActionHash(action, nonce, vaultAddress, expiresAfter)
+  }
+  
+  const signature = await signer._signTypedData(L1_ACTION_DOMAIN, AGENT_TYPES, phantomAgent)
+  const { r, s, v } = ethers.utils.splitSignature(signature)
+  return { r, s, v }
+}
+
+/**
+ * Sign an L1 action and wrap it in an /exchange request body
+ * @param vaultAddress Sub-account or vault to act for, if not the signer's own account
+ */
+export const createL1ActionRequest = async (
+  signer: ExchangeSigner,
+  action: ExchangeAction,
+  vaultAddress?: string
+): Promise<ExchangeRequest> => {
+  const nonce = getNextNonce()
+  const signature = await signL1Action(signer, action, nonce, vaultAddress)
+  return { action, nonce, signature, vaultAddress: vaultAddress ?? null }
+}
+
+/**
+ * Sign a user-signed action. The domain's chain id is the action's
+ * `signatureChainId`, which must be the chain the wallet is on.
+ * @param primaryType e.g. 'HyperliquidTransaction:ApproveAgent'
+ * @param fields The action fields covered by the signature
+ */
+export const signUserSignedAction = async (
+  signer: ExchangeSigner,
+  action: ExchangeAction & { signatureChainId: string },
+  primaryType: string,
+  fields: UserSignedActionFields
+): Promise<ExchangeSignature> => {
+  const domain = { ...USER_SIGNED_ACTION_DOMAIN, chainId: parseInt(action.signatureChainId, 16) }
+  const signature = await signer._signTypedData(domain, { [primaryType]: fields }, action)
+  const { r, s, v } = ethers.utils.splitSignature(signature)
+  return { r, s, v }
+}
@@ -0,0 +1,156 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import type { LeaderElectedPort } from './hyperliquidSocketLeader'
+import type { SocketWorkerCommand, SocketWorkerEvent } from '../workers/socketWorkerProtocol'
+
+// Delivers to every other channel of the same name, like tabs of one origin
+class FakeBroadcastChannel {
+  static channels = new Set<FakeBroadcastChannel>()
+  onmessage: ((event: { data: unknown }) => void) | null = null
+  
+  constructor(readonly name: string) {
+    FakeBroadcastChannel.channels.add(this)
+  }
+  
+  postMessage(data: unknown): void {
+    if (!FakeBroadcastChannel.channels.has(this)) return
+    FakeBroadcastChannel.channels.forEach(channel => {
+      if (channel !== this && channel.name === this.name) queueMicrotask(() => channel.onmessage?.({ data }))
+    })
+  }
+  
+  close(): void {
+    FakeBroadcastChannel.channels.delete(this)
+  }
+}
+
+class FakeMessagePort {
+  other!: FakeMessagePort
+  onmessage: ((event: { data: unknown }) => void) | null = null
+  
+  postMessage(data: unknown): void {
+    queueMicrotask(() => this.other.onmessage?.({ data }))
+  }
+  
+  close(): void {}
+}
+
+class FakeMessageChannel {
+  port1 = new FakeMessagePort()
+  port2 = new FakeMessagePort()
+  
+  constructor() {
+    this.port1.other = this.port2
+    this.port2.other = this.port1
+  }
+}
+
+// Stands in for the socket worker, recording its own tab's commands and the ports of the others
+class FakeWorker {
+  static instances: FakeWorker[] = []
+  sent: SocketWorkerCommand[] = []
+  tabs: FakeMessagePort[] = []
+  terminated = false
+  onmessage: ((event: { data: SocketWorkerEvent }) => void) | null = null
+  
+  constructor() {
+    FakeWorker.instances.push(this)
+  }
+  
+  postMessage(command: SocketWorkerCommand, transfer?: FakeMessagePort[]): void {
+    if (command.type === 'addTab' && transfer != null) {
+      this.tabs.push(transfer[0])
+    } else {
+      this.sent.push(command)
+    }
+  }
+  
+  terminate(): void {
+    this.terminated = true
+  }
+}
+
+const event: SocketWorkerEvent = { type: 'pong', timestamp: 1 }
+
+describe('leader elected worker port', () => {
+  let createPort: () => LeaderElectedPort
+  
+  beforeAll(async () => {
+    vi.useFakeTimers()
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel)
+    vi.stubGlobal('MessageChannel', FakeMessageChannel)
+    
+    const { LeaderElectedPort } = await import('./hyperliquidSocketLeader')
+    createPort = () => new LeaderElectedPort(() => new FakeWorker() as unknown as Worker)
+  })
+  
+  afterAll(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+  
+  it('runs one worker for every tab and hands it over when the leader leaves', async () => {
+    const leader = createPort()
+    leader.postMessage({ type: 'connect' })
+    await vi.advanceTimersByTimeAsync(500)
+    expect(FakeWorker.instances).toHaveLength(1)
+    const [worker] = FakeWorker.instances
+    expect(worker.sent).toEqual([{ type: 'connect' }])
+    
+    // A second tab follows instead of starting its own worker
+    const follower = createPort()
+    const onFollowerEvent = vi.fn()
+    const onHandoff = vi.fn()
+    follower.onmessage = onFollowerEvent
+    follower.onhandoff = onHandoff
+    follower.postMessage({ type: 'subscribeMidPrices', id: 1 })
+    await vi.advanceTimersByTimeAsync(500)
+    expect(FakeWorker.instances).toHaveLength(1)
+    
+    // Its commands reach the worker over a port of its own, and its events come back
+    const tabPort = worker.tabs[0]
+    const onTabCommand = vi.fn()
+    tabPort.onmessage = onTabCommand
+    follower.postMessage({ type: 'subscribeMidPrices', id: 2 })
+    await vi.advanceTimersByTimeAsync(0)
+    expect(onTabCommand).toHaveBeenCalledWith({ data: { type: 'subscribeMidPrices', id: 2 } })
+    
+    tabPort.postMessage(event)
+    await vi.advanceTimersByTimeAsync(0)
+    expect(onFollowerEvent).toHaveBeenCalledWith(expect.objectContaining({ data: event }))
+    
+    // Once the leader leaves, the follower starts a worker and opens its streams again
+    leader.close()
+    await vi.advanceTimersByTimeAsync(500)
+    expect(worker.terminated).toBe(true)
+    expect(FakeWorker.instances).toHaveLength(2)
+    expect(onHandoff).toHaveBeenCalledTimes(1)
+    
+    follower.postMessage({ type: 'connect' })
+    expect(FakeWorker.instances[1].sent).toEqual([{ type: 'connect' }])
+    follower.close()
+  })
+  
+  it('drops a follower that stops answering', async () => {
+    const leader = createPort()
+    await vi.advanceTimersByTimeAsync(500)
+    const worker = FakeWorker.instances[FakeWorker.instances.length - 1]
+    
+    const follower = createPort()
+    await vi.advanceTimersByTimeAsync(500)
+    follower.postMessage({ type: 'connect' })
+    await vi.advanceTimersByTimeAsync(0)
+    const onTabCommand = vi.fn()
+    worker.tabs[0].onmessage = onTabCommand
+    
+    // A crashed tab sends nothing more, not even a leave
+    const [, followerChannel] = FakeBroadcastChannel.channels
+    followerChannel.close()
+    await vi.advanceTimersByTimeAsync(2000)
+    expect(onTabCommand).not.toHaveBeenCalled()
+    
+    await vi.advanceTimersByTimeAsync(3000)
+    expect(onTabCommand).toHaveBeenCalledWith({ data: { type: 'goodbye' } })
+    follower.close()
+    leader.close()
+  })
+})
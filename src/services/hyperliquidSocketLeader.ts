@@ -0,0 +1,253 @@
+// Leader election between tabs, for browsers without a shared worker. One tab,
+// the leader, runs the socket worker; the others send their commands to it over
+// a BroadcastChannel and get their events back the same way, so every tab still
+// shares one socket. When the leader closes or goes quiet, the remaining tabs
+// elect a new one, which starts its own worker, and each tab hands its streams over.
+
+import type { SocketWorkerCommand, SocketWorkerEvent } from '../workers/socketWorkerProtocol'
+
+// Every tab announces itself this often; one not heard from for TAB_TIMEOUT is presumed closed
+const HEARTBEAT_INTERVAL = 1000 // ms
+const TAB_TIMEOUT = 3000 // ms
+
+// How long a claim to lead waits for an existing leader to answer before taking over
+const ELECTION_TIMEOUT = 300 // ms
+
+const CHANNEL_NAME = 'hyperliquid-socket-leader'
+
+// Messages between tabs. When several tabs claim the lead at once, the lowest tab id wins.
+type TabMessage =
+  | { type: 'claim', tabId: string }
+  | { type: 'heartbeat', tabId: string, leaderId: string } // A leader sends its own id as leaderId
+  | { type: 'leave', tabId: string }
+  | { type: 'command', tabId: string, leaderId: string, command: SocketWorkerCommand }
+  | { type: 'event', tabId: string, leaderId: string, event: SocketWorkerEvent } // tabId is the recipient
+
+/**
+ * The part of the worker API the worker client relies on, so a shared worker's
+ * port, a dedicated worker or a leader tab's worker can be used alike
+ */
+export interface SocketWorkerPort {
+  onmessage: ((event: MessageEvent<SocketWorkerEvent>) => void) | null
+  postMessage: (command: SocketWorkerCommand) => void
+}
+
+// A tab the leader serves, over its own port into the leader's worker
+interface Follower {
+  port: MessagePort
+  lastSeen: number
+}
+
+/**
+ * Connects a tab to whichever tab leads, taking the lead itself when there's
+ * none. Commands sent before the first leader is known are held until then.
+ */
+export class LeaderElectedPort implements SocketWorkerPort {
+  public onmessage: ((event: MessageEvent<SocketWorkerEvent>) => void) | null = null
+  
+  // Called when a new leader takes over from an earlier one. Its worker has none
+  // of this tab's streams, so the tab has to open them again.
+  public onhandoff: (() => void) | null = null
+  
+  private readonly tabId = crypto.randomUUID()
+  private readonly channel = new BroadcastChannel(CHANNEL_NAME)
+  private readonly heartbeatInterval: ReturnType<typeof setInterval>
+  private electionTimeout: ReturnType<typeof setTimeout> | null = null
+  private leaderId: string | null = null // Null while electing
+  private leaderLastSeen = 0
+  private hasHadLeader = false
+  private heldCommands: SocketWorkerCommand[] = []
+  
+  // Only set while this tab leads
+  private worker: Worker | null = null
+  private followers = new Map<string, Follower>()
+  
+  constructor(private readonly createWorker: () => Worker) {
+    this.channel.onmessage = (event: MessageEvent<TabMessage>) => this.handleMessage(event.data)
+    this.heartbeatInterval = setInterval(() => this.checkTabs(), HEARTBEAT_INTERVAL)
+    this.startElection()
+  }
+  
+  public postMessage(command: SocketWorkerCommand): void {
+    if (this.worker != null) {
+      this.worker.postMessage(command)
+    } else if (this.leaderId != null) {
+      this.channel.postMessage({ type: 'command', tabId: this.tabId, leaderId: this.leaderId, command })
+    } else {
+      this.heldCommands.push(command)
+    }
+  }
+  
+  /**
+   * Leave, e.g. as the tab closes, so the others don't wait out a timeout to
+   * elect a new leader or drop this tab's streams
+   */
+  public close(): void {
+    clearInterval(this.heartbeatInterval)
+    if (this.electionTimeout != null) clearTimeout(this.electionTimeout)
+    this.post({ type: 'leave', tabId: this.tabId })
+    this.stopLeading()
+    this.channel.close()
+  }
+  
+  private post(message: TabMessage): void {
+    this.channel.postMessage(message)
+  }
+  
+  /**
+   * Claim the lead, and take it unless a leader or a lower claimant answers in time
+   */
+  private startElection(): void {
+    this.leaderId = null
+    if (this.electionTimeout != null) clearTimeout(this.electionTimeout)
+    this.electionTimeout = setTimeout(() => this.lead(), ELECTION_TIMEOUT)
+    this.post({ type: 'claim', tabId: this.tabId })
+  }
+  
+  private lead(): void {
+    this.electionTimeout = null
+    this.worker = this.createWorker()
+    this.worker.onmessage = (event: MessageEvent<SocketWorkerEvent>) => this.onmessage?.(event)
+    this.setLeader(this.tabId)
+    this.announce()
+  }
+  
+  private follow(leaderId: string): void {
+    if (this.electionTimeout != null) clearTimeout(this.electionTimeout)
+    this.electionTimeout = null
+    this.stopLeading()
+    this.setLeader(leaderId)
+  }
+  
+  /**
+   * Send the held commands to the first leader. A later leader gets a handoff
+   * instead, which opens everything still wanted, so the held commands are dropped.
+   */
+  private setLeader(leaderId: string): void {
+    this.leaderId = leaderId
+    this.leaderLastSeen = Date.now()
+    
+    const heldCommands = this.heldCommands
+    this.heldCommands = []
+    if (this.hasHadLeader) {
+      this.onhandoff?.()
+    } else {
+      this.hasHadLeader = true
+      heldCommands.forEach(command => this.postMessage(command))
+    }
+  }
+  
+  private stopLeading(): void {
+    if (this.worker == null) return
+    
+    this.worker.terminate()
+    this.worker = null
+    this.followers.forEach(follower => follower.port.close())
+    this.followers.clear()
+  }
+  
+  private announce(): void {
+    if (this.leaderId != null) this.post({ type: 'heartbeat', tabId: this.tabId, leaderId: this.leaderId })
+  }
+  
+  /**
+   * Announce this tab, and notice a leader or followers that went quiet
+   */
+  private checkTabs(): void {
+    this.announce()
+    
+    const now = Date.now()
+    if (this.worker != null) {
+      this.followers.forEach((follower, tabId) => {
+        if (now - follower.lastSeen > TAB_TIMEOUT) this.dropFollower(tabId)
+      })
+    } else if (this.leaderId != null && now - this.leaderLastSeen > TAB_TIMEOUT) {
+      this.startElection()
+    }
+  }
+  
+  private handleMessage(message: TabMessage): void {
+    switch (message.type) {
+      case 'claim':
+        if (this.worker != null) {
+          // Answer right away, so the claimant follows instead of taking over
+          this.announce()
+        } else if (this.leaderId == null) {
+          if (message.tabId < this.tabId) {
+            // Yield, and claim again only if the lower claimant never leads
+            if (this.electionTimeout != null) clearTimeout(this.electionTimeout)
+            this.electionTimeout = setTimeout(() => this.startElection(), TAB_TIMEOUT)
+          } else {
+            this.post({ type: 'claim', tabId: this.tabId })
+          }
+        }
+        break
+      
+      case 'heartbeat':
+        if (message.tabId !== message.leaderId) {
+          const follower = message.leaderId === this.tabId ? this.followers.get(message.tabId) : undefined
+          if (follower != null) follower.lastSeen = Date.now()
+        } else if (message.tabId === this.leaderId) {
+          this.leaderLastSeen = Date.now()
+        } else if (this.leaderId == null || message.tabId < this.leaderId) {
+          // Two leaders can come out of a close election; the higher one steps down
+          this.follow(message.tabId)
+        }
+        break
+      
+      case 'leave':
+        if (message.tabId === this.leaderId) {
+          this.startElection()
+        } else {
+          this.dropFollower(message.tabId)
+        }
+        break
+      
+      case 'command':
+        if (this.worker != null && message.leaderId === this.tabId) {
+          this.getFollower(this.worker, message.tabId).port.postMessage(message.command)
+        }
+        break
+      
+      case 'event':
+        if (message.tabId === this.tabId && message.leaderId === this.leaderId) {
+          this.onmessage?.(new MessageEvent('message', { data: message.event }))
+        }
+        break
+    }
+  }
+  
+  /**
+   * Get the port serving a follower, passing the worker a new one the first time
+   */
+  private getFollower(worker: Worker, tabId: string): Follower {
+    const existing = this.followers.get(tabId)
+    if (existing != null) {
+      existing.lastSeen = Date.now()
+      return existing
+    }
+    
+    const channel = new MessageChannel()
+    const addTab: SocketWorkerCommand = { type: 'addTab' }
+    worker.postMessage(addTab, [channel.port1])
+    channel.port2.onmessage = (event: MessageEvent<SocketWorkerEvent>) => {
+      this.post({ type: 'event', tabId, leaderId: this.tabId, event: event.data })
+    }
+    
+    const follower: Follower = { port: channel.port2, lastSeen: Date.now() }
+    this.followers.set(tabId, follower)
+    return follower
+  }
+  
+  /**
+   * Have the worker close a follower's streams, and its end of the port, once it's gone
+   */
+  private dropFollower(tabId: string): void {
+    const follower = this.followers.get(tabId)
+    if (follower == null) return
+    
+    const goodbye: SocketWorkerCommand = { type: 'goodbye' }
+    follower.port.postMessage(goodbye)
+    this.followers.delete(tabId)
+  }
+}
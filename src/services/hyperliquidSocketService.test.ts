@@ -0,0 +1,141 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import type { ExchangeRequest } from '../types/hyperliquidTypes'
+
+// Stands in for the browser WebSocket, recording what's sent
+class FakeWebSocket {
+  static readonly CONNECTING = 0
+  static readonly OPEN = 1
+  static readonly CLOSING = 2
+  static readonly CLOSED = 3
+  static instance: FakeWebSocket
+  readyState = FakeWebSocket.CONNECTING
+  sent: Array<{ method: string, id?: number, request?: { type: string } }> = []
+  onopen: (() => void) | null = null
+  onclose: (() => void) | null = null
+  onerror: (() => void) | null = null
+  onmessage: ((event: { data: string }) => void) | null = null
+  
+  constructor() {
+    FakeWebSocket.instance = this
+  }
+  
+  send(message: string): void {
+    this.sent.push(JSON.parse(message))
+  }
+  
+  close(): void {
+    this.readyState = FakeWebSocket.CLOSED
+  }
+  
+  open(): void {
+    this.readyState = FakeWebSocket.OPEN
+    this.onopen?.()
+  }
+  
+  receive(message: unknown): void {
+    this.onmessage?.({ data: JSON.stringify(message) })
+  }
+  
+  posts(type: string) {
+    return this.sent.filter(message => message.method === 'post' && message.request?.type === type)
+  }
+}
+
+const action: ExchangeRequest = {
+  action: { type: 'cancel', cancels: [{ a: 0, o: 1 }] },
+  nonce: 1,
+  signature: { r: '0x1', s: '0x2', v: 27 }
+}
+
+describe('socket service post requests with the message budget used up', () => {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify({ status: 'ok', response: { type: 'cancel' } })))
+  let service: typeof import('./hyperliquidSocketService').hyperliquidSocketService
+  let requestScheduler: typeof import('./hyperliquidRateLimiter').requestScheduler
+  
+  // Spend the whole WebSocket message budget
+  const useUpBudget = () => {
+    for (let i = 0; i < 2000; i++) requestScheduler.scheduleWsMessage(() => {})
+  }
+  
+  beforeAll(async () => {
+    vi.useFakeTimers()
+    vi.stubGlobal('WebSocket', FakeWebSocket)
+    vi.stubGlobal('fetch', fetchMock)
+    
+    service = (await import('./hyperliquidSocketService')).hyperliquidSocketService
+    requestScheduler = (await import('./hyperliquidRateLimiter')).requestScheduler
+    
+    // Keep the watchdog from replacing the socket while the test waits out the budget
+    service.setStaleTimeout(600_000)
+    service.connect()
+    FakeWebSocket.instance.open()
+  })
+  
+  afterAll(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+  
+  it('sends an action over HTTP instead of queueing it behind the budget', async () => {
+    useUpBudget()
+    await expect(service.post({ type: 'action', payload: action })).resolves.toEqual({ status: 'ok', response: { type: 'cancel' } })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    
+    await vi.advanceTimersByTimeAsync(61_000)
+    expect(FakeWebSocket.instance.posts('action')).toHaveLength(0)
+  })
+  
+  it('times an info request from when it goes out, not while it waits for the budget', async () => {
+    fetchMock.mockClear()
+    useUpBudget()
+    const response = service.post({ type: 'info', payload: { type: 'meta' } })
+    
+    // Well past the post timeout, but still waiting on the budget, so not sent yet
+    await vi.advanceTimersByTimeAsync(15_000)
+    expect(FakeWebSocket.instance.posts('info')).toHaveLength(0)
+    expect(fetchMock).not.toHaveBeenCalled()
+    
+    await vi.advanceTimersByTimeAsync(50_000)
+    const [sent] = FakeWebSocket.instance.posts('info')
+    expect(sent).toBeDefined()
+    
+    FakeWebSocket.instance.receive({
+      channel: 'post',
+      data: { id: sent.id, response: { type: 'info', payload: { type: 'meta', data: { universe: [] } } } }
+    })
+    await expect(response).resolves.toEqual({ universe: [] })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
+
+describe('socket service routing of user channels', () => {
+  let service: typeof import('./hyperliquidSocketService').hyperliquidSocketService
+  let matchesSubscription: typeof import('./hyperliquidService').matchesSubscription
+  
+  beforeAll(async () => {
+    vi.stubGlobal('WebSocket', FakeWebSocket)
+    service = (await import('./hyperliquidSocketService')).hyperliquidSocketService
+    matchesSubscription = (await import('./hyperliquidService')).matchesSubscription
+  })
+  
+  afterAll(() => {
+    vi.unstubAllGlobals()
+  })
+  
+  it('delivers user data only to the subscription of the user it names', () => {
+    const fills = { isSnapshot: false, user: '0xAbC', fills: [] }
+    expect(matchesSubscription({ type: 'userFills', user: '0xabc' }, 'userFills', fills)).toBe(true)
+    expect(matchesSubscription({ type: 'userFills', user: '0xdef' }, 'userFills', fills)).toBe(false)
+    expect(matchesSubscription({ type: 'userFills', user: '0xabc' }, 'userFills', { isSnapshot: false, fills: [] })).toBe(false)
+  })
+  
+  it('streams updates that name no user for one user at a time', () => {
+    const unsubscribe = service.subscribe({ type: 'orderUpdates', user: '0xabc' }, () => {})
+    expect(() => service.subscribe({ type: 'orderUpdates', user: '0xdef' }, () => {})).toThrow(/two users/)
+    
+    // The same user can share the stream, and another user can have it once it's free
+    service.subscribe({ type: 'orderUpdates', user: '0xABC' }, () => {})()
+    unsubscribe()
+    service.subscribe({ type: 'orderUpdates', user: '0xdef' }, () => {})()
+  })
+})
@@ -2,50 +2,120 @@
 import { EventEmitter } from 'events'
 import {
   getHyperliquidWebSocketUrl,
-  createMidPricesSubscription,
-  processMidPricesMessage,
+  createSubscriptionMessage,
+  getSubscriptionKey,
+  matchesSubscription,
+  routeWsMessage,
+  unattributedUserSubscriptions,
   createPingMessage,
-  isPongMessage
+  createPostMessage,
+  streamUserState
 } from './hyperliquidService'
+import { NetworkConfig, subscribeToNetworkChange } from './hyperliquidNetwork'
+import { requestScheduler, RequestPriority, RateLimitUsage } from './hyperliquidRateLimiter'
+import { fetchInfoOverHttp } from './hyperliquidInfoClient'
+import { postExchangeOverHttp } from './hyperliquidExchangeClient'
+import { sessionRecorder, RecordingState } from './hyperliquidSessionRecorder'
+import { ReplaySocket, SocketTransport } from './hyperliquidReplaySocket'
+import { asWsInfoPostPayload } from '../types/hyperliquidTypes'
+import type {
+  AccountState,
+  AllMids,
+  RecordedFrame,
+  Subscription,
+  SubscriptionData,
+  WsDiagnostic,
+  WsPostRequest,
+  WsPostResponse
+} from '../types/hyperliquidTypes'
 
 // Events that can be emitted by the service
 export enum HyperliquidEvents {
   PRICES_UPDATED = 'prices_updated',
+  SUBSCRIPTION_DATA = 'subscription_data',
+  MESSAGE_RECEIVED = 'message_received',
+  DIAGNOSTIC = 'diagnostic',
   CONNECTION_STATUS_CHANGED = 'connection_status_changed',
+  RECONNECTED = 'reconnected',
   PONG_RECEIVED = 'pong_received'
 }
 
 // Connection status types
 export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'error'
 
+export interface PostOptions {
+  // ms to wait for the response, POST_TIMEOUT by default
+  timeout?: number
+  // Queue priority if the request ends up going over HTTP
+  priority?: RequestPriority
+}
+
+// A post request waiting for its response
+interface PendingPost {
+  request: WsPostRequest
+  priority?: RequestPriority
+  resolve: (value: unknown) => void
+  reject: (error: Error) => void
+  timeout?: NodeJS.Timeout // Started once the request is sent
+}
+
 /**
  * Singleton service to manage Hyperliquid WebSocket connection
  * Uses event emitter pattern to broadcast updates.
  * 
- * For browser-specific concerns.
+ * In the browser it runs inside the socket worker, see hyperliquidSocketWorkerClient.
  */
 class HyperliquidSocketService {
   private static instance: HyperliquidSocketService
   private emitter: EventEmitter
-  private ws: WebSocket | null = null
+  private ws: SocketTransport | null = null
   private pingInterval: NodeJS.Timeout | null = null
+  private watchdogInterval: NodeJS.Timeout | null = null
   private reconnectTimeout: NodeJS.Timeout | null = null
   private reconnectAttempts: number = 0
-  private readonly MAX_RECONNECT_ATTEMPTS = 10
-  private readonly RECONNECT_INTERVAL = 3000 // ms
+  private readonly RECONNECT_INTERVAL = 1000 // ms, base delay that doubles per attempt
+  private readonly MAX_RECONNECT_DELAY = 30000 // ms
   private readonly PING_INTERVAL = 30000 // ms
+  private readonly WATCHDOG_INTERVAL = 5000 // ms
+  private staleTimeout = 45000 // ms without any message or pong before forcing a reconnect
+  private readonly POST_TIMEOUT = 10000 // ms
+  private readonly MAX_INFLIGHT_POSTS = 100 // Server-side limit per connection
   
   // Status tracking
   private prices: Record<string, string> = {}
   private connectionStatus: ConnectionStatus = 'disconnected'
   private lastPongTime: number | null = null
+  private lastMessageTime: number | null = null
+  private hasConnectedBefore = false
   private listenerCounts: Record<string, number> = {}
   
+  // Active server-side subscriptions, keyed by getSubscriptionKey
+  private subscriptions: Record<string, { subscription: Subscription, refCount: number }> = {}
+  
+  // Post requests awaiting a response, keyed by the id sent with them
+  private pendingPosts = new Map<number, PendingPost>()
+  private nextPostId = 1
+  
+  // Recorded session played instead of the live feed, if any
+  private replay: { frames: RecordedFrame[], speed: number } | null = null
+  
   // Private constructor for singleton
   private constructor() {
     this.emitter = new EventEmitter()
     // Increase max listeners to avoid warnings
     this.emitter.setMaxListeners(50)
+    
+    subscribeToNetworkChange(this.handleNetworkChange.bind(this))
+    
+    // Reconnect right away when the browser regains connectivity or focus,
+    // instead of waiting out the backoff delay. Workers get 'online' but not
+    // 'visibilitychange'; the worker client forwards that one via resume().
+    if (typeof globalThis.addEventListener === 'function') {
+      globalThis.addEventListener('online', this.handleOnline.bind(this))
+    }
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange.bind(this))
+    }
   }
   
   /**
@@ -62,8 +132,8 @@ class HyperliquidSocketService {
    * Initialize WebSocket connection if not already connected
    */
   public connect(): void {
-    // Only connect in browser environment
-    if (typeof window === 'undefined') {
+    // Only connect in browser environment (window or worker)
+    if (typeof WebSocket === 'undefined') {
       console.log('Cannot connect WebSocket in server environment')
       return
     }
@@ -79,8 +149,10 @@ class HyperliquidSocketService {
     // Update status
     this.setConnectionStatus('connecting')
     
-    // Create new WebSocket
-    this.ws = new WebSocket(getHyperliquidWebSocketUrl())
+    // Create new WebSocket, or play back the recorded session instead
+    this.ws = this.replay != null
+      ? new ReplaySocket(this.replay.frames, this.replay.speed)
+      : new WebSocket(getHyperliquidWebSocketUrl())
     
     // Set event handlers
     this.ws.onopen = this.handleOpen.bind(this)
@@ -88,7 +160,7 @@ class HyperliquidSocketService {
     this.ws.onerror = this.handleError.bind(this)
     this.ws.onmessage = this.handleMessage.bind(this)
     
-    console.log('Hyperliquid WebSocket connecting...')
+    console.log(this.replay != null ? 'Hyperliquid WebSocket replaying recorded session...' : 'Hyperliquid WebSocket connecting...')
   }
   
   /**
@@ -99,33 +171,93 @@ class HyperliquidSocketService {
       // Clear intervals and timeouts
       this.clearTimers()
       
+      // Detach handlers so the close event of this socket can't affect a newer one
+      this.ws.onopen = null
+      this.ws.onclose = null
+      this.ws.onerror = null
+      this.ws.onmessage = null
+      
       // Only try to close if it's not already closed
       if (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING) {
         this.ws.close()
       }
       
       this.ws = null
+      this.failPendingPosts('WebSocket disconnected')
       this.setConnectionStatus('disconnected')
       console.log('Hyperliquid WebSocket disconnected')
     }
   }
   
   /**
-   * Send message to WebSocket if connected
+   * Reconnect to the new network
+   */
+  private handleNetworkChange(network: NetworkConfig): void {
+    console.log(`Hyperliquid network changed to ${network.label}, reconnecting`)
+    this.switchSource()
+  }
+  
+  /**
+   * Tear down the current socket and connect to the new data source.
+   * Active subscriptions are kept and replayed by handleOpen.
+   */
+  private switchSource(): void {
+    // Prices from the previous source must not leak into the new one
+    this.prices = {}
+    this.reconnectAttempts = 0
+    
+    const wasActive = this.ws != null
+    this.disconnect()
+    if (wasActive || this.hasActiveListeners()) {
+      this.connect()
+    }
+  }
+  
+  /**
+   * Send message to WebSocket if connected. Sending may be deferred by the
+   * rate limit scheduler; messages for a socket that has closed by then are dropped.
    */
-  private sendMessage(message: string): boolean {
+  private sendMessage(message: string, onSent?: () => void): boolean {
     if (this.ws != null && this.ws.readyState === WebSocket.OPEN) {
-      try {
-        this.ws.send(message)
-        return true
-      } catch (error) {
-        console.error('Error sending message to WebSocket:', error)
-        return false
-      }
+      const ws = this.ws
+      requestScheduler.scheduleWsMessage(() => {
+        if (this.writeMessage(ws, message)) onSent?.()
+      })
+      return true
     }
     return false
   }
   
+  /**
+   * Send a message only if the message budget allows it right now
+   * @returns Whether it was sent
+   */
+  private sendMessageNow(message: string): boolean {
+    const ws = this.ws
+    if (ws == null || ws.readyState !== WebSocket.OPEN) return false
+    
+    let isSent = false
+    requestScheduler.trySendWsMessage(() => {
+      isSent = this.writeMessage(ws, message)
+    })
+    return isSent
+  }
+  
+  /**
+   * Write a message to the socket, unless it has since closed or been replaced
+   * @returns Whether it was written
+   */
+  private writeMessage(ws: SocketTransport, message: string): boolean {
+    if (ws !== this.ws || ws.readyState !== WebSocket.OPEN) return false
+    try {
+      ws.send(message)
+      return true
+    } catch (error) {
+      console.error('Error sending message to WebSocket:', error)
+      return false
+    }
+  }
+  
   /**
    * Handle WebSocket open event
    */
@@ -133,12 +265,22 @@ class HyperliquidSocketService {
     console.log('Hyperliquid WebSocket connected')
     this.setConnectionStatus('connected')
     this.reconnectAttempts = 0
+    this.lastMessageTime = Date.now()
     
-    // Subscribe to mid prices
-    this.sendMessage(createMidPricesSubscription())
+    // Replay active subscriptions, which the server drops with the old connection
+    Object.values(this.subscriptions).forEach(({ subscription }) => {
+      this.sendMessage(createSubscriptionMessage(subscription))
+    })
     
-    // Setup ping interval
+    // Setup ping interval and stale feed detection
     this.setupPingInterval()
+    this.setupWatchdog()
+    
+    // Data pushed while we were away is lost, so listeners need fresh snapshots
+    if (this.hasConnectedBefore) {
+      this.emitter.emit(HyperliquidEvents.RECONNECTED, Date.now())
+    }
+    this.hasConnectedBefore = true
   }
   
   /**
@@ -151,19 +293,98 @@ class HyperliquidSocketService {
     // Clear intervals
     this.clearTimers()
     
+    // Responses can't arrive on a new socket
+    this.failPendingPosts('WebSocket closed')
+    
     // Attempt to reconnect if we have listeners
-    if (this.hasActiveListeners() && this.reconnectAttempts < this.MAX_RECONNECT_ATTEMPTS) {
-      this.reconnectAttempts++
-      const delay = this.RECONNECT_INTERVAL * Math.min(2, this.reconnectAttempts / 3)
-      
-      console.log(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}/${this.MAX_RECONNECT_ATTEMPTS})`)
-      
-      this.reconnectTimeout = setTimeout(() => {
-        this.connect()
-      }, delay)
+    this.scheduleReconnect()
+  }
+  
+  /**
+   * Schedule a reconnect with exponential backoff and jitter. Retries forever;
+   * the delay is capped at MAX_RECONNECT_DELAY.
+   */
+  private scheduleReconnect(): void {
+    if (!this.hasActiveListeners() || this.reconnectTimeout != null) return
+    
+    this.reconnectAttempts++
+    const maxDelay = Math.min(this.MAX_RECONNECT_DELAY, this.RECONNECT_INTERVAL * 2 ** (this.reconnectAttempts - 1))
+    // Equal jitter: keep half the delay, randomize the other half so clients don't reconnect in lockstep
+    const delay = Math.round(maxDelay / 2 + Math.random() * maxDelay / 2)
+    
+    console.log(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`)
+    
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null
+      this.connect()
+    }, delay)
+  }
+  
+  /**
+   * Drop the current socket, even if it looks open, and connect again now
+   */
+  private forceReconnect(reason: string): void {
+    console.log(`Forcing Hyperliquid WebSocket reconnect: ${reason}`)
+    this.reconnectAttempts = 0
+    this.disconnect()
+    this.connect()
+  }
+  
+  /**
+   * Skip any pending backoff delay and connect now, unless already connected
+   */
+  private resumeConnection(reason: string): void {
+    if (!this.hasActiveListeners()) return
+    if (this.ws != null && (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING)) return
+    
+    console.log(`Resuming Hyperliquid WebSocket connection: ${reason}`)
+    if (this.reconnectTimeout != null) {
+      clearTimeout(this.reconnectTimeout)
+      this.reconnectTimeout = null
+    }
+    this.reconnectAttempts = 0
+    this.connect()
+  }
+  
+  /**
+   * Handle the browser coming back online
+   */
+  private handleOnline(): void {
+    this.resumeConnection('browser online')
+  }
+  
+  /**
+   * Handle the tab becoming visible again
+   */
+  private handleVisibilityChange(): void {
+    if (document.visibilityState !== 'visible') return
+    this.resume()
+  }
+  
+  /**
+   * Check the connection after the tab becomes visible again. Background tabs
+   * get their timers throttled, so check for a dead feed right away too.
+   */
+  public resume(): void {
+    if (this.isFeedStale()) {
+      this.forceReconnect('feed went stale while the tab was hidden')
+    } else {
+      this.resumeConnection('tab visible')
     }
   }
   
+  /**
+   * True when the socket is open but nothing has arrived within the stale timeout
+   */
+  private isFeedStale(): boolean {
+    return (
+      this.ws != null &&
+      this.ws.readyState === WebSocket.OPEN &&
+      this.lastMessageTime != null &&
+      Date.now() - this.lastMessageTime > this.staleTimeout
+    )
+  }
+  
   /**
    * Handle WebSocket error event
    */
@@ -176,27 +397,166 @@ class HyperliquidSocketService {
    * Handle WebSocket message event
    */
   private handleMessage(event: MessageEvent): void {
-    if (event.data != null) {
-      try {
-        // Check if it's a pong message
-        if (isPongMessage(event.data)) {
-          this.lastPongTime = Date.now()
-          this.emitter.emit(HyperliquidEvents.PONG_RECEIVED, this.lastPongTime)
-          return
+    if (event.data == null) return
+    
+    this.lastMessageTime = Date.now()
+    this.emitter.emit(HyperliquidEvents.MESSAGE_RECEIVED, this.lastMessageTime)
+    
+    // Only live frames are worth recording
+    if (this.replay == null) {
+      sessionRecorder.record(event.data)
+    }
+    
+    const message = routeWsMessage(event.data)
+    switch (message.type) {
+      case 'pong':
+        this.lastPongTime = Date.now()
+        this.emitter.emit(HyperliquidEvents.PONG_RECEIVED, this.lastPongTime)
+        break
+      
+      case 'subscriptionResponse':
+        // Acknowledges a subscribe or unsubscribe; the data follows on its channel
+        break
+      
+      case 'diagnostic':
+        this.emitter.emit(HyperliquidEvents.DIAGNOSTIC, message.diagnostic)
+        break
+      
+      case 'channel': {
+        const { channel, data } = message
+        
+        if (channel === 'post') {
+          this.handlePostResponse(data as WsPostResponse)
+          break
         }
         
-        // Process mid prices message
-        const prices = processMidPricesMessage(event.data)
-        if (Object.keys(prices).length > 0) {
-          this.prices = prices
-          this.emitter.emit(HyperliquidEvents.PRICES_UPDATED, prices)
+        if (channel === 'allMids') {
+          this.prices = { ...(data as AllMids).mids }
+          this.emitter.emit(HyperliquidEvents.PRICES_UPDATED, this.prices)
         }
-      } catch (error) {
-        console.error('Error processing WebSocket message:', error)
+        
+        // Dispatch to every subscription the message belongs to
+        Object.entries(this.subscriptions).forEach(([key, { subscription }]) => {
+          if (matchesSubscription(subscription, channel, data)) {
+            this.emitter.emit(`${HyperliquidEvents.SUBSCRIPTION_DATA}:${key}`, data)
+          }
+        })
+        break
       }
     }
   }
   
+  /**
+   * Settle the pending request a post response belongs to
+   */
+  private handlePostResponse(data: WsPostResponse): void {
+    const pending = this.pendingPosts.get(data.id)
+    // Late responses to requests that already timed out are ignored
+    if (pending == null) return
+    
+    clearTimeout(pending.timeout)
+    this.pendingPosts.delete(data.id)
+    
+    const { type, payload } = data.response
+    if (type === 'error') {
+      pending.reject(new Error(`Post request failed: ${String(payload)}`))
+      return
+    }
+    
+    try {
+      // Info responses wrap the data in { type, data }, action responses match /exchange
+      pending.resolve(type === 'info' ? asWsInfoPostPayload(payload).data : payload)
+    } catch (error) {
+      pending.reject(error instanceof Error ? error : new Error(String(error)))
+    }
+  }
+  
+  /**
+   * Give up on a post request that can no longer be answered over the socket.
+   * Info requests are retried over HTTP. Actions are rejected instead, since
+   * the server may already have executed them and resending could do it twice.
+   */
+  private failPost(id: number, reason: string): void {
+    const pending = this.pendingPosts.get(id)
+    if (pending == null) return
+    
+    clearTimeout(pending.timeout)
+    this.pendingPosts.delete(id)
+    
+    if (pending.request.type === 'info') {
+      this.postOverHttp(pending.request, pending.priority).then(pending.resolve, pending.reject)
+    } else {
+      pending.reject(new Error(`Exchange action outcome unknown (${reason}), check order status before retrying`))
+    }
+  }
+  
+  /**
+   * Fail every pending post request, e.g. when the socket goes away
+   */
+  private failPendingPosts(reason: string): void {
+    Array.from(this.pendingPosts.keys()).forEach(id => this.failPost(id, reason))
+  }
+  
+  /**
+   * Send a post request over HTTP instead
+   */
+  private async postOverHttp(request: WsPostRequest, priority?: RequestPriority): Promise<unknown> {
+    switch (request.type) {
+      case 'info':
+        return await fetchInfoOverHttp(request.payload, priority)
+      case 'action':
+        return await postExchangeOverHttp(request.payload)
+    }
+  }
+  
+  /**
+   * Add a reference to a server-side subscription, subscribing on the first one.
+   * If the socket is still connecting, handleOpen sends it instead.
+   * @returns The subscription key
+   */
+  private retainSubscription(subscription: Subscription): string {
+    const key = getSubscriptionKey(subscription)
+    
+    if (this.subscriptions[key] == null) {
+      this.subscriptions[key] = { subscription, refCount: 0 }
+      this.sendMessage(createSubscriptionMessage(subscription))
+    }
+    this.subscriptions[key].refCount++
+    
+    return key
+  }
+  
+  /**
+   * Updates of an unattributed user subscription can't be told apart by user,
+   * so each type streams for one user at a time
+   * @throws If the subscription's type is already streaming for another user
+   */
+  private checkUnattributedSubscription(subscription: Subscription): void {
+    if (!('user' in subscription) || !unattributedUserSubscriptions.includes(subscription.type)) return
+    
+    const key = getSubscriptionKey(subscription)
+    const isTaken = Object.entries(this.subscriptions).some(([otherKey, { subscription: other }]) =>
+      other.type === subscription.type && otherKey !== key
+    )
+    if (isTaken) {
+      throw new Error(`Can't stream ${subscription.type} for two users at once, as its updates don't say which user they're for`)
+    }
+  }
+  
+  /**
+   * Drop a reference to a server-side subscription, unsubscribing on the last one
+   */
+  private releaseSubscription(key: string): void {
+    const entry = this.subscriptions[key]
+    if (entry == null) return
+    
+    entry.refCount--
+    if (entry.refCount <= 0) {
+      delete this.subscriptions[key]
+      this.sendMessage(createSubscriptionMessage(entry.subscription, 'unsubscribe'))
+    }
+  }
+  
   /**
    * Setup ping interval to keep connection alive
    */
@@ -212,6 +572,21 @@ class HyperliquidSocketService {
     }, this.PING_INTERVAL)
   }
   
+  /**
+   * Setup watchdog that force-reconnects a socket which is open but silent
+   */
+  private setupWatchdog(): void {
+    if (this.watchdogInterval != null) {
+      clearInterval(this.watchdogInterval)
+    }
+    
+    this.watchdogInterval = setInterval(() => {
+      if (this.isFeedStale()) {
+        this.forceReconnect(`no message or pong for over ${this.staleTimeout}ms`)
+      }
+    }, this.WATCHDOG_INTERVAL)
+  }
+  
   /**
    * Clear all timers
    */
@@ -221,6 +596,11 @@ class HyperliquidSocketService {
       this.pingInterval = null
     }
     
+    if (this.watchdogInterval != null) {
+      clearInterval(this.watchdogInterval)
+      this.watchdogInterval = null
+    }
+    
     if (this.reconnectTimeout != null) {
       clearTimeout(this.reconnectTimeout)
       this.reconnectTimeout = null
@@ -241,6 +621,7 @@ class HyperliquidSocketService {
   private hasActiveListeners(): boolean {
     return (
       this.listenerCounts[HyperliquidEvents.PRICES_UPDATED] > 0 ||
+      this.listenerCounts[HyperliquidEvents.SUBSCRIPTION_DATA] > 0 ||
       this.listenerCounts[HyperliquidEvents.CONNECTION_STATUS_CHANGED] > 0
     )
   }
@@ -275,25 +656,147 @@ class HyperliquidSocketService {
   
   /**
    * Subscribe to price updates
+   * @param coins Only pass prices for these coins; all of them if omitted
    * @returns An unsubscribe function
    */
-  public subscribeToMidPrices(callback: (prices: Record<string, string>) => void): () => void {
+  public subscribeToMidPrices(
+    callback: (prices: Record<string, string>) => void,
+    coins?: string[]
+  ): () => void {
+    const listener = coins == null
+      ? callback
+      : (prices: Record<string, string>) => {
+          const picked: Record<string, string> = {}
+          coins.forEach(coin => {
+            if (prices[coin] != null) picked[coin] = prices[coin]
+          })
+          callback(picked)
+        }
+    
     // Add listener
-    this.emitter.on(HyperliquidEvents.PRICES_UPDATED, callback)
+    this.emitter.on(HyperliquidEvents.PRICES_UPDATED, listener)
+    const key = this.retainSubscription({ type: 'allMids' })
     this.trackListenerCount(HyperliquidEvents.PRICES_UPDATED, true)
     
     // Call with current data immediately
     if (Object.keys(this.prices).length > 0) {
-      callback({ ...this.prices })
+      listener({ ...this.prices })
     }
     
     // Return unsubscribe function
     return () => {
-      this.emitter.off(HyperliquidEvents.PRICES_UPDATED, callback)
+      this.emitter.off(HyperliquidEvents.PRICES_UPDATED, listener)
+      this.releaseSubscription(key)
       this.trackListenerCount(HyperliquidEvents.PRICES_UPDATED, false)
     }
   }
   
+  /**
+   * Subscribe to any WebSocket channel. Identical subscriptions share one
+   * server-side subscription, which is unsubscribed when the last listener
+   * leaves and replayed after every reconnect.
+   * @param subscription The subscription payload, e.g. { type: 'l2Book', coin: 'ETH' }
+   * @param callback Called with the cleaned `data` of every matching channel message
+   * @returns An unsubscribe function
+   * @throws If it's an unattributed user subscription already streaming for another user
+   */
+  public subscribe<T extends Subscription>(
+    subscription: T,
+    callback: (data: SubscriptionData<T['type']>) => void
+  ): () => void {
+    this.checkUnattributedSubscription(subscription)
+    const key = this.retainSubscription(subscription)
+    const eventName = `${HyperliquidEvents.SUBSCRIPTION_DATA}:${key}`
+    
+    // Add listener
+    this.emitter.on(eventName, callback)
+    this.trackListenerCount(HyperliquidEvents.SUBSCRIPTION_DATA, true)
+    
+    // Return unsubscribe function
+    return () => {
+      this.emitter.off(eventName, callback)
+      this.releaseSubscription(key)
+      this.trackListenerCount(HyperliquidEvents.SUBSCRIPTION_DATA, false)
+    }
+  }
+  
+  /**
+   * Send an info request or signed action with method 'post' and wait for the
+   * response with the same id. Goes over HTTP instead when the socket isn't
+   * open or the server's limit of in-flight posts is reached, and actions
+   * also when the message budget is used up.
+   * @returns The response payload: the info data, or the /exchange response for actions
+   * @throws If the request fails, or an action's response never arrives
+   */
+  public async post(request: WsPostRequest, options: PostOptions = {}): Promise<unknown> {
+    const { timeout = this.POST_TIMEOUT, priority } = options
+    
+    const isOpen = this.ws != null && this.ws.readyState === WebSocket.OPEN
+    if (!isOpen || this.pendingPosts.size >= this.MAX_INFLIGHT_POSTS) {
+      return await this.postOverHttp(request, priority)
+    }
+    
+    const id = this.nextPostId++
+    const message = createPostMessage(id, request)
+    return await new Promise((resolve, reject) => {
+      const pending: PendingPost = { request, priority, resolve, reject }
+      const startTimeout = () => {
+        pending.timeout = setTimeout(() => this.failPost(id, `no response within ${timeout}ms`), timeout)
+      }
+      this.pendingPosts.set(id, pending)
+      
+      // Time the response from when the request goes out, not while it waits for the message budget
+      if (request.type === 'info') {
+        this.sendMessage(message, startTimeout)
+        return
+      }
+      
+      // An action held back by the budget could be reported as failed and
+      // still go out later, so it's sent now or over HTTP instead
+      if (this.sendMessageNow(message)) {
+        startTimeout()
+        return
+      }
+      this.pendingPosts.delete(id)
+      this.postOverHttp(request, priority).then(resolve, reject)
+    })
+  }
+  
+  /**
+   * Stream the user's merged account state, see streamUserState
+   * @returns An unsubscribe function, once the initial snapshot is applied
+   */
+  public async subscribeToUserState(
+    address: string,
+    callback: (accountState?: AccountState) => void
+  ): Promise<() => void> {
+    return await streamUserState(address, callback)
+  }
+  
+  /**
+   * Subscribe to raw message receipt, e.g. for activity indicators
+   * @returns An unsubscribe function
+   */
+  public subscribeToMessages(callback: (timestamp: number) => void): () => void {
+    this.emitter.on(HyperliquidEvents.MESSAGE_RECEIVED, callback)
+    
+    return () => {
+      this.emitter.off(HyperliquidEvents.MESSAGE_RECEIVED, callback)
+    }
+  }
+  
+  /**
+   * Subscribe to diagnostics: malformed messages, unknown channels and server errors
+   * @returns An unsubscribe function
+   */
+  public subscribeToDiagnostics(callback: (diagnostic: WsDiagnostic) => void): () => void {
+    this.emitter.on(HyperliquidEvents.DIAGNOSTIC, callback)
+    
+    return () => {
+      this.emitter.off(HyperliquidEvents.DIAGNOSTIC, callback)
+    }
+  }
+  
   /**
    * Subscribe to connection status updates
    * @returns An unsubscribe function
@@ -313,6 +816,19 @@ class HyperliquidSocketService {
     }
   }
   
+  /**
+   * Subscribe to reconnects, i.e. every successful open after the first one.
+   * Use it to re-fetch snapshots that may have missed updates while disconnected.
+   * @returns An unsubscribe function
+   */
+  public subscribeToReconnect(callback: (timestamp: number) => void): () => void {
+    this.emitter.on(HyperliquidEvents.RECONNECTED, callback)
+    
+    return () => {
+      this.emitter.off(HyperliquidEvents.RECONNECTED, callback)
+    }
+  }
+  
   /**
    * Subscribe to pong events
    * @returns An unsubscribe function
@@ -332,6 +848,64 @@ class HyperliquidSocketService {
     }
   }
   
+  /**
+   * Play a recorded session instead of the live feed. Frames go through the
+   * same message handling as live ones, so every subscriber sees them.
+   * The recording loops until stopReplay is called.
+   * @param frames Frames of a recording, see parseRecording
+   * @param speed Playback speed multiplier, e.g. 10 plays ten times faster
+   */
+  public startReplay(frames: RecordedFrame[], speed: number = 1): void {
+    if (frames.length === 0) throw new Error('Recording has no frames')
+    if (!(speed > 0)) throw new Error(`Invalid replay speed: ${speed}`)
+    
+    this.replay = { frames, speed }
+    this.switchSource()
+  }
+  
+  /**
+   * Stop replaying and go back to the live feed
+   */
+  public stopReplay(): void {
+    if (this.replay == null) return
+    
+    this.replay = null
+    this.switchSource()
+  }
+  
+  /**
+   * Whether a recorded session is playing instead of the live feed
+   */
+  public isReplaying(): boolean {
+    return this.replay != null
+  }
+  
+  public startRecording(): void {
+    sessionRecorder.start()
+  }
+  
+  public stopRecording(): void {
+    sessionRecorder.stop()
+  }
+  
+  public getRecordingState(): RecordingState {
+    return sessionRecorder.getState()
+  }
+  
+  /**
+   * Get the current recording as JSONL, see downloadRecording
+   */
+  public async exportRecording(): Promise<string> {
+    return sessionRecorder.toJsonl()
+  }
+  
+  /**
+   * Get the current REST and WebSocket rate limit budget usage
+   */
+  public getRateLimitUsage(): RateLimitUsage {
+    return requestScheduler.getUsage()
+  }
+  
   /**
    * Get current prices
    */
@@ -346,6 +920,14 @@ class HyperliquidSocketService {
     return this.connectionStatus
   }
   
+  /**
+   * Set how long the socket may go without any message or pong before the
+   * watchdog considers the feed stale and reconnects. Must exceed the ping interval.
+   */
+  public setStaleTimeout(timeout: number): void {
+    this.staleTimeout = Math.max(timeout, this.PING_INTERVAL + this.WATCHDOG_INTERVAL)
+  }
+  
   /**
    * Get last pong time
    */
@@ -354,5 +936,43 @@ class HyperliquidSocketService {
   }
 }
 
-// Export singleton instance
-export const hyperliquidSocketService = HyperliquidSocketService.getInstance()
+// Public API shared by the in-thread service and the worker client
+export type SocketService = Pick<
+  HyperliquidSocketService,
+  | 'connect'
+  | 'disconnect'
+  | 'resume'
+  | 'post'
+  | 'subscribe'
+  | 'subscribeToMidPrices'
+  | 'subscribeToUserState'
+  | 'subscribeToMessages'
+  | 'subscribeToDiagnostics'
+  | 'subscribeToConnectionStatus'
+  | 'subscribeToReconnect'
+  | 'subscribeToPongEvents'
+  | 'startReplay'
+  | 'stopReplay'
+  | 'isReplaying'
+  | 'startRecording'
+  | 'stopRecording'
+  | 'getRecordingState'
+  | 'exportRecording'
+  | 'getRateLimitUsage'
+  | 'getPrices'
+  | 'getConnectionStatus'
+  | 'setStaleTimeout'
+  | 'getLastPongTime'
+>
+
+// Active service. In the browser, startSocketWorker swaps in the worker
+// client; importers see the change since ES module bindings are live.
+export let hyperliquidSocketService: SocketService = HyperliquidSocketService.getInstance()
+
+/**
+ * Route every socket call through another implementation, e.g. the worker client.
+ * Must be called before anything subscribes.
+ */
+export const setSocketService = (service: SocketService): void => {
+  hyperliquidSocketService = service
+}
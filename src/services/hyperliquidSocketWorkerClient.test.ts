@@ -0,0 +1,150 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import type { SocketService } from './hyperliquidSocketService'
+import type { ExchangeRequest } from '../types/hyperliquidTypes'
+import type { SocketWorkerCommand, SocketWorkerEvent } from '../workers/socketWorkerProtocol'
+
+// Delivers to every other channel of the same name, like tabs of one origin
+class FakeBroadcastChannel {
+  static channels = new Set<FakeBroadcastChannel>()
+  onmessage: ((event: { data: unknown }) => void) | null = null
+  
+  constructor(readonly name: string) {
+    FakeBroadcastChannel.channels.add(this)
+  }
+  
+  postMessage(data: unknown): void {
+    FakeBroadcastChannel.channels.forEach(channel => {
+      if (channel !== this && channel.name === this.name) queueMicrotask(() => channel.onmessage?.({ data }))
+    })
+  }
+  
+  close(): void {
+    FakeBroadcastChannel.channels.delete(this)
+  }
+}
+
+// Stands in for the dedicated worker, recording commands and replaying events
+class FakeWorker {
+  static instance: FakeWorker
+  sent: SocketWorkerCommand[] = []
+  terminated = false
+  onmessage: ((event: { data: SocketWorkerEvent }) => void) | null = null
+  onerror: unknown = null
+  
+  constructor() {
+    FakeWorker.instance = this
+  }
+  
+  postMessage(command: SocketWorkerCommand): void {
+    this.sent.push(command)
+  }
+  
+  terminate(): void {
+    this.terminated = true
+  }
+  
+  emit(event: SocketWorkerEvent): void {
+    this.onmessage?.({ data: event })
+  }
+  
+  // The id of the latest command of a type
+  lastId(type: 'subscribeUserState' | 'close'): number | undefined {
+    const command = this.sent.filter(command => command.type === type).pop()
+    return command != null && 'id' in command ? command.id : undefined
+  }
+}
+
+const cancel: ExchangeRequest = {
+  action: { type: 'cancel', cancels: [{ a: 0, o: 1 }] },
+  nonce: 1,
+  signature: { r: '0x1', s: '0x2', v: 27 }
+}
+
+describe('socket worker client', () => {
+  let service: SocketService
+  
+  beforeAll(async () => {
+    vi.useFakeTimers()
+    vi.stubGlobal('window', { localStorage: { getItem: () => null, setItem: () => {} }, addEventListener: () => {} })
+    vi.stubGlobal('document', { addEventListener: () => {}, visibilityState: 'visible' })
+    vi.stubGlobal('Worker', FakeWorker)
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel)
+    
+    const { startSocketWorker } = await import('./hyperliquidSocketWorkerClient')
+    startSocketWorker()
+    service = (await import('./hyperliquidSocketService')).hyperliquidSocketService
+    
+    // The only tab takes the lead and starts the worker
+    await vi.advanceTimersByTimeAsync(500)
+  })
+  
+  afterAll(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+  
+  it('resolves a user state subscription when the worker answers it', async () => {
+    const subscribed = service.subscribeToUserState('0xabc', () => {})
+    const id = FakeWorker.instance.lastId('subscribeUserState')
+    expect(id).toBeDefined()
+    
+    FakeWorker.instance.emit({ type: 'result', id: id!, value: null })
+    await expect(subscribed).resolves.toBeTypeOf('function')
+  })
+  
+  it('rejects a user state subscription when the worker fails it', async () => {
+    const subscribed = service.subscribeToUserState('0xabc', () => {})
+    const id = FakeWorker.instance.lastId('subscribeUserState')!
+    
+    FakeWorker.instance.emit({ type: 'error', id, message: 'Snapshot failed' })
+    await expect(subscribed).rejects.toThrow('Snapshot failed')
+  })
+  
+  it('stops the stream once unsubscribed', async () => {
+    const callback = vi.fn()
+    const subscribed = service.subscribeToUserState('0xabc', callback)
+    const id = FakeWorker.instance.lastId('subscribeUserState')!
+    FakeWorker.instance.emit({ type: 'result', id, value: null })
+    const unsubscribe = await subscribed
+    
+    FakeWorker.instance.emit({ type: 'stream', id, data: null })
+    expect(callback).toHaveBeenCalledTimes(1)
+    
+    unsubscribe()
+    expect(FakeWorker.instance.lastId('close')).toBe(id)
+    
+    FakeWorker.instance.emit({ type: 'stream', id, data: null })
+    expect(callback).toHaveBeenCalledTimes(1)
+  })
+  
+  it('opens its streams again in the worker of a tab that takes over the lead', async () => {
+    service.connect()
+    const closeStream = service.subscribe({ type: 'l2Book', coin: 'BTC' }, () => {})
+    service.subscribe({ type: 'trades', coin: 'ETH' }, () => {})()
+    void service.post({ type: 'info', payload: { type: 'meta' } })
+    // An action may already have gone out from the old worker, so it fails rather than going out twice
+    const actionFailed = expect(service.post({ type: 'action', payload: cancel })).rejects.toThrow(/outcome unknown/)
+    
+    // Another tab, with a lower id, is leading as well; this one steps down
+    const otherTab = new FakeBroadcastChannel('hyperliquid-socket-leader')
+    const commands: SocketWorkerCommand[] = []
+    otherTab.onmessage = ({ data }) => {
+      const message = data as { type: string, leaderId?: string, command?: SocketWorkerCommand }
+      if (message.type === 'command' && message.leaderId === '0' && message.command != null) commands.push(message.command)
+    }
+    otherTab.postMessage({ type: 'heartbeat', tabId: '0', leaderId: '0' })
+    await vi.advanceTimersByTimeAsync(0)
+    
+    expect(FakeWorker.instance.terminated).toBe(true)
+    expect(commands).toContainEqual({ type: 'connect' })
+    expect(commands).toContainEqual(expect.objectContaining({ type: 'subscribe', subscription: { type: 'l2Book', coin: 'BTC' } }))
+    expect(commands).not.toContainEqual(expect.objectContaining({ type: 'subscribe', subscription: { type: 'trades', coin: 'ETH' } }))
+    expect(commands).toContainEqual(expect.objectContaining({ type: 'post', request: { type: 'info', payload: { type: 'meta' } } }))
+    
+    await actionFailed
+    expect(commands).not.toContainEqual(expect.objectContaining({ type: 'post', request: expect.objectContaining({ type: 'action' }) }))
+    
+    closeStream()
+    otherTab.close()
+  })
+})
@@ -0,0 +1,455 @@
+// Main-thread stand-in for the socket service that forwards everything to the
+// socket worker, which every open tab shares
+
+import { EventEmitter } from 'events'
+import {
+  ConnectionStatus,
+  HyperliquidEvents,
+  PostOptions,
+  SocketService,
+  setSocketService
+} from './hyperliquidSocketService'
+import { getNetwork, setNetwork, subscribeToNetworkChange } from './hyperliquidNetwork'
+import type { RateLimitUsage } from './hyperliquidRateLimiter'
+import { LeaderElectedPort, SocketWorkerPort } from './hyperliquidSocketLeader'
+import type { RecordingState } from './hyperliquidSessionRecorder'
+import type {
+  AccountState,
+  RecordedFrame,
+  Subscription,
+  SubscriptionData,
+  WsDiagnostic,
+  WsPostRequest
+} from '../types/hyperliquidTypes'
+import {
+  getTabLockName,
+  SocketWorkerCommand,
+  SocketWorkerEvent,
+  SocketWorkerStats
+} from '../workers/socketWorkerProtocol'
+
+// Until the worker reports in
+const initialStats: SocketWorkerStats = {
+  connectionStatus: 'disconnected',
+  lastMessageTime: null,
+  lastPongTime: null,
+  usage: {
+    restWeightUsed: 0,
+    restWeightLimit: 1200,
+    wsMessagesUsed: 0,
+    wsMessagesLimit: 2000,
+    queuedRequests: 0,
+    backoffUntil: null
+  },
+  recording: { isRecording: false, frameCount: 0 },
+  replaying: false
+}
+
+/**
+ * Connect to the socket worker. A shared worker gives all tabs one socket, so
+ * they see the same prices and spend one rate limit budget; it needs Web Locks
+ * to notice closed tabs. Without either, the tabs elect a leader that runs the
+ * worker for all of them, and only without BroadcastChannel does each tab get its own.
+ */
+const createWorkerPort = (): { port: SocketWorkerPort, shared: boolean } => {
+  if (typeof SharedWorker !== 'undefined' && navigator.locks != null) {
+    const worker = new SharedWorker(
+      new URL('../workers/hyperliquidSocket.worker.ts', import.meta.url),
+      { name: 'hyperliquid-socket' }
+    )
+    worker.onerror = (event) => console.error('Socket worker error:', event)
+    return { port: worker.port, shared: true }
+  }
+  
+  const createWorker = () => {
+    const worker = new Worker(new URL('../workers/hyperliquidSocket.worker.ts', import.meta.url))
+    worker.onerror = (event) => console.error('Socket worker error:', event.message)
+    return worker
+  }
+  if (typeof BroadcastChannel === 'undefined') return { port: createWorker(), shared: false }
+  return { port: new LeaderElectedPort(createWorker), shared: false }
+}
+
+// A request waiting on the worker's answer, with the command that asked, in case it has to be sent again
+interface PendingRequest {
+  command: SocketWorkerCommand
+  resolve: (value: unknown) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Singleton that implements the socket service API on the main thread. The
+ * socket, message parsing, validation and account state merging all run in
+ * the worker, which sends back only coalesced updates.
+ */
+class HyperliquidSocketWorkerClient implements SocketService {
+  private static instance: HyperliquidSocketWorkerClient
+  private port: SocketWorkerPort
+  private emitter: EventEmitter
+  private nextId = 1
+  private stats: SocketWorkerStats = initialStats
+  private prices: Record<string, string> = {}
+  
+  // Handlers for stream data and pending requests, by id
+  private streamHandlers = new Map<number, (data: unknown) => void>()
+  private pendingRequests = new Map<number, PendingRequest>()
+  
+  // What a new leader tab's worker has to be told again, including the commands that opened the open streams
+  private wantsConnection = false
+  private staleTimeout: number | undefined
+  private streamCommands = new Map<number, SocketWorkerCommand>()
+  
+  // Private constructor for singleton
+  private constructor() {
+    this.emitter = new EventEmitter()
+    this.emitter.setMaxListeners(50)
+    
+    const { port, shared } = createWorkerPort()
+    this.port = port
+    this.port.onmessage = (event: MessageEvent<SocketWorkerEvent>) => this.handleEvent(event.data)
+    if (shared) this.holdTabLock()
+    if (port instanceof LeaderElectedPort) {
+      port.onhandoff = () => this.handOff()
+      window.addEventListener('pagehide', () => port.close())
+    }
+    
+    // The worker can't read the saved selection or see network changes itself
+    this.send({ type: 'setNetwork', network: getNetwork() })
+    subscribeToNetworkChange(network => {
+      this.prices = {}
+      this.send({ type: 'setNetwork', network })
+    })
+    
+    // Workers don't get visibility events
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') this.send({ type: 'resume' })
+    })
+  }
+  
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): HyperliquidSocketWorkerClient {
+    if (HyperliquidSocketWorkerClient.instance == null) {
+      HyperliquidSocketWorkerClient.instance = new HyperliquidSocketWorkerClient()
+    }
+    return HyperliquidSocketWorkerClient.instance
+  }
+  
+  /**
+   * Hold a lock for the life of the tab. The shared worker queues for the same
+   * lock, so it's granted the moment this tab closes or crashes and the worker
+   * drops the tab's streams without waiting on a heartbeat.
+   */
+  private holdTabLock(): void {
+    const clientId = crypto.randomUUID()
+    navigator.locks.request(getTabLockName(clientId), async () => {
+      // Introduce ourselves only once the lock is held, or the worker would get it first
+      this.send({ type: 'hello', clientId })
+      await new Promise(() => {})
+    }).catch((error: unknown) => console.error('Socket worker tab lock failed:', error))
+  }
+  
+  private send(command: SocketWorkerCommand): void {
+    this.port.postMessage(command)
+  }
+  
+  /**
+   * Catch up the worker of a new leader tab, which has none of this tab's
+   * streams. Info requests in flight are sent again; other requests fail, as
+   * the old worker may or may not have carried them out.
+   */
+  private handOff(): void {
+    this.prices = {}
+    this.send({ type: 'setNetwork', network: getNetwork() })
+    if (this.staleTimeout != null) this.send({ type: 'setStaleTimeout', timeout: this.staleTimeout })
+    if (this.wantsConnection) this.send({ type: 'connect' })
+    this.streamCommands.forEach(command => this.send(command))
+    
+    this.pendingRequests.forEach(({ command, reject }, id) => {
+      if (this.streamCommands.has(id)) return
+      if (command.type === 'post' && command.request.type === 'info') {
+        this.send(command)
+        return
+      }
+      
+      this.pendingRequests.delete(id)
+      reject(new Error(command.type === 'post'
+        ? 'Exchange action outcome unknown (socket moved to another tab), check order status before retrying'
+        : 'Socket moved to another tab before answering, try again'))
+    })
+  }
+  
+  private handleEvent(event: SocketWorkerEvent): void {
+    switch (event.type) {
+      case 'stream':
+        this.streamHandlers.get(event.id)?.(event.data)
+        break
+      
+      case 'result':
+      case 'error': {
+        const pending = this.pendingRequests.get(event.id)
+        if (pending == null) break
+        this.pendingRequests.delete(event.id)
+        if (event.type === 'result') {
+          pending.resolve(event.value)
+        } else {
+          pending.reject(new Error(event.message))
+        }
+        break
+      }
+      
+      case 'stats': {
+        const previous = this.stats
+        this.stats = event.stats
+        if (event.stats.connectionStatus !== previous.connectionStatus) {
+          this.emitter.emit(HyperliquidEvents.CONNECTION_STATUS_CHANGED, event.stats.connectionStatus)
+        }
+        if (event.stats.lastMessageTime != null && event.stats.lastMessageTime !== previous.lastMessageTime) {
+          this.emitter.emit(HyperliquidEvents.MESSAGE_RECEIVED, event.stats.lastMessageTime)
+        }
+        break
+      }
+      
+      case 'network':
+        // Another tab switched the shared socket to a different network
+        setNetwork(event.network)
+        break
+      
+      case 'reconnected':
+        this.emitter.emit(HyperliquidEvents.RECONNECTED, event.timestamp)
+        break
+      case 'pong':
+        this.emitter.emit(HyperliquidEvents.PONG_RECEIVED, event.timestamp)
+        break
+      case 'diagnostic':
+        this.emitter.emit(HyperliquidEvents.DIAGNOSTIC, event.diagnostic)
+        break
+    }
+  }
+  
+  /**
+   * Open a stream in the worker
+   * @returns A function that closes it
+   */
+  private openStream(open: (id: number) => SocketWorkerCommand, handler: (data: unknown) => void): () => void {
+    const id = this.nextId++
+    const command = open(id)
+    this.streamHandlers.set(id, handler)
+    this.streamCommands.set(id, command)
+    this.send(command)
+    
+    return () => this.closeStream(id)
+  }
+  
+  private closeStream(id: number): void {
+    this.streamHandlers.delete(id)
+    this.streamCommands.delete(id)
+    this.send({ type: 'close', id })
+  }
+  
+  /**
+   * Send a command that the worker answers with a result or an error
+   * @param id Answers are matched on this id; pass a stream's id when the command also opens that stream
+   */
+  private request(command: (id: number) => SocketWorkerCommand, id: number = this.nextId++): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const sent = command(id)
+      this.pendingRequests.set(id, { command: sent, resolve, reject })
+      this.send(sent)
+    })
+  }
+  
+  /**
+   * Subscribe to an event emitted on the main thread
+   */
+  private listen<T>(event: HyperliquidEvents, callback: (value: T) => void): () => void {
+    this.emitter.on(event, callback)
+    return () => {
+      this.emitter.off(event, callback)
+    }
+  }
+  
+  public connect(): void {
+    this.wantsConnection = true
+    this.send({ type: 'connect' })
+  }
+  
+  public disconnect(): void {
+    this.wantsConnection = false
+    this.send({ type: 'disconnect' })
+  }
+  
+  public resume(): void {
+    this.send({ type: 'resume' })
+  }
+  
+  public async post(request: WsPostRequest, options: PostOptions = {}): Promise<unknown> {
+    return await this.request(id => ({ type: 'post', id, request, options }))
+  }
+  
+  public subscribe<T extends Subscription>(
+    subscription: T,
+    callback: (data: SubscriptionData<T['type']>) => void
+  ): () => void {
+    return this.openStream(
+      id => ({ type: 'subscribe', id, subscription }),
+      data => callback(data as SubscriptionData<T['type']>)
+    )
+  }
+  
+  /**
+   * Subscribe to price updates. The worker sends only changed prices, which
+   * are merged here so the callback still gets the full set it asked for.
+   * @param coins Only receive prices for these coins; all of them if omitted
+   */
+  public subscribeToMidPrices(
+    callback: (prices: Record<string, string>) => void,
+    coins?: string[]
+  ): () => void {
+    const prices: Record<string, string> = {}
+    return this.openStream(
+      id => ({ type: 'subscribeMidPrices', id, coins }),
+      data => {
+        const changes = data as Record<string, string>
+        Object.assign(prices, changes)
+        Object.assign(this.prices, changes)
+        callback({ ...prices })
+      }
+    )
+  }
+  
+  public async subscribeToUserState(
+    address: string,
+    callback: (accountState?: AccountState) => void
+  ): Promise<() => void> {
+    const id = this.nextId++
+    this.streamHandlers.set(id, data => callback((data as AccountState | null) ?? undefined))
+    
+    try {
+      // The worker answers on the stream's own id once the snapshot is in
+      await this.request(requestId => {
+        const command: SocketWorkerCommand = { type: 'subscribeUserState', id: requestId, address }
+        this.streamCommands.set(requestId, command)
+        return command
+      }, id)
+    } catch (error) {
+      this.streamHandlers.delete(id)
+      this.streamCommands.delete(id)
+      throw error
+    }
+    
+    return () => this.closeStream(id)
+  }
+  
+  public subscribeToMessages(callback: (timestamp: number) => void): () => void {
+    return this.listen(HyperliquidEvents.MESSAGE_RECEIVED, callback)
+  }
+  
+  public subscribeToDiagnostics(callback: (diagnostic: WsDiagnostic) => void): () => void {
+    return this.listen(HyperliquidEvents.DIAGNOSTIC, callback)
+  }
+  
+  public subscribeToConnectionStatus(callback: (status: ConnectionStatus) => void): () => void {
+    const unsubscribe = this.listen(HyperliquidEvents.CONNECTION_STATUS_CHANGED, callback)
+    const closeStream = this.openStream(id => ({ type: 'subscribeConnectionStatus', id }), () => {})
+    
+    // Call with current status immediately
+    callback(this.stats.connectionStatus)
+    
+    return () => {
+      unsubscribe()
+      closeStream()
+    }
+  }
+  
+  public subscribeToReconnect(callback: (timestamp: number) => void): () => void {
+    return this.listen(HyperliquidEvents.RECONNECTED, callback)
+  }
+  
+  public subscribeToPongEvents(callback: (timestamp: number) => void): () => void {
+    if (this.stats.lastPongTime != null) {
+      callback(this.stats.lastPongTime)
+    }
+    return this.listen(HyperliquidEvents.PONG_RECEIVED, callback)
+  }
+  
+  public startReplay(frames: RecordedFrame[], speed: number = 1): void {
+    if (frames.length === 0) throw new Error('Recording has no frames')
+    if (!(speed > 0)) throw new Error(`Invalid replay speed: ${speed}`)
+    
+    this.prices = {}
+    this.stats = { ...this.stats, replaying: true }
+    this.send({ type: 'startReplay', frames, speed })
+  }
+  
+  public stopReplay(): void {
+    this.prices = {}
+    this.stats = { ...this.stats, replaying: false }
+    this.send({ type: 'stopReplay' })
+  }
+  
+  public isReplaying(): boolean {
+    return this.stats.replaying
+  }
+  
+  public startRecording(): void {
+    this.stats = { ...this.stats, recording: { isRecording: true, frameCount: 0 } }
+    this.send({ type: 'startRecording' })
+  }
+  
+  public stopRecording(): void {
+    this.stats = { ...this.stats, recording: { ...this.stats.recording, isRecording: false } }
+    this.send({ type: 'stopRecording' })
+  }
+  
+  public getRecordingState(): RecordingState {
+    return this.stats.recording
+  }
+  
+  public async exportRecording(): Promise<string> {
+    return String(await this.request(id => ({ type: 'exportRecording', id })))
+  }
+  
+  /**
+   * Rate limit usage as of the last stats update from the worker
+   */
+  public getRateLimitUsage(): RateLimitUsage {
+    return this.stats.usage
+  }
+  
+  /**
+   * Latest prices of the coins any subscriber asked for
+   */
+  public getPrices(): Record<string, string> {
+    return { ...this.prices }
+  }
+  
+  public getConnectionStatus(): ConnectionStatus {
+    return this.stats.connectionStatus
+  }
+  
+  public setStaleTimeout(timeout: number): void {
+    this.staleTimeout = timeout
+    this.send({ type: 'setStaleTimeout', timeout })
+  }
+  
+  public getLastPongTime(): number | null {
+    return this.stats.lastPongTime
+  }
+}
+
+/**
+ * Move the socket into a worker and route every socket service call there.
+ * Does nothing outside the browser or where workers aren't supported.
+ */
+export const startSocketWorker = (): void => {
+  if (typeof window === 'undefined' || typeof Worker === 'undefined') return
+  
+  try {
+    setSocketService(HyperliquidSocketWorkerClient.getInstance())
+  } catch (error) {
+    // Keep the in-thread service, which works the same, only on the main thread
+    console.error('Could not start the socket worker:', error)
+  }
+}
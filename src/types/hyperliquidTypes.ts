@@ -1,4 +1,4 @@
-import { asArray, asEither, asNull, asNumber, asObject, asOptional, asString } from "cleaners"
+import { asArray, asBoolean, asEither, asNull, asNumber, asObject, asOptional, asString, asTuple, asUnknown, asValue } from "cleaners"
 
 // Common cleaners
 
@@ -96,29 +96,575 @@ export const asFetchedClearinghouseState = asObject({
 })
 export type FetchedClearinghouseState = ReturnType<typeof asFetchedClearinghouseState>
 
+// Info API cleaners
+
+export const asPerpAssetMeta = asObject({
+  name: asString,
+  szDecimals: asNumber,
+  maxLeverage: asNumber,
+  onlyIsolated: asOptional(asBoolean),
+  isDelisted: asOptional(asBoolean)
+})
+export type PerpAssetMeta = ReturnType<typeof asPerpAssetMeta>
+
+// An asset's index in universe is its perp asset id
+export const asFetchedMeta = asObject({
+  universe: asArray(asPerpAssetMeta)
+})
+export type FetchedMeta = ReturnType<typeof asFetchedMeta>
+
+export const asPerpAssetCtx = asObject({
+  dayNtlVlm: asString,
+  funding: asString,
+  impactPxs: asEither(asArray(asString), asNull),
+  markPx: asString,
+  midPx: asEither(asString, asNull),
+  openInterest: asString,
+  oraclePx: asString,
+  premium: asEither(asString, asNull),
+  prevDayPx: asString,
+  dayBaseVlm: asOptional(asString)
+})
+export type PerpAssetCtx = ReturnType<typeof asPerpAssetCtx>
+
+// [meta, contexts], with contexts in the same order as meta.universe
+export const asFetchedMetaAndAssetCtxs = asTuple(asFetchedMeta, asArray(asPerpAssetCtx))
+export type FetchedMetaAndAssetCtxs = ReturnType<typeof asFetchedMetaAndAssetCtxs>
+
+export const asSpotToken = asObject({
+  name: asString,
+  szDecimals: asNumber,
+  weiDecimals: asNumber,
+  index: asNumber,
+  tokenId: asString,
+  isCanonical: asBoolean,
+  fullName: asOptional(asEither(asString, asNull))
+})
+export type SpotToken = ReturnType<typeof asSpotToken>
+
+// Spot pairs are quoted in the WebSocket and mids as @{index}, except PURR/USDC
+export const asSpotPair = asObject({
+  name: asString,
+  tokens: asTuple(asNumber, asNumber), // [base token index, quote token index]
+  index: asNumber,
+  isCanonical: asBoolean
+})
+export type SpotPair = ReturnType<typeof asSpotPair>
+
+export const asFetchedSpotMeta = asObject({
+  universe: asArray(asSpotPair),
+  tokens: asArray(asSpotToken)
+})
+export type FetchedSpotMeta = ReturnType<typeof asFetchedSpotMeta>
+
+export const asSpotBalance = asObject({
+  coin: asString,
+  token: asNumber,
+  hold: asString,
+  total: asString,
+  entryNtl: asString
+})
+export type SpotBalance = ReturnType<typeof asSpotBalance>
+
+export const asFetchedSpotClearinghouseState = asObject({
+  balances: asArray(asSpotBalance)
+})
+export type FetchedSpotClearinghouseState = ReturnType<typeof asFetchedSpotClearinghouseState>
+
+export const asOpenOrder = asObject({
+  coin: asString,
+  side: asString, // 'B' = bid/buy, 'A' = ask/sell
+  limitPx: asString,
+  sz: asString,
+  oid: asNumber,
+  timestamp: asNumber,
+  origSz: asOptional(asString),
+  cloid: asOptional(asEither(asString, asNull))
+})
+export type OpenOrder = ReturnType<typeof asOpenOrder>
+
+export const asFrontendOpenOrder = asObject({
+  coin: asString,
+  side: asString,
+  limitPx: asString,
+  sz: asString,
+  oid: asNumber,
+  timestamp: asNumber,
+  origSz: asString,
+  orderType: asString, // 'Limit' | 'Market' | 'Stop Market' | 'Take Profit Limit' | ...
+  reduceOnly: asBoolean,
+  isTrigger: asBoolean,
+  isPositionTpsl: asBoolean,
+  triggerCondition: asString, // 'N/A' for non-trigger orders
+  triggerPx: asString,
+  tif: asOptional(asEither(asString, asNull)),
+  cloid: asOptional(asEither(asString, asNull))
+})
+export type FrontendOpenOrder = ReturnType<typeof asFrontendOpenOrder>
+
+export const asHistoricalOrder = asObject({
+  order: asFrontendOpenOrder,
+  status: asString,
+  statusTimestamp: asNumber
+})
+export type HistoricalOrder = ReturnType<typeof asHistoricalOrder>
+
+export const asFetchedOrderStatus = asObject({
+  status: asString, // 'order' or 'unknownOid'
+  order: asOptional(asHistoricalOrder)
+})
+export type FetchedOrderStatus = ReturnType<typeof asFetchedOrderStatus>
+
+export const asUserFunding = asObject({
+  time: asNumber,
+  hash: asString,
+  delta: asObject({
+    type: asString, // 'funding'
+    coin: asString,
+    usdc: asString,
+    szi: asString,
+    fundingRate: asString,
+    nSamples: asOptional(asEither(asNumber, asNull))
+  })
+})
+export type UserFunding = ReturnType<typeof asUserFunding>
+
+export const asFundingHistoryEntry = asObject({
+  coin: asString,
+  fundingRate: asString,
+  premium: asString,
+  time: asNumber
+})
+export type FundingHistoryEntry = ReturnType<typeof asFundingHistoryEntry>
+
+// Rates are fractions, e.g. "0.00035" = 3.5 bps
+export const asFetchedUserFees = asObject({
+  userCrossRate: asString, // Taker rate
+  userAddRate: asString, // Maker rate
+  userSpotCrossRate: asOptional(asString),
+  userSpotAddRate: asOptional(asString),
+  activeReferralDiscount: asOptional(asString),
+  dailyUserVlm: asOptional(asArray(asUnknown))
+})
+export type FetchedUserFees = ReturnType<typeof asFetchedUserFees>
+
+// Sub-accounts and vaults
+
+// Sub-accounts are separate addresses traded by their master's key
+export const asSubAccount = asObject({
+  name: asString,
+  subAccountUser: asString, // The sub-account's address
+  master: asString,
+  clearinghouseState: asOptional(asFetchedClearinghouseState)
+})
+export type SubAccount = ReturnType<typeof asSubAccount>
+
+// null when the user has no sub-accounts
+export const asFetchedSubAccounts = asEither(asArray(asSubAccount), asNull)
+
+// An agent (API) wallet the user has approved to sign trading actions for them
+export const asExtraAgent = asObject({
+  name: asString,
+  address: asString,
+  validUntil: asNumber // Epoch ms after which the agent's signatures are rejected
+})
+export type ExtraAgent = ReturnType<typeof asExtraAgent>
+
+// The user's deposit in a vault
+export const asVaultEquity = asObject({
+  vaultAddress: asString,
+  equity: asString,
+  lockedUntilTimestamp: asOptional(asNumber)
+})
+export type VaultEquity = ReturnType<typeof asVaultEquity>
+
+export const asVaultFollower = asObject({
+  user: asString,
+  vaultEquity: asString,
+  pnl: asString,
+  allTimePnl: asString,
+  daysFollowing: asOptional(asNumber),
+  vaultEntryTime: asOptional(asNumber),
+  lockupUntil: asOptional(asNumber)
+})
+export type VaultFollower = ReturnType<typeof asVaultFollower>
+
+export const asFetchedVaultDetails = asObject({
+  name: asString,
+  vaultAddress: asString,
+  leader: asString,
+  description: asOptional(asString),
+  apr: asNumber, // Fraction, e.g. 0.12 = 12%
+  followerState: asOptional(asEither(asVaultFollower, asNull)), // The requesting user's stake
+  leaderFraction: asOptional(asNumber),
+  leaderCommission: asOptional(asNumber),
+  isClosed: asOptional(asBoolean),
+  allowDeposits: asOptional(asBoolean)
+})
+export type FetchedVaultDetails = ReturnType<typeof asFetchedVaultDetails>
+
+// [timestamp, value] pairs
+const asTimeSeries = asArray(asTuple(asNumber, asString))
+
+export const asPortfolioPeriod = asObject({
+  accountValueHistory: asTimeSeries,
+  pnlHistory: asTimeSeries,
+  vlm: asString
+})
+export type PortfolioPeriod = ReturnType<typeof asPortfolioPeriod>
+
+// [period, data] pairs for 'day', 'week', 'month', 'allTime' and their 'perp*' variants
+export const asFetchedPortfolio = asArray(asTuple(asString, asPortfolioPeriod))
+export type FetchedPortfolio = ReturnType<typeof asFetchedPortfolio>
+
 // WebSocket data cleaners. Subset of FetchedClearinghouseState
 
 export const asWsClearinghouseState = asObject({
   crossMarginSummary: asOptional(asMarginSummary),
+  marginSummary: asOptional(asMarginSummary),
   withdrawable: asOptional(asString),
+  crossMaintenanceMarginUsed: asOptional(asString),
   assetPositions: asOptional(asArray(asAssetPosition))
 })
 export type WsClearinghouseState = ReturnType<typeof asWsClearinghouseState>
 
 export const asWsWebdata2 = asObject({
+  user: asOptional(asString),
   clearinghouseState: asOptional(asWsClearinghouseState),
+  spotState: asOptional(asFetchedSpotClearinghouseState),
   crossMarginSummary: asOptional(asMarginSummary),
+  marginSummary: asOptional(asMarginSummary),
   withdrawable: asOptional(asString),
+  crossMaintenanceMarginUsed: asOptional(asString),
   assetPositions: asOptional(asArray(asAssetPosition))
 })
 export type WsWebdata2 = ReturnType<typeof asWsWebdata2>
 
+// Envelope for channel messages pushed by the WebSocket, e.g.
+// { "channel": "webData2", "data": { "user": "0x...", "clearinghouseState": {...} } }
+export const asWsChannelMessage = asObject({
+  channel: asString,
+  data: asUnknown
+})
+export type WsChannelMessage = ReturnType<typeof asWsChannelMessage>
+
 // Market data cleaners
 export const asAllMids = asObject({
   mids: asObject(asString)
 })
 export type AllMids = ReturnType<typeof asAllMids>
 
+export const asWsLevel = asObject({
+  px: asString,
+  sz: asString,
+  n: asNumber // Number of orders at this level
+})
+export type WsLevel = ReturnType<typeof asWsLevel>
+
+// levels is [bids, asks]
+export const asWsBook = asObject({
+  coin: asString,
+  levels: asTuple(asArray(asWsLevel), asArray(asWsLevel)),
+  time: asNumber
+})
+export type WsBook = ReturnType<typeof asWsBook>
+
+export const asWsTrade = asObject({
+  coin: asString,
+  side: asString, // 'B' = bid/buy, 'A' = ask/sell
+  px: asString,
+  sz: asString,
+  hash: asString,
+  time: asNumber,
+  tid: asNumber,
+  users: asOptional(asTuple(asString, asString)) // [buyer, seller]
+})
+export type WsTrade = ReturnType<typeof asWsTrade>
+
+// {
+//   "t": 1708622340000, "T": 1708622399999, "s": "BTC", "i": "1m",
+//   "o": "51234.0", "c": "51250.0", "h": "51260.0", "l": "51220.0", "v": "12.345", "n": 87
+// }
+export const asWsCandle = asObject({
+  t: asNumber, // Open time
+  T: asNumber, // Close time
+  s: asString, // Coin
+  i: asString, // Interval
+  o: asString,
+  c: asString,
+  h: asString,
+  l: asString,
+  v: asString, // Volume in base units
+  n: asNumber // Number of trades
+})
+export type WsCandle = ReturnType<typeof asWsCandle>
+
+// User data cleaners
+
+export const asWsFill = asObject({
+  coin: asString,
+  px: asString,
+  sz: asString,
+  side: asString,
+  time: asNumber,
+  startPosition: asString,
+  dir: asString, // e.g. 'Open Long', 'Close Short'
+  closedPnl: asString,
+  hash: asString,
+  oid: asNumber,
+  crossed: asBoolean,
+  fee: asString,
+  tid: asNumber,
+  feeToken: asOptional(asString),
+  builderFee: asOptional(asString)
+})
+export type WsFill = ReturnType<typeof asWsFill>
+
+export const asWsUserFills = asObject({
+  isSnapshot: asOptional(asBoolean),
+  user: asString,
+  fills: asArray(asWsFill)
+})
+export type WsUserFills = ReturnType<typeof asWsUserFills>
+
+export const asWsBasicOrder = asObject({
+  coin: asString,
+  side: asString,
+  limitPx: asString,
+  sz: asString,
+  oid: asNumber,
+  timestamp: asNumber,
+  origSz: asString,
+  cloid: asOptional(asString)
+})
+export type WsBasicOrder = ReturnType<typeof asWsBasicOrder>
+
+export const asWsOrder = asObject({
+  order: asWsBasicOrder,
+  status: asString, // 'open' | 'filled' | 'canceled' | 'triggered' | 'rejected' | 'marginCanceled' | ...
+  statusTimestamp: asNumber
+})
+export type WsOrder = ReturnType<typeof asWsOrder>
+
+export const asWsNotification = asObject({
+  notification: asString
+})
+export type WsNotification = ReturnType<typeof asWsNotification>
+
+// Protocol cleaners
+
+// Acknowledges a subscribe or unsubscribe request
+export const asWsSubscriptionResponse = asObject({
+  method: asString,
+  subscription: asUnknown
+})
+export type WsSubscriptionResponse = ReturnType<typeof asWsSubscriptionResponse>
+
+// The server replies on the error channel with a plain message string
+export const asWsError = asString
+
+// Reply to a post request, correlated by the id we sent
+export const asWsPostResponse = asObject({
+  id: asNumber,
+  response: asObject({
+    type: asString, // 'info' | 'action' | 'error'
+    payload: asUnknown // Error message string when type is 'error'
+  })
+})
+export type WsPostResponse = ReturnType<typeof asWsPostResponse>
+
+// Payload of an info post response, e.g. { "type": "l2Book", "data": {...} }
+export const asWsInfoPostPayload = asObject({
+  type: asString,
+  data: asUnknown
+})
+
+// Problems found while routing a message, surfaced to listeners instead of being logged and dropped
+export type WsDiagnostic =
+  | { kind: 'malformed', channel?: string, error: string, raw: string, timestamp: number }
+  | { kind: 'unknownChannel', channel: string, raw: string, timestamp: number }
+  | { kind: 'serverError', message: string, timestamp: number }
+
+// Result of routing one raw WebSocket message
+export type WsRoutedMessage =
+  | { type: 'pong' }
+  | { type: 'subscriptionResponse', data: WsSubscriptionResponse }
+  | { type: 'channel', channel: string, data: unknown } // data has passed the channel's cleaner
+  | { type: 'diagnostic', diagnostic: WsDiagnostic }
+
+// WebSocket subscriptions
+
+export type CandleInterval = '1m' | '3m' | '5m' | '15m' | '30m' | '1h' | '2h' | '4h' | '8h' | '12h' | '1d' | '3d' | '1w' | '1M'
+
+// Subscription payloads accepted by the WebSocket `subscribe` method
+export type Subscription =
+  | { type: 'allMids', dex?: string }
+  | { type: 'notification', user: string }
+  | { type: 'webData2', user: string }
+  | { type: 'candle', coin: string, interval: CandleInterval }
+  | { type: 'l2Book', coin: string, nSigFigs?: number, mantissa?: number }
+  | { type: 'trades', coin: string }
+  | { type: 'bbo', coin: string }
+  | { type: 'orderUpdates', user: string }
+  | { type: 'userEvents', user: string }
+  | { type: 'userFills', user: string, aggregateByTime?: boolean }
+  | { type: 'userFundings', user: string }
+  | { type: 'userNonFundingLedgerUpdates', user: string }
+  | { type: 'activeAssetCtx', coin: string }
+  | { type: 'activeAssetData', user: string, coin: string }
+  | { type: 'userTwapSliceFills', user: string }
+  | { type: 'userTwapHistory', user: string }
+export type SubscriptionType = Subscription['type']
+
+// Cleaned payload delivered to listeners of each subscription type
+export interface SubscriptionDataMap {
+  allMids: AllMids
+  notification: WsNotification
+  webData2: WsWebdata2
+  candle: WsCandle
+  l2Book: WsBook
+  trades: WsTrade[]
+  bbo: unknown
+  orderUpdates: WsOrder[]
+  userEvents: unknown
+  userFills: WsUserFills
+  userFundings: unknown
+  userNonFundingLedgerUpdates: unknown
+  activeAssetCtx: unknown
+  activeAssetData: unknown
+  userTwapSliceFills: unknown
+  userTwapHistory: unknown
+}
+export type SubscriptionData<T extends SubscriptionType> = SubscriptionDataMap[T]
+
+// Info API requests
+
+// Request payloads accepted by the /info endpoint
+export type InfoRequest =
+  | { type: 'clearinghouseState', user: string }
+  | { type: 'meta' }
+  | { type: 'metaAndAssetCtxs' }
+  | { type: 'spotMeta' }
+  | { type: 'spotClearinghouseState', user: string }
+  | { type: 'openOrders', user: string }
+  | { type: 'frontendOpenOrders', user: string }
+  | { type: 'userFills', user: string, aggregateByTime?: boolean }
+  | { type: 'userFillsByTime', user: string, startTime: number, endTime?: number, aggregateByTime?: boolean }
+  | { type: 'userFunding', user: string, startTime: number, endTime?: number }
+  | { type: 'fundingHistory', coin: string, startTime: number, endTime?: number }
+  | { type: 'historicalOrders', user: string }
+  | { type: 'orderStatus', user: string, oid: number | string } // oid or cloid
+  | { type: 'userFees', user: string }
+  | { type: 'portfolio', user: string }
+  | { type: 'subAccounts', user: string }
+  | { type: 'userVaultEquities', user: string }
+  | { type: 'vaultDetails', vaultAddress: string, user?: string }
+  | { type: 'extraAgents', user: string }
+  | { type: 'candleSnapshot', req: { coin: string, interval: CandleInterval, startTime: number, endTime: number } }
+  | { type: 'l2Book', coin: string, nSigFigs?: number, mantissa?: number }
+export type InfoRequestType = InfoRequest['type']
+
+// Session recording
+
+// One inbound WebSocket frame of a recorded session. Recordings are JSONL, one frame per line.
+export const asRecordedFrame = asObject({
+  t: asNumber, // Epoch ms when the frame arrived
+  data: asString // Raw frame text
+})
+export type RecordedFrame = ReturnType<typeof asRecordedFrame>
+
+// Exchange API
+
+export interface ExchangeSignature {
+  r: string
+  s: string
+  v: number
+}
+
+// Signed request body accepted by the /exchange endpoint
+export interface ExchangeRequest {
+  action: { type: string } & Record<string, unknown>
+  nonce: number // Milliseconds timestamp, unique per signer
+  signature: ExchangeSignature
+  vaultAddress?: string | null // Set when trading on behalf of a vault or sub-account
+  expiresAfter?: number
+}
+
+// { "status": "ok", "response": {...} } or { "status": "err", "response": "message" }
+export const asExchangeResponse = asObject({
+  status: asString,
+  response: asUnknown
+})
+export type ExchangeResponse = ReturnType<typeof asExchangeResponse>
+
+// Time in force: good til cancelled, immediate or cancel, or add liquidity only (post-only)
+export type OrderTif = 'Gtc' | 'Ioc' | 'Alo'
+
+// An order in an 'order' action. Key order is part of the signed hash, so keep it.
+export interface OrderWire {
+  a: number // Asset id
+  b: boolean // Buy
+  p: string // Limit price
+  s: string // Size
+  r: boolean // Reduce only
+  t: { limit: { tif: OrderTif } } | { trigger: { isMarket: boolean, triggerPx: string, tpsl: 'tp' | 'sl' } }
+  c?: string // Client order id, 16 bytes hex
+}
+
+// How an 'order' action's orders relate: independent, or TP/SL attached to
+// the first order or to the whole position
+export type OrderGrouping = 'na' | 'normalTpsl' | 'positionTpsl'
+
+// An order replaced in place in a 'batchModify' action
+export interface ModifyWire {
+  oid: number
+  order: OrderWire
+}
+
+// An order cancelled in a 'cancel' action
+export interface CancelWire {
+  a: number // Asset id
+  o: number // Order id
+}
+
+// Outcome of one order in an 'order' action, in the order they were sent
+export const asOrderStatus = asEither(
+  asObject({ resting: asObject({ oid: asNumber }) }),
+  asObject({ filled: asObject({ totalSz: asString, avgPx: asString, oid: asNumber }) }),
+  asObject({ error: asString }),
+  asString // 'waitingForFill' or 'waitingForTrigger'
+)
+export type OrderStatus = ReturnType<typeof asOrderStatus>
+
+// { "type": "order", "data": { "statuses": [...] } }
+export const asOrderResponse = asObject({
+  type: asValue('order'),
+  data: asObject({
+    statuses: asArray(asOrderStatus)
+  })
+})
+export type OrderResponse = ReturnType<typeof asOrderResponse>
+
+// Outcome of one cancel in a 'cancel' action
+export const asCancelStatus = asEither(
+  asValue('success'),
+  asObject({ error: asString })
+)
+export type CancelStatus = ReturnType<typeof asCancelStatus>
+
+// { "type": "cancel", "data": { "statuses": [...] } }
+export const asCancelResponse = asObject({
+  type: asValue('cancel'),
+  data: asObject({
+    statuses: asArray(asCancelStatus)
+  })
+})
+
+// Requests that can be sent over the WebSocket with method 'post'
+export type WsPostRequest =
+  | { type: 'info', payload: InfoRequest }
+  | { type: 'action', payload: ExchangeRequest }
+
 // UI data
 export interface AccountState {
   assetPositions: AssetPosition[],
@@ -126,5 +672,24 @@ export interface AccountState {
   marginSummary?: MarginSummary, // Same structure as crossMarginSummary
   withdrawable?: string,
   crossMaintenanceMarginUsed?: string,
+  spotBalances?: SpotBalance[], // Undefined until the spot state has loaded
   midPrices?: Record<string, string> // Map of coin to mid price
+}
+
+// Vault details from one user's point of view
+export interface VaultSummary {
+  name: string
+  vaultAddress: string
+  leader: string
+  tvl: string // The vault's account value
+  apr: number // Fraction
+  userEquity: string
+  userShare: number // Fraction of the TVL owned by the user
+  lockedUntil?: number // Epoch ms the user's deposit can be withdrawn from
+  isClosed: boolean
+}
+
+// Position in a view combining several accounts
+export interface AccountAssetPosition extends AssetPosition {
+  accounts: string[] // The account holding it, or every account netted into it
 }
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import { add, compare, div, mul, round, roundToTick, sub, toFixed } from './decimal'
+
+describe('round', () => {
+  it('rounds halves away from zero', () => {
+    expect(round('2.5', 0)).toBe('3')
+    expect(round('1.005', 2)).toBe('1.01')
+    expect(round('0.125', 2)).toBe('0.13')
+  })
+  
+  it('rounds negative halves away from zero', () => {
+    expect(round('-2.5', 0)).toBe('-3')
+    expect(round('-1.005', 2)).toBe('-1.01')
+    expect(round('-0.4', 0)).toBe('0')
+  })
+  
+  it('rounds to tens and hundreds with negative decimals', () => {
+    expect(round('1250', -2)).toBe('1300')
+    expect(round('1249.99', -2)).toBe('1200')
+    expect(round('-1250', -2)).toBe('-1300')
+  })
+  
+  it('rounds down and up toward and away from zero', () => {
+    expect(round('1.239', 2, 'down')).toBe('1.23')
+    expect(round('-1.239', 2, 'down')).toBe('-1.23')
+    expect(round('1.231', 2, 'up')).toBe('1.24')
+    expect(round('-1.231', 2, 'up')).toBe('-1.24')
+  })
+  
+  it('leaves values with fewer decimals alone', () => {
+    expect(round('1.5', 4)).toBe('1.5')
+  })
+})
+
+describe('roundToTick', () => {
+  it('rounds to the nearest multiple of the tick', () => {
+    expect(roundToTick('101.26', '0.5')).toBe('101.5')
+    expect(roundToTick('101.24', '0.5')).toBe('101')
+    expect(roundToTick('0.0123', '0.001')).toBe('0.012')
+  })
+  
+  it('honours the rounding mode', () => {
+    expect(roundToTick('101.26', '0.5', 'down')).toBe('101')
+    expect(roundToTick('101.01', '0.5', 'up')).toBe('101.5')
+  })
+  
+  it('rejects a tick that is not positive', () => {
+    expect(() => roundToTick('1', '0')).toThrow('Invalid tick')
+    expect(() => roundToTick('1', '-0.5')).toThrow('Invalid tick')
+  })
+})
+
+describe('div', () => {
+  it('keeps the requested decimals, rounding the last one', () => {
+    expect(div('1', '3', 4)).toBe('0.3333')
+    expect(div('2', '3', 4)).toBe('0.6667')
+    expect(div('-2', '3', 4)).toBe('-0.6667')
+  })
+  
+  it('keeps 18 decimals by default', () => {
+    expect(div('1', '3')).toBe('0.333333333333333333')
+  })
+  
+  it('divides exactly when the quotient fits', () => {
+    expect(div('0.3', '0.1')).toBe('3')
+    expect(div('12345.678', '1000', 2)).toBe('12.35')
+  })
+  
+  it('rejects division by zero', () => {
+    expect(() => div('1', '0')).toThrow('Division by zero')
+  })
+})
+
+describe('toFixed', () => {
+  it('pads to the requested decimals', () => {
+    expect(toFixed('1.5', 3)).toBe('1.500')
+    expect(toFixed('2', 2)).toBe('2.00')
+  })
+  
+  it('rounds where Number.toFixed would not', () => {
+    expect(toFixed('1.005', 2)).toBe('1.01')
+    expect(toFixed('-1.005', 2)).toBe('-1.01')
+  })
+  
+  it('drops the point for zero decimals', () => {
+    expect(toFixed('2.5', 0)).toBe('3')
+  })
+})
+
+describe('arithmetic', () => {
+  it('adds 0.1 and 0.2 exactly', () => {
+    expect(add('0.1', '0.2')).toBe('0.3')
+    expect(add(0.1, 0.2)).toBe('0.3')
+    expect(compare(add('0.1', '0.2'), '0.3')).toBe(0)
+  })
+  
+  it('subtracts and multiplies without float error', () => {
+    expect(sub('0.3', '0.1')).toBe('0.2')
+    expect(mul('1.1', '1.1')).toBe('1.21')
+    expect(mul('-0.5', '0.25')).toBe('-0.125')
+  })
+  
+  it('parses exponents and bare points', () => {
+    expect(add('1e-7', '0')).toBe('0.0000001')
+    expect(add('.5', '2.')).toBe('2.5')
+  })
+})
+
+describe('invalid input', () => {
+  it('rejects strings that are not decimals', () => {
+    expect(() => add('abc', '1')).toThrow('Invalid decimal')
+    expect(() => add('1.2.3', '1')).toThrow('Invalid decimal')
+    expect(() => add('', '1')).toThrow('Invalid decimal')
+    expect(() => add('.', '1')).toThrow('Invalid decimal')
+  })
+  
+  it('rejects numbers that are not finite', () => {
+    expect(() => add(NaN, '1')).toThrow('Invalid decimal')
+    expect(() => add(Infinity, '1')).toThrow('Invalid decimal')
+  })
+})
@@ -0,0 +1,177 @@
+/**
+ * Exact arithmetic on decimal strings, the form the API uses for prices,
+ * sizes and balances. Values are held as scaled BigInts, so sums, products
+ * and rounding never pick up binary float error.
+ */
+
+// A decimal string like '-12.340', or a finite number
+export type DecimalValue = string | number
+
+// How to drop digits: 'down' toward zero, 'up' away from zero,
+// 'halfUp' to the nearest value with ties away from zero
+export type RoundingMode = 'down' | 'up' | 'halfUp'
+
+// Decimals kept by `div` unless told otherwise
+const DEFAULT_DIVISION_DECIMALS = 18
+
+const ZERO = BigInt(0)
+const ONE = BigInt(1)
+const TWO = BigInt(2)
+const TEN = BigInt(10)
+
+// Sign, integer digits, fraction digits and an optional exponent, as in '-1.5', '.5', '2.' or '1e-7'
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i
+
+// value = units / 10^scale
+interface Scaled {
+  units: bigint
+  scale: number
+}
+
+const pow10 = (exponent: number): bigint => TEN ** BigInt(exponent)
+
+const parse = (value: DecimalValue): Scaled => {
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new Error(`Invalid decimal: ${value}`)
+  }
+  
+  const match = DECIMAL_PATTERN.exec(String(value).trim())
+  if (match == null || (match[2] === '' && (match[3] ?? '') === '')) {
+    throw new Error(`Invalid decimal: ${value}`)
+  }
+  
+  const [, sign, whole, fraction = '', exponent = '0'] = match
+  const scale = fraction.length - parseInt(exponent, 10)
+  const digits = BigInt(whole + fraction || '0')
+  const units = scale < 0 ? digits * pow10(-scale) : digits
+  return { units: sign === '-' ? -units : units, scale: Math.max(scale, 0) }
+}
+
+const format = ({ units, scale }: Scaled): string => {
+  const negative = units < ZERO
+  const digits = (negative ? -units : units).toString().padStart(scale + 1, '0')
+  const whole = digits.slice(0, digits.length - scale)
+  const fraction = digits.slice(digits.length - scale).replace(/0+$/, '')
+  return `${negative ? '-' : ''}${whole}${fraction !== '' ? `.${fraction}` : ''}`
+}
+
+// Bring two values to the same scale so their units can be compared or added
+const align = (a: Scaled, b: Scaled): [bigint, bigint, number] => {
+  const scale = Math.max(a.scale, b.scale)
+  return [a.units * pow10(scale - a.scale), b.units * pow10(scale - b.scale), scale]
+}
+
+// Integer division with the remainder handled by the rounding mode
+const divideRounded = (numerator: bigint, denominator: bigint, mode: RoundingMode): bigint => {
+  if (denominator < ZERO) return divideRounded(-numerator, -denominator, mode)
+  
+  const quotient = numerator / denominator // Truncates toward zero
+  const remainder = numerator % denominator
+  if (remainder === ZERO || mode === 'down') return quotient
+  
+  const awayFromZero = numerator < ZERO ? quotient - ONE : quotient + ONE
+  if (mode === 'up') return awayFromZero
+  
+  const doubledRemainder = (remainder < ZERO ? -remainder : remainder) * TWO
+  return doubledRemainder >= denominator ? awayFromZero : quotient
+}
+
+/**
+ * -1, 0 or 1 as a is less than, equal to or greater than b
+ */
+export const compare = (a: DecimalValue, b: DecimalValue): -1 | 0 | 1 => {
+  const [x, y] = align(parse(a), parse(b))
+  return x < y ? -1 : x > y ? 1 : 0
+}
+
+export const isZero = (value: DecimalValue): boolean => parse(value).units === ZERO
+
+export const add = (a: DecimalValue, b: DecimalValue): string => {
+  const [x, y, scale] = align(parse(a), parse(b))
+  return format({ units: x + y, scale })
+}
+
+export const sub = (a: DecimalValue, b: DecimalValue): string => {
+  const [x, y, scale] = align(parse(a), parse(b))
+  return format({ units: x - y, scale })
+}
+
+export const mul = (a: DecimalValue, b: DecimalValue): string => {
+  const x = parse(a)
+  const y = parse(b)
+  return format({ units: x.units * y.units, scale: x.scale + y.scale })
+}
+
+/**
+ * Divide a by b, keeping `decimals` decimals of the quotient
+ */
+export const div = (
+  a: DecimalValue,
+  b: DecimalValue,
+  decimals: number = DEFAULT_DIVISION_DECIMALS,
+  mode: RoundingMode = 'halfUp'
+): string => {
+  const x = parse(a)
+  const y = parse(b)
+  if (y.units === ZERO) throw new Error('Division by zero')
+  
+  // units / 10^decimals = (x.units / 10^x.scale) / (y.units / 10^y.scale)
+  const exponent = decimals + y.scale - x.scale
+  const units = exponent >= 0
+    ? divideRounded(x.units * pow10(exponent), y.units, mode)
+    : divideRounded(x.units, y.units * pow10(-exponent), mode)
+  return format({ units, scale: decimals })
+}
+
+export const abs = (value: DecimalValue): string => {
+  const { units, scale } = parse(value)
+  return format({ units: units < ZERO ? -units : units, scale })
+}
+
+export const negate = (value: DecimalValue): string => {
+  const { units, scale } = parse(value)
+  return format({ units: -units, scale })
+}
+
+/**
+ * Add up a list of values; missing values count as zero
+ */
+export const sum = (values: Array<DecimalValue | undefined>): string => {
+  return values.reduce<string>((total, value) => value != null ? add(total, value) : total, '0')
+}
+
+/**
+ * Round to a number of decimals. Negative decimals round to tens, hundreds and so on.
+ */
+export const round = (value: DecimalValue, decimals: number, mode: RoundingMode = 'halfUp'): string => {
+  const x = parse(value)
+  if (decimals >= x.scale) return format(x)
+  
+  const units = divideRounded(x.units, pow10(x.scale - decimals), mode)
+  return decimals >= 0
+    ? format({ units, scale: decimals })
+    : format({ units: units * pow10(-decimals), scale: 0 })
+}
+
+/**
+ * Round to a multiple of a tick, such as a price increment or lot size
+ */
+export const roundToTick = (value: DecimalValue, tick: DecimalValue, mode: RoundingMode = 'halfUp'): string => {
+  const [x, step, scale] = align(parse(value), parse(tick))
+  if (step <= ZERO) throw new Error(`Invalid tick: ${tick}`)
+  
+  return format({ units: divideRounded(x, step, mode) * step, scale })
+}
+
+/**
+ * Round to exactly `decimals` decimals, padding with zeros, like Number.toFixed
+ */
+export const toFixed = (value: DecimalValue, decimals: number, mode: RoundingMode = 'halfUp'): string => {
+  const [whole, fraction = ''] = round(value, decimals, mode).split('.')
+  return decimals > 0 ? `${whole}.${fraction.padEnd(decimals, '0')}` : whole
+}
+
+/**
+ * Nearest float, for display math and charting where exactness doesn't matter
+ */
+export const toNumber = (value: DecimalValue): number => parseFloat(format(parse(value)))
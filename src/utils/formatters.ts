@@ -2,6 +2,8 @@
  * Utility functions for formatting numbers and currency values
  */
 
+import { abs, div, toFixed } from './decimal'
+
 /**
  * Formats a number with adaptive precision, showing fewer decimal places
  * for larger numbers. Keeps decimal places even for whole numbers.
@@ -24,8 +26,8 @@ export function formatNumber(
   // Convert to number if it's a string
   const num = typeof value === 'string' ? parseFloat(value) : value
   
-  // Handle NaN, undefined, etc.
-  if (num === null || num === undefined || isNaN(num)) {
+  // Handle NaN, Infinity, undefined, etc.
+  if (num === null || num === undefined || !Number.isFinite(num)) {
     return '0'
   }
   
@@ -35,17 +37,17 @@ export function formatNumber(
     
     // Apply suffixes based on magnitude
     if (absValue >= 1_000_000_000) { // Billions
-      const scaledValue = num / 1_000_000_000
+      const scaledValue = div(value, 1_000_000_000)
       const precision = forcePrecision !== undefined ? forcePrecision : 2
-      return `${scaledValue.toFixed(precision)}B`
+      return `${toFixed(scaledValue, precision)}B`
     } else if (absValue >= 1_000_000) { // Millions
-      const scaledValue = num / 1_000_000
+      const scaledValue = div(value, 1_000_000)
       const precision = forcePrecision !== undefined ? forcePrecision : 2
-      return `${scaledValue.toFixed(precision)}M`
+      return `${toFixed(scaledValue, precision)}M`
     } else if (absValue >= 1_000) { // Thousands
-      const scaledValue = num / 1_000
+      const scaledValue = div(value, 1_000)
       const precision = forcePrecision !== undefined ? forcePrecision : 1
-      return `${scaledValue.toFixed(precision)}k`
+      return `${toFixed(scaledValue, precision)}k`
     }
     // For smaller numbers, fall through to standard formatting
   }
@@ -71,8 +73,8 @@ export function formatNumber(
     }
   }
   
-  // Format with the determined precision
-  return num.toFixed(precision)
+  // Format with the determined precision, rounding the exact value rather than its float
+  return toFixed(value, precision)
 }
 
 /**
@@ -104,8 +106,8 @@ export function formatFiat(
   // Convert to number if it's a string
   const num = typeof value === 'string' ? parseFloat(value) : value
   
-  // Handle NaN, undefined, etc.
-  if (num === null || num === undefined || isNaN(num)) {
+  // Handle NaN, Infinity, undefined, etc.
+  if (num === null || num === undefined || !Number.isFinite(num)) {
     return '$0'
   }
   
@@ -129,7 +131,7 @@ export function formatFiat(
     // For small values, increase precision based on magnitude
     if (adaptiveSmallValuePrecision && absValue < 1) {
       // Find the last non-zero digit in the decimal part
-      const strValue = absValue.toFixed(10) // Use a high precision to start with
+      const strValue = toFixed(abs(value), 10) // Use a high precision to start with
       const decimalPart = strValue.includes('.') ? strValue.split('.')[1] : ''
       
       // Find the position of the last non-zero digit
@@ -159,7 +161,7 @@ export function formatFiat(
   }
   
   // Format with appropriate precision
-  let formatted = absValue.toFixed(precision)
+  let formatted = toFixed(abs(value), precision)
   
   // Add commas for thousands if requested
   if (showCommas) {
@@ -192,8 +194,8 @@ export function formatPercent(
   // Convert to number if it's a string
   const num = typeof value === 'string' ? parseFloat(value) : value
   
-  // Handle NaN, undefined, etc.
-  if (num === null || num === undefined || isNaN(num)) {
+  // Handle NaN, Infinity, undefined, etc.
+  if (num === null || num === undefined || !Number.isFinite(num)) {
     return '0%'
   }
   
@@ -215,7 +217,7 @@ export function formatPercent(
   }
   
   // Format with appropriate precision
-  const formatted = num.toFixed(precision)
+  const formatted = toFixed(value, precision)
   
   // Add percentage sign
   return `${formatted}%`
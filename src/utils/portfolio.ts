@@ -0,0 +1,185 @@
+/**
+ * Utility functions for valuing account state and combining several accounts
+ */
+
+import type { AccountAssetPosition, AccountState, MarginSummary, SpotBalance } from '../types/hyperliquidTypes'
+import type { AssetRegistry } from '@/services/hyperliquidAssetRegistry'
+import { abs, compare, div, isZero, mul, sum, toNumber } from './decimal'
+
+export interface AccountStateEntry {
+  address: string
+  accountState: AccountState
+}
+
+// Decimals kept for computed prices and ratios
+const DERIVED_DECIMALS = 8
+
+/**
+ * Add up margin summaries, or undefined if no account has one
+ */
+const sumMarginSummaries = (summaries: Array<MarginSummary | undefined>): MarginSummary | undefined => {
+  const present = summaries.filter((summary): summary is MarginSummary => summary != null)
+  if (present.length === 0) return undefined
+  
+  const accountValue = sum(present.map(summary => summary.accountValue))
+  const totalNtlPos = sum(present.map(summary => summary.totalNtlPos))
+  return {
+    accountValue,
+    totalMarginUsed: sum(present.map(summary => summary.totalMarginUsed)),
+    totalNtlPos,
+    totalRawUsd: sum(present.map(summary => summary.totalRawUsd)),
+    leverage: compare(accountValue, 0) > 0 ? div(totalNtlPos, accountValue, DERIVED_DECIMALS) : '0'
+  }
+}
+
+/**
+ * Add up balances of the same token, or undefined if no account's spot state has loaded
+ */
+const sumSpotBalances = (balanceLists: Array<SpotBalance[] | undefined>): SpotBalance[] | undefined => {
+  const present = balanceLists.filter((balances): balances is SpotBalance[] => balances != null)
+  if (present.length === 0) return undefined
+  
+  const byCoin = new Map<string, SpotBalance[]>()
+  present.flat().forEach(balance => {
+    byCoin.set(balance.coin, [...(byCoin.get(balance.coin) ?? []), balance])
+  })
+  
+  return Array.from(byCoin.values()).map(group => ({
+    coin: group[0].coin,
+    token: group[0].token,
+    total: sum(group.map(({ total }) => total)),
+    hold: sum(group.map(({ hold }) => hold)),
+    entryNtl: sum(group.map(({ entryNtl }) => entryNtl))
+  }))
+}
+
+/**
+ * USD value of a spot balance at the current mid price of its USDC pair,
+ * or undefined if the token has no price yet
+ */
+export const getSpotBalanceValue = (
+  balance: SpotBalance,
+  registry: AssetRegistry,
+  midPrices: Record<string, string>
+): string | undefined => {
+  const price = registry.getTokenUsdPrice(balance.coin, midPrices)
+  return price != null ? mul(balance.total, price) : undefined
+}
+
+/**
+ * Total USD value of spot balances. Tokens without a price count at zero.
+ */
+export const getSpotValue = (
+  balances: SpotBalance[],
+  registry: AssetRegistry,
+  midPrices: Record<string, string>
+): string => {
+  return sum(balances.map(balance => getSpotBalanceValue(balance, registry, midPrices)))
+}
+
+/**
+ * Coins whose mid prices value the given spot balances
+ */
+export const getSpotPriceCoins = (balances: SpotBalance[], registry: AssetRegistry): string[] => {
+  return balances
+    .map(balance => registry.getUsdPair(balance.coin)?.coin)
+    .filter((coin): coin is string => coin != null)
+}
+
+/**
+ * Combine several accounts into one state: balances and margin are summed and
+ * every position is kept, tagged with the account holding it
+ */
+export const aggregateAccountStates = (
+  entries: AccountStateEntry[]
+): AccountState & { assetPositions: AccountAssetPosition[] } => {
+  return {
+    assetPositions: entries.flatMap(({ address, accountState }) =>
+      accountState.assetPositions.map(assetPosition => ({ ...assetPosition, accounts: [address] }))
+    ),
+    crossMarginSummary: sumMarginSummaries(entries.map(({ accountState }) => accountState.crossMarginSummary)),
+    marginSummary: sumMarginSummaries(entries.map(({ accountState }) => accountState.marginSummary)),
+    withdrawable: sum(entries.map(({ accountState }) => accountState.withdrawable)),
+    crossMaintenanceMarginUsed: sum(entries.map(({ accountState }) => accountState.crossMaintenanceMarginUsed)),
+    spotBalances: sumSpotBalances(entries.map(({ accountState }) => accountState.spotBalances))
+  }
+}
+
+/**
+ * Net positions in the same coin across accounts into one position per coin.
+ * Sizes, PnL, margin and funding add up; the entry price is the size-weighted
+ * average of the positions on the net side. Netted positions have no single
+ * liquidation price or leverage, so those are left out.
+ */
+export const netPositions = (positions: AccountAssetPosition[]): AccountAssetPosition[] => {
+  const byCoin = new Map<string, AccountAssetPosition[]>()
+  positions.forEach(assetPosition => {
+    const group = byCoin.get(assetPosition.position.coin) ?? []
+    group.push(assetPosition)
+    byCoin.set(assetPosition.position.coin, group)
+  })
+  
+  return Array.from(byCoin.values()).map(group => {
+    if (group.length === 1) return group[0]
+    
+    const size = sum(group.map(({ position }) => position.szi))
+    
+    // Every position is marked at the same price, so any of them gives the mark
+    const marked = group.find(({ position }) => !isZero(position.szi))
+    const markPx = marked != null
+      ? div(marked.position.positionValue, abs(marked.position.szi), DERIVED_DECIMALS)
+      : '0'
+    
+    // Positions against the net direction reduce it rather than set its entry
+    const sameSide = group.filter(({ position }) => compare(position.szi, 0) === compare(size, 0))
+    const sameSideSize = sum(sameSide.map(({ position }) => abs(position.szi)))
+    const entryPx = compare(sameSideSize, 0) > 0
+      ? div(sum(sameSide.map(({ position }) => mul(position.entryPx, abs(position.szi)))), sameSideSize, DERIVED_DECIMALS)
+      : '0'
+    
+    const unrealizedPnl = sum(group.map(({ position }) => position.unrealizedPnl))
+    const marginUsed = sum(group.map(({ position }) => position.marginUsed))
+    
+    return {
+      type: group[0].type,
+      accounts: group.flatMap(({ accounts }) => accounts),
+      position: {
+        coin: group[0].position.coin,
+        szi: size,
+        entryPx,
+        positionValue: mul(abs(size), markPx),
+        unrealizedPnl,
+        returnOnEquity: compare(marginUsed, 0) > 0 ? div(unrealizedPnl, marginUsed, DERIVED_DECIMALS) : '0',
+        liquidationPx: null,
+        marginUsed,
+        leverage: undefined,
+        maxLeverage: undefined,
+        cumFunding: {
+          allTime: sum(group.map(({ position }) => position.cumFunding?.allTime)),
+          sinceChange: sum(group.map(({ position }) => position.cumFunding?.sinceChange)),
+          sinceOpen: sum(group.map(({ position }) => position.cumFunding?.sinceOpen))
+        }
+      }
+    }
+  })
+}
+
+export interface CrossAccountMetrics {
+  marginRatio: number // Maintenance margin as a percent of account value; liquidation at 100
+  leverage: number // Total notional over account value
+}
+
+/**
+ * Cross margin ratio and account leverage, as Hyperliquid computes them
+ */
+export const getCrossAccountMetrics = (
+  accountValue: string,
+  maintenanceMargin: string,
+  totalNtlPos: string
+): CrossAccountMetrics => {
+  if (compare(accountValue, 0) <= 0) return { marginRatio: 0, leverage: 0 }
+  return {
+    marginRatio: toNumber(mul(div(maintenanceMargin, accountValue), 100)),
+    leverage: toNumber(div(totalNtlPos, accountValue))
+  }
+}
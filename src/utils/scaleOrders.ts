@@ -0,0 +1,116 @@
+/**
+ * Scale (ladder) orders: a total size split into limit orders spread evenly
+ * across a price range, with each leg's share set by a size distribution.
+ * Prices are rounded to the asset's tick and sizes to its szDecimals.
+ */
+
+import type { AssetRegistry } from '@/services/hyperliquidAssetRegistry'
+import type { OrderParams } from '@/services/hyperliquidOrders'
+import type { OrderTif } from '../types/hyperliquidTypes'
+import { add, compare, div, mul, round, sub, sum } from './decimal'
+
+// Orders in one ladder; more makes for an unwieldy batch
+export const MAX_SCALE_ORDERS = 50
+
+// Decimals kept for weights and averages
+const DERIVED_DECIMALS = 8
+
+/**
+ * How the total size is shared between legs, from the start price to the end price.
+ * Linear: sizes change by a constant step so the last leg is `factor` times the first.
+ * Geometric: each leg is `factor` times the one before.
+ * Custom: one weight per leg, as given.
+ */
+export type ScaleDistribution = 'linear' | 'geometric' | 'custom'
+
+export interface ScaleOrderParams {
+  coin: string
+  isBuy: boolean
+  startPrice: string
+  endPrice: string
+  totalSize: string // In coin
+  count: number
+  distribution: ScaleDistribution
+  factor: string // For linear and geometric distributions; '1' is an even split
+  customWeights: string[] // For the custom distribution
+  reduceOnly: boolean
+  tif: OrderTif
+}
+
+export interface ScaleOrderPlan {
+  orders: OrderParams[] // From the start price to the end price
+  totalSize: string // After rounding each leg
+  averagePrice: string // Size-weighted entry if every leg fills
+  notional: string
+}
+
+/**
+ * Relative size of each leg, from the start price to the end price
+ * @throws If the weights can't be parsed or aren't positive
+ */
+export const getScaleWeights = (
+  count: number,
+  distribution: ScaleDistribution,
+  factor: string,
+  customWeights: string[]
+): string[] => {
+  if (distribution === 'custom') {
+    if (customWeights.length !== count) throw new Error(`Enter ${count} weights, one per order`)
+    if (customWeights.some(weight => compare(weight, 0) <= 0)) throw new Error('Weights must be greater than zero')
+    return customWeights
+  }
+  
+  if (compare(factor, 0) <= 0) throw new Error('Size factor must be greater than zero')
+  if (distribution === 'linear') {
+    const step = div(sub(factor, 1), count - 1, DERIVED_DECIMALS)
+    return Array.from({ length: count }, (_, index) => add(1, mul(step, index)))
+  }
+  
+  const weights = ['1']
+  while (weights.length < count) {
+    weights.push(round(mul(weights[weights.length - 1], factor), DERIVED_DECIMALS))
+  }
+  return weights
+}
+
+/**
+ * Split a scale order into its legs. Each leg's size is rounded down, and
+ * the last leg takes what rounding left over so the total is kept.
+ * @throws If the inputs can't be parsed, or rounding leaves a leg with no size
+ */
+export const getScaleOrderPlan = (registry: AssetRegistry, params: ScaleOrderParams): ScaleOrderPlan => {
+  const { coin, isBuy, startPrice, endPrice, totalSize, count, reduceOnly, tif } = params
+  if (!Number.isInteger(count) || count < 2 || count > MAX_SCALE_ORDERS) {
+    throw new Error(`Number of orders must be between 2 and ${MAX_SCALE_ORDERS}`)
+  }
+  if (compare(startPrice, 0) <= 0 || compare(endPrice, 0) <= 0) throw new Error('Prices must be greater than zero')
+  if (compare(totalSize, 0) <= 0) throw new Error('Size must be greater than zero')
+  
+  const weights = getScaleWeights(count, params.distribution, params.factor, params.customWeights)
+  const totalWeight = sum(weights)
+  const priceStep = div(sub(endPrice, startPrice), count - 1, DERIVED_DECIMALS)
+  
+  const roundedTotal = registry.roundSize(coin, totalSize)
+  const sizes = weights.slice(0, -1).map(weight => registry.roundSize(coin, div(mul(totalSize, weight), totalWeight, DERIVED_DECIMALS)))
+  sizes.push(sub(roundedTotal, sum(sizes)))
+  if (sizes.some(size => compare(size, 0) <= 0)) {
+    throw new Error('Total size is too small to split into this many orders')
+  }
+  
+  const orders = sizes.map((size, index): OrderParams => ({
+    coin,
+    isBuy,
+    price: registry.roundPrice(coin, add(startPrice, mul(priceStep, index))),
+    size,
+    reduceOnly,
+    tif
+  }))
+  
+  const notional = sum(orders.map(order => mul(order.price, order.size)))
+  return {
+    orders,
+    totalSize: roundedTotal,
+    averagePrice: div(notional, roundedTotal, DERIVED_DECIMALS),
+    notional
+  }
+}
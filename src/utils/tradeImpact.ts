@@ -0,0 +1,194 @@
+/**
+ * Pre-trade estimates of what an order does to an account: its fill against
+ * the current L2 book, fees, margin and the resulting liquidation price.
+ * Everything is computed client-side from the book and the current AccountState,
+ * valuing positions at the mid as a stand-in for the mark price.
+ */
+
+import type { AccountState, WsBook } from '../types/hyperliquidTypes'
+import type { AssetRegistry } from '@/services/hyperliquidAssetRegistry'
+import type { OrderParams } from '@/services/hyperliquidOrders'
+import { abs, add, compare, div, isZero, mul, sub } from './decimal'
+import { CrossAccountMetrics, getCrossAccountMetrics } from './portfolio'
+
+// Leverage the exchange gives a new position when the user hasn't set one
+const DEFAULT_LEVERAGE = 20
+
+// Decimals kept for computed prices and ratios
+const DERIVED_DECIMALS = 8
+
+export interface FeeRates {
+  taker: string // Fraction of notional, e.g. '0.00045'
+  maker: string
+}
+
+// Rates of the lowest fee tier, used until the user's own rates load
+export const BASE_FEE_RATES: FeeRates = { taker: '0.00045', maker: '0.00015' }
+
+export interface BookFill {
+  midPrice?: string // Undefined if either side of the book is empty
+  takerSize: string // Fills against the book immediately, within the limit price
+  averagePrice?: string // Of the taker fill; undefined if nothing fills
+  slippage?: string // Average price against the mid as a fraction; positive is worse than the mid
+  restingSize: string // Left over after the taker fill: rests at the limit price, or is cancelled for IOC
+}
+
+export interface TradeImpact {
+  fill: BookFill
+  filledSize: string // Taker fill plus, unless IOC, the resting remainder once it fills
+  fee: string
+  positionSize: { before: string, after: string } // Signed, in coin
+  marginUsed: { before: string, after: string }
+  cross?: { before: CrossAccountMetrics, after: CrossAccountMetrics } // Undefined for isolated positions
+  liquidationPrice: { before?: string, after?: string }
+  warning?: string
+}
+
+/**
+ * Walk the book to see how much of an order fills immediately, and at what average price
+ * @param limitPrice Levels beyond this price are left alone
+ */
+export const getBookFill = (book: WsBook, isBuy: boolean, size: string, limitPrice: string): BookFill => {
+  const [bids, asks] = book.levels
+  const midPrice = bids.length > 0 && asks.length > 0 ? div(add(bids[0].px, asks[0].px), 2, DERIVED_DECIMALS) : undefined
+  
+  let remaining = size
+  let cost = '0'
+  for (const level of isBuy ? asks : bids) {
+    if (compare(remaining, 0) <= 0) break
+    if (isBuy ? compare(level.px, limitPrice) > 0 : compare(level.px, limitPrice) < 0) break
+    
+    const take = compare(level.sz, remaining) < 0 ? level.sz : remaining
+    cost = add(cost, mul(take, level.px))
+    remaining = sub(remaining, take)
+  }
+  
+  const takerSize = sub(size, remaining)
+  if (isZero(takerSize)) return { midPrice, takerSize, restingSize: remaining }
+  
+  const averagePrice = div(cost, takerSize, DERIVED_DECIMALS)
+  const slippage = midPrice != null
+    ? div(isBuy ? sub(averagePrice, midPrice) : sub(midPrice, averagePrice), midPrice, DERIVED_DECIMALS)
+    : undefined
+  return { midPrice, takerSize, averagePrice, slippage, restingSize: remaining }
+}
+
+/**
+ * Liquidation price of a position by Hyperliquid's formula:
+ * price - side * marginAvailable / size / (1 - maintenanceRate * side)
+ * @returns Undefined when there's no position or it can't be liquidated
+ */
+const getLiquidationPrice = (
+  markPrice: string,
+  positionSize: string,
+  marginAvailable: string,
+  maintenanceRate: string
+): string | undefined => {
+  if (isZero(positionSize)) return undefined
+  
+  const side = compare(positionSize, 0) > 0 ? 1 : -1
+  const move = div(div(marginAvailable, abs(positionSize), DERIVED_DECIMALS), sub(1, mul(maintenanceRate, side)), DERIVED_DECIMALS)
+  const price = side > 0 ? sub(markPrice, move) : add(markPrice, move)
+  return compare(price, 0) > 0 ? price : undefined
+}
+
+/**
+ * Leverage an order in a coin trades at: the position's, or for a new position
+ * the exchange's default capped at the asset's maximum
+ */
+export const getOrderLeverage = (accountState: AccountState | undefined, registry: AssetRegistry, coin: string): number => {
+  const position = accountState?.assetPositions.find(({ position }) => position.coin === coin)?.position
+  const maxLeverage = registry.get(coin)?.maxLeverage ?? DEFAULT_LEVERAGE
+  return position?.leverage?.value ?? Math.min(DEFAULT_LEVERAGE, maxLeverage)
+}
+
+/**
+ * Estimate an order's effect on the account, assuming it fills as the book stands now
+ */
+export const getTradeImpact = (
+  accountState: AccountState,
+  registry: AssetRegistry,
+  order: OrderParams,
+  book: WsBook,
+  feeRates: FeeRates
+): TradeImpact | undefined => {
+  const asset = registry.get(order.coin)
+  const fill = getBookFill(book, order.isBuy, order.size, order.price)
+  const markPrice = fill.midPrice
+  if (asset == null || asset.maxLeverage == null || markPrice == null) return undefined
+  
+  const position = accountState.assetPositions.find(({ position }) => position.coin === order.coin)?.position
+  const sizeBefore = position?.szi ?? '0'
+  
+  // Reduce-only orders stop at zero, and do nothing if they'd grow the position
+  let filledSize = order.tif === 'Ioc' ? fill.takerSize : order.size
+  let warning: string | undefined
+  if (order.reduceOnly) {
+    const isReducing = order.isBuy ? compare(sizeBefore, 0) < 0 : compare(sizeBefore, 0) > 0
+    filledSize = !isReducing ? '0' : compare(filledSize, abs(sizeBefore)) > 0 ? abs(sizeBefore) : filledSize
+    if (!isReducing) warning = 'Reduce-only order has no position to reduce'
+  }
+  if (order.tif === 'Alo' && !isZero(fill.takerSize)) {
+    warning = 'Post-only order would cross the book and be rejected'
+  } else if (order.tif === 'Ioc' && !isZero(fill.restingSize)) {
+    warning = `Only ${fill.takerSize} fills within the price limit; the rest is cancelled`
+  }
+  
+  // The taker part fills at the book's average price; the rest at the limit price as a maker
+  const takerSize = compare(fill.takerSize, filledSize) < 0 ? fill.takerSize : filledSize
+  const makerSize = sub(filledSize, takerSize)
+  const takerValue = fill.averagePrice != null ? mul(takerSize, fill.averagePrice) : '0'
+  const makerValue = mul(makerSize, order.price)
+  const fillValue = add(takerValue, makerValue)
+  const fee = add(mul(takerValue, feeRates.taker), mul(makerValue, feeRates.maker))
+  
+  const sizeAfter = order.isBuy ? add(sizeBefore, filledSize) : sub(sizeBefore, filledSize)
+  const notionalBefore = mul(abs(sizeBefore), markPrice)
+  const notionalAfter = mul(abs(sizeAfter), markPrice)
+  const notionalChange = sub(notionalAfter, notionalBefore)
+  
+  const leverage = getOrderLeverage(accountState, registry, order.coin)
+  const isCross = position?.leverage?.type !== 'isolated' && !asset.onlyIsolated
+  const marginBefore = position?.marginUsed ?? '0'
+  const marginAfter = isZero(sizeAfter) ? '0' : add(marginBefore, div(notionalChange, leverage, DERIVED_DECIMALS))
+  
+  // Maintenance margin is half the initial margin at max leverage
+  const maintenanceRate = div(1, 2 * asset.maxLeverage, DERIVED_DECIMALS)
+  
+  // Filling away from the mark shows up at once as unrealized PnL, and fees come out of the account
+  const executionPnl = order.isBuy ? sub(mul(filledSize, markPrice), fillValue) : sub(fillValue, mul(filledSize, markPrice))
+  const accountValueChange = sub(executionPnl, fee)
+  
+  let cross: TradeImpact['cross']
+  let liquidationPriceAfter: string | undefined
+  if (isCross) {
+    const accountValue = accountState.crossMarginSummary?.accountValue ?? '0'
+    const totalNtlPos = accountState.crossMarginSummary?.totalNtlPos ?? '0'
+    const maintenanceMargin = accountState.crossMaintenanceMarginUsed ?? '0'
+    
+    const accountValueAfter = add(accountValue, accountValueChange)
+    const totalNtlPosAfter = add(totalNtlPos, notionalChange)
+    const maintenanceMarginAfter = add(maintenanceMargin, mul(notionalChange, maintenanceRate))
+    
+    cross = {
+      before: getCrossAccountMetrics(accountValue, maintenanceMargin, totalNtlPos),
+      after: getCrossAccountMetrics(accountValueAfter, maintenanceMarginAfter, totalNtlPosAfter)
+    }
+    liquidationPriceAfter = getLiquidationPrice(markPrice, sizeAfter, sub(accountValueAfter, maintenanceMarginAfter), maintenanceRate)
+  } else {
+    // An isolated position only has its own margin to lose
+    const isolatedMargin = add(marginAfter, accountValueChange)
+    liquidationPriceAfter = getLiquidationPrice(markPrice, sizeAfter, sub(isolatedMargin, mul(notionalAfter, maintenanceRate)), maintenanceRate)
+  }
+  
+  return {
+    fill,
+    filledSize,
+    fee,
+    positionSize: { before: sizeBefore, after: sizeAfter },
+    marginUsed: { before: marginBefore, after: compare(marginAfter, 0) > 0 ? marginAfter : '0' },
+    cross,
+    liquidationPrice: { before: position?.liquidationPx ?? undefined, after: liquidationPriceAfter },
+    warning
+  }
+}
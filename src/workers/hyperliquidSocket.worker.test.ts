@@ -0,0 +1,123 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest'
+import type { SocketWorkerCommand, SocketWorkerEvent } from './socketWorkerProtocol'
+
+// The socket service, with user state subscriptions that open when the test says so
+const service = vi.hoisted(() => {
+  const noop = () => () => {}
+  return {
+    openUserState: [] as Array<() => void>,
+    connect: vi.fn(),
+    disconnect: vi.fn(),
+    unsubscribeUserState: vi.fn(),
+    subscribeToUserState: vi.fn(),
+    subscribeToConnectionStatus: vi.fn(noop),
+    subscribeToReconnect: noop,
+    subscribeToPongEvents: noop,
+    subscribeToDiagnostics: noop,
+    subscribeToMessages: noop
+  }
+})
+
+vi.mock('../services/hyperliquidSocketService', () => ({
+  hyperliquidSocketService: service
+}))
+
+// The shared worker scope: each tab connects over its own port
+interface FakePort {
+  postMessage: (event: SocketWorkerEvent) => void
+  onmessage?: (event: { data: SocketWorkerCommand }) => void
+}
+let onConnect: (event: { ports: FakePort[] }) => void = () => {}
+
+/**
+ * Connect a tab, which sends commands and reads the events sent to it
+ */
+const connectTab = () => {
+  const sent: SocketWorkerEvent[] = []
+  const port: FakePort = {
+    postMessage: event => sent.push(event)
+  }
+  onConnect({ ports: [port] })
+  return {
+    sent,
+    send: (command: SocketWorkerCommand) => port.onmessage?.({ data: command })
+  }
+}
+
+describe('socket worker', () => {
+  beforeAll(async () => {
+    vi.useFakeTimers()
+    vi.stubGlobal('self', {
+      onconnect: null,
+      addEventListener: (_type: string, listener: typeof onConnect) => {
+        onConnect = listener
+      }
+    })
+    service.subscribeToUserState.mockImplementation(() => new Promise(resolve => {
+      service.openUserState.push(() => resolve(service.unsubscribeUserState))
+    }))
+    
+    await import('./hyperliquidSocket.worker')
+  })
+  
+  it('closes a user state stream that was closed while its snapshot loaded', async () => {
+    const tab = connectTab()
+    tab.send({ type: 'subscribeUserState', id: 1, address: '0xabc' })
+    tab.send({ type: 'close', id: 1 })
+    expect(service.unsubscribeUserState).not.toHaveBeenCalled()
+    
+    service.openUserState[0]()
+    await vi.waitFor(() => expect(service.unsubscribeUserState).toHaveBeenCalledTimes(1))
+    expect(tab.sent).toContainEqual({ type: 'result', id: 1, value: undefined })
+  })
+  
+  it('keeps a user state stream open until it is closed', async () => {
+    service.unsubscribeUserState.mockClear()
+    const tab = connectTab()
+    tab.send({ type: 'subscribeUserState', id: 2, address: '0xabc' })
+    service.openUserState[1]()
+    await vi.waitFor(() => expect(tab.sent).toContainEqual({ type: 'result', id: 2, value: undefined }))
+    expect(service.unsubscribeUserState).not.toHaveBeenCalled()
+    
+    tab.send({ type: 'close', id: 2 })
+    expect(service.unsubscribeUserState).toHaveBeenCalledTimes(1)
+  })
+  
+  it('keeps the socket open while another tab still needs it', () => {
+    const first = connectTab()
+    const second = connectTab()
+    first.send({ type: 'connect' })
+    second.send({ type: 'connect' })
+    
+    first.send({ type: 'disconnect' })
+    expect(service.disconnect).not.toHaveBeenCalled()
+    
+    second.send({ type: 'disconnect' })
+    expect(service.disconnect).toHaveBeenCalledTimes(1)
+  })
+  
+  it('counts a tab with open streams as needing the socket', () => {
+    service.disconnect.mockClear()
+    const first = connectTab()
+    const second = connectTab()
+    first.send({ type: 'connect' })
+    second.send({ type: 'subscribeConnectionStatus', id: 3 })
+    
+    first.send({ type: 'disconnect' })
+    expect(service.disconnect).not.toHaveBeenCalled()
+    
+    second.send({ type: 'close', id: 3 })
+    first.send({ type: 'disconnect' })
+    expect(service.disconnect).toHaveBeenCalledTimes(1)
+  })
+  
+  it('closes the streams of a tab once its leader says it is gone', () => {
+    const closeStatus = vi.fn()
+    service.subscribeToConnectionStatus.mockReturnValueOnce(closeStatus)
+    const tab = connectTab()
+    tab.send({ type: 'subscribeConnectionStatus', id: 4 })
+    
+    tab.send({ type: 'goodbye' })
+    expect(closeStatus).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,314 @@
+// Socket worker: owns the WebSocket, parses and validates every message and
+// merges account state off the main thread. Tabs talk to it through
+// hyperliquidSocketWorkerClient. Run as a shared worker, one instance serves
+// every open tab over its own port, so they all share a single socket. Without
+// shared workers, the tabs elect a leader whose worker serves the others alike.
+
+import { hyperliquidSocketService } from '../services/hyperliquidSocketService'
+import { setNetwork, subscribeToNetworkChange } from '../services/hyperliquidNetwork'
+import type { AccountState } from '../types/hyperliquidTypes'
+import { getTabLockName, SocketWorkerCommand, SocketWorkerEvent, SocketWorkerStats } from './socketWorkerProtocol'
+
+// Mid prices and account state are coalesced to at most one update per interval
+const FLUSH_INTERVAL = 200 // ms
+const STATS_INTERVAL = 250 // ms
+
+// The DOM lib types self as a Window, so describe the worker scope explicitly.
+// A dedicated worker gets 'message' events; a shared worker gets a 'connect' per tab.
+const scope = self as unknown as {
+  postMessage: (event: SocketWorkerEvent) => void
+  addEventListener: (type: 'message' | 'connect', listener: (event: MessageEvent) => void) => void
+}
+const isShared = 'onconnect' in self
+
+interface WorkerPort {
+  postMessage: (event: SocketWorkerEvent) => void
+  close?: () => void
+}
+
+// A connected tab and the close functions of the streams it opened, by stream id
+interface Client {
+  port: WorkerPort
+  streams: Map<number, () => void>
+  wantsSocket: boolean // Asked to connect and hasn't disconnected since
+}
+
+const clients = new Set<Client>()
+let lastMessageTime: number | null = null
+let lastStats: SocketWorkerStats | undefined
+
+/**
+ * Send an event to every connected tab
+ */
+const broadcast = (event: SocketWorkerEvent): void => {
+  clients.forEach(client => client.port.postMessage(event))
+}
+
+/**
+ * Forward a stream's latest value at most once per FLUSH_INTERVAL
+ * @param send Sends the latest value, skipping it if nothing changed
+ */
+const createCoalescer = <T>(send: (value: T) => void) => {
+  let latest: T | undefined
+  let timeout: ReturnType<typeof setTimeout> | null = null
+  
+  return {
+    push: (value: T) => {
+      latest = value
+      if (timeout != null) return
+      timeout = setTimeout(() => {
+        timeout = null
+        if (latest !== undefined) send(latest)
+        latest = undefined
+      }, FLUSH_INTERVAL)
+    },
+    cancel: () => {
+      if (timeout != null) clearTimeout(timeout)
+    }
+  }
+}
+
+/**
+ * Mid prices go out as diffs: only coins whose price changed since the last flush
+ */
+const openMidPriceStream = (client: Client, id: number, coins?: string[]): () => void => {
+  const sent: Record<string, string> = {}
+  const coalescer = createCoalescer<Record<string, string>>(prices => {
+    const changes: Record<string, string> = {}
+    Object.entries(prices).forEach(([coin, price]) => {
+      if (sent[coin] !== price) {
+        changes[coin] = price
+        sent[coin] = price
+      }
+    })
+    if (Object.keys(changes).length > 0) client.port.postMessage({ type: 'stream', id, data: changes })
+  })
+  
+  const unsubscribe = hyperliquidSocketService.subscribeToMidPrices(coalescer.push, coins)
+  return () => {
+    coalescer.cancel()
+    unsubscribe()
+  }
+}
+
+/**
+ * Account state goes out whole, but only when it changed
+ */
+const openUserStateStream = async (client: Client, id: number, address: string): Promise<() => void> => {
+  let sent: string | undefined
+  const coalescer = createCoalescer<AccountState | null>(accountState => {
+    const serialized = JSON.stringify(accountState)
+    if (serialized === sent) return
+    sent = serialized
+    client.port.postMessage({ type: 'stream', id, data: accountState })
+  })
+  
+  const unsubscribe = await hyperliquidSocketService.subscribeToUserState(address, accountState => {
+    coalescer.push(accountState ?? null)
+  })
+  return () => {
+    coalescer.cancel()
+    unsubscribe()
+  }
+}
+
+/**
+ * Run a request and answer with its result or error
+ */
+const respond = (client: Client, id: number, request: () => Promise<unknown>): void => {
+  request().then(
+    value => client.port.postMessage({ type: 'result', id, value }),
+    (error: unknown) => client.port.postMessage({
+      type: 'error',
+      id,
+      message: error instanceof Error ? error.message : String(error)
+    })
+  )
+}
+
+/**
+ * Whether any tab besides this one asked for the socket or has streams open on it
+ */
+const isSocketNeededByOthers = (client: Client): boolean =>
+  Array.from(clients).some(other => other !== client && (other.wantsSocket || other.streams.size > 0))
+
+/**
+ * Close everything a tab opened once it's gone
+ */
+const removeClient = (client: Client): void => {
+  if (!clients.delete(client)) return
+  
+  client.streams.forEach(close => close())
+  client.streams.clear()
+  client.port.close?.()
+  if (client.wantsSocket && !isSocketNeededByOthers(client)) hyperliquidSocketService.disconnect()
+}
+
+const handleCommand = (client: Client, command: SocketWorkerCommand): void => {
+  const { streams } = client
+  
+  switch (command.type) {
+    case 'hello':
+      // The tab holds this lock until it closes, so it's granted to us only then
+      navigator.locks.request(getTabLockName(command.clientId), () => removeClient(client))
+        .catch((error: unknown) => console.error('Socket worker tab lock failed:', error))
+      break
+    case 'addTab':
+      // Comes with the new tab's port, so it's handled where messages arrive instead
+      break
+    case 'goodbye':
+      removeClient(client)
+      break
+    case 'setNetwork':
+      setNetwork(command.network)
+      break
+    case 'connect':
+      client.wantsSocket = true
+      hyperliquidSocketService.connect()
+      break
+    case 'disconnect':
+      // The socket is shared, so one tab disconnecting only closes it if no other tab needs it
+      client.wantsSocket = false
+      if (!isSocketNeededByOthers(client)) hyperliquidSocketService.disconnect()
+      break
+    case 'resume':
+      hyperliquidSocketService.resume()
+      break
+    case 'setStaleTimeout':
+      hyperliquidSocketService.setStaleTimeout(command.timeout)
+      break
+    
+    case 'subscribe':
+      streams.set(command.id, hyperliquidSocketService.subscribe(command.subscription, data => {
+        client.port.postMessage({ type: 'stream', id: command.id, data })
+      }))
+      break
+    case 'subscribeMidPrices':
+      streams.set(command.id, openMidPriceStream(client, command.id, command.coins))
+      break
+    case 'subscribeConnectionStatus':
+      // Status changes reach the tabs through stats; this only keeps the socket wanted
+      streams.set(command.id, hyperliquidSocketService.subscribeToConnectionStatus(() => {}))
+      break
+    case 'subscribeUserState': {
+      // The stream may be closed, or the tab may go, while the snapshot loads.
+      // Until then closing it only marks it to be closed once it opens.
+      let isClosed = false
+      const cancel = () => {
+        isClosed = true
+      }
+      streams.set(command.id, cancel)
+      
+      respond(client, command.id, async () => {
+        try {
+          const close = await openUserStateStream(client, command.id, command.address)
+          if (isClosed) {
+            close()
+          } else {
+            streams.set(command.id, close)
+          }
+        } catch (error) {
+          if (streams.get(command.id) === cancel) streams.delete(command.id)
+          throw error
+        }
+      })
+      break
+    }
+    case 'close':
+      streams.get(command.id)?.()
+      streams.delete(command.id)
+      break
+    
+    case 'post':
+      respond(client, command.id, async () => await hyperliquidSocketService.post(command.request, command.options))
+      break
+    
+    case 'startReplay':
+      hyperliquidSocketService.startReplay(command.frames, command.speed)
+      break
+    case 'stopReplay':
+      hyperliquidSocketService.stopReplay()
+      break
+    case 'startRecording':
+      hyperliquidSocketService.startRecording()
+      break
+    case 'stopRecording':
+      hyperliquidSocketService.stopRecording()
+      break
+    case 'exportRecording':
+      respond(client, command.id, async () => await hyperliquidSocketService.exportRecording())
+      break
+  }
+}
+
+/**
+ * Start serving a tab
+ * @returns The handler for the tab's commands
+ */
+const addClient = (port: WorkerPort): (event: MessageEvent) => void => {
+  const client: Client = { port, streams: new Map(), wantsSocket: false }
+  clients.add(client)
+  
+  // Stats are only sent when they change, so catch the new tab up
+  if (lastStats != null) port.postMessage({ type: 'stats', stats: lastStats })
+  
+  return event => {
+    const command = event.data as SocketWorkerCommand
+    try {
+      handleCommand(client, command)
+    } catch (error) {
+      console.error('Socket worker command failed:', command.type, error)
+    }
+  }
+}
+
+/**
+ * Serve a tab that talks to the worker over its own port
+ */
+const addPort = (port: MessagePort): void => {
+  port.onmessage = addClient(port)
+}
+
+if (isShared) {
+  scope.addEventListener('connect', event => addPort(event.ports[0]))
+} else {
+  // Serves the tab that started it, and as a leader tab's worker also the tabs it passes on
+  const handleMessage = addClient(scope)
+  scope.addEventListener('message', event => {
+    if ((event.data as SocketWorkerCommand).type === 'addTab') {
+      addPort(event.ports[0])
+    } else {
+      handleMessage(event)
+    }
+  })
+}
+
+// Events that don't keep the socket open are forwarded for the worker's whole life
+hyperliquidSocketService.subscribeToReconnect(timestamp => broadcast({ type: 'reconnected', timestamp }))
+hyperliquidSocketService.subscribeToPongEvents(timestamp => broadcast({ type: 'pong', timestamp }))
+hyperliquidSocketService.subscribeToDiagnostics(diagnostic => broadcast({ type: 'diagnostic', diagnostic }))
+hyperliquidSocketService.subscribeToMessages(timestamp => {
+  lastMessageTime = timestamp
+})
+
+// A network switched in one tab applies to every tab sharing the socket
+subscribeToNetworkChange(network => broadcast({ type: 'network', network }))
+
+// Per-message activity, status and budgets are sampled rather than forwarded
+let lastSerializedStats: string | undefined
+setInterval(() => {
+  const stats: SocketWorkerStats = {
+    connectionStatus: hyperliquidSocketService.getConnectionStatus(),
+    lastMessageTime,
+    lastPongTime: hyperliquidSocketService.getLastPongTime(),
+    usage: hyperliquidSocketService.getRateLimitUsage(),
+    recording: hyperliquidSocketService.getRecordingState(),
+    replaying: hyperliquidSocketService.isReplaying()
+  }
+  
+  const serialized = JSON.stringify(stats)
+  if (serialized === lastSerializedStats) return
+  lastSerializedStats = serialized
+  lastStats = stats
+  broadcast({ type: 'stats', stats })
+}, STATS_INTERVAL)
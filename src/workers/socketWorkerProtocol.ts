@@ -0,0 +1,56 @@
+// Messages exchanged between browser tabs and the socket worker
+
+import type { NetworkConfig } from '../services/hyperliquidNetwork'
+import type { RateLimitUsage } from '../services/hyperliquidRateLimiter'
+import type { RecordingState } from '../services/hyperliquidSessionRecorder'
+import type { ConnectionStatus, PostOptions } from '../services/hyperliquidSocketService'
+import type { RecordedFrame, Subscription, WsDiagnostic, WsPostRequest } from '../types/hyperliquidTypes'
+
+// Name of the Web Lock a tab holds for as long as it's open. A shared worker
+// waits on it to learn that the tab closed and its streams can be dropped.
+export const getTabLockName = (clientId: string): string => `hyperliquid-socket-tab-${clientId}`
+
+// Commands sent to the worker by a tab. Streams are opened with an id chosen by
+// the tab and closed with 'close'; requests are answered with 'result' or 'error'.
+export type SocketWorkerCommand =
+  | { type: 'hello', clientId: string }
+  | { type: 'addTab' } // From a leader tab, with the port of another tab to serve
+  | { type: 'goodbye' } // The tab is gone, where Web Locks can't tell
+  | { type: 'setNetwork', network: NetworkConfig }
+  | { type: 'connect' }
+  | { type: 'disconnect' }
+  | { type: 'resume' }
+  | { type: 'setStaleTimeout', timeout: number }
+  | { type: 'subscribe', id: number, subscription: Subscription }
+  | { type: 'subscribeMidPrices', id: number, coins?: string[] }
+  | { type: 'subscribeUserState', id: number, address: string }
+  | { type: 'subscribeConnectionStatus', id: number }
+  | { type: 'close', id: number }
+  | { type: 'post', id: number, request: WsPostRequest, options: PostOptions }
+  | { type: 'startReplay', frames: RecordedFrame[], speed: number }
+  | { type: 'stopReplay' }
+  | { type: 'startRecording' }
+  | { type: 'stopRecording' }
+  | { type: 'exportRecording', id: number }
+
+// Snapshot of the worker's state, sent on an interval instead of per message
+export interface SocketWorkerStats {
+  connectionStatus: ConnectionStatus
+  lastMessageTime: number | null
+  lastPongTime: number | null
+  usage: RateLimitUsage
+  recording: RecordingState
+  replaying: boolean
+}
+
+// Events sent to a tab. Streams, results and errors go only to the tab that
+// asked; everything else goes to every tab.
+export type SocketWorkerEvent =
+  | { type: 'stream', id: number, data: unknown } // Mid price streams send only changed coins
+  | { type: 'result', id: number, value: unknown }
+  | { type: 'error', id: number, message: string }
+  | { type: 'network', network: NetworkConfig }
+  | { type: 'stats', stats: SocketWorkerStats }
+  | { type: 'reconnected', timestamp: number }
+  | { type: 'pong', timestamp: number }
+  | { type: 'diagnostic', diagnostic: WsDiagnostic }